@@ -3,17 +3,243 @@
 import { Command } from "commander";
 import * as dotenv from "dotenv";
 import * as path from "path";
-import { AgentOrchestrator } from "./core/orchestration/AgentOrchestrator";
+import {
+  AgentOrchestrator,
+  OrchestratorConfig,
+} from "./core/orchestration/AgentOrchestrator";
 import { StorageManager } from "./core/storage/StorageManager";
 import { LLMProviderManager } from "./core/llm/LLMProviderManager";
 import { PlaywrightManager } from "./core/playwright/PlaywrightManager";
-import type { CognitiveQuadrant } from "./types/schemas";
+import { ConfigLoader } from "./core/config/ConfigLoader";
+import { VisualBaselineStore } from "./core/visual/VisualBaselineStore";
+import { ScanDiffer } from "./phases/phase-a-scan/ScanDiffer";
+import type { Config, ScanResult } from "./types/schemas";
+import type { PhaseId } from "./types/config";
 
 // 加载环境变量
 dotenv.config();
 
 const program = new Command();
 
+/**
+ * 阶段显示名称
+ */
+const PHASE_TITLES: Record<PhaseId, string> = {
+  scan: "Phase A: Scanning",
+  interpret: "Phase B: Interpreting",
+  orchestrate: "Phase C: Orchestrating",
+  execute: "Phase D: Executing",
+  derive: "Phase E: Deriving",
+};
+
+/**
+ * 订阅协调器事件，在终端渲染进度
+ */
+function attachProgressReporter(orchestrator: AgentOrchestrator): void {
+  orchestrator
+    .on("phase:start", ({ phase }) => {
+      console.log("\n" + "=".repeat(60));
+      console.log(`${PHASE_TITLES[phase]}...`);
+      console.log("=".repeat(60));
+    })
+    .on("phase:end", ({ phase, status, duration, artifactIds, error }) => {
+      const seconds = (duration / 1000).toFixed(1);
+      if (status === "success") {
+        console.log(
+          `✓ ${PHASE_TITLES[phase]} 完成: ${artifactIds.length} 项 (${seconds}s)`,
+        );
+      } else {
+        console.log(`✗ ${PHASE_TITLES[phase]} 失败 (${seconds}s): ${error}`);
+      }
+    })
+    .on("page:scanned", ({ scanResult }) => {
+      console.log(
+        `  📄 ${scanResult.url} - 元素 ${scanResult.elements.length}, 网络请求 ${scanResult.networkRequests.length}, 控制台 ${scanResult.console.length}`,
+      );
+    })
+    .on("workflow:executed", ({ workflow, result }) => {
+      const icon = result.status === "success" ? "✓" : "✗";
+      const target = result.target
+        ? ` [${result.target.browser}${result.target.device ? ` / ${result.target.device}` : ""}]`
+        : "";
+      console.log(
+        `  ${icon} ${workflow.name}${target}: ${result.status} (${result.duration}ms)`,
+      );
+    })
+    .on("step:failed", ({ step, error }) => {
+      console.log(`    ✗ 步骤 ${step.stepNumber} 失败: ${error}`);
+    })
+    .on("review:requested", ({ phase, subjectId, reason }) => {
+      console.log(
+        `  ⚠️ 需要人工审核 [${phase}] ${subjectId.substring(0, 8)}: ${reason}`,
+      );
+    });
+}
+
+/**
+ * 解析数字参数，未提供时返回 undefined
+ */
+function parseNumber(value?: string): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * 解析逗号分隔的列表参数
+ */
+function parseList(value?: string): string[] | undefined {
+  return value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 加载配置
+ * 优先级: CLI 参数 > 环境变量 > profile > 配置文件 > 默认值
+ */
+function loadConfig(options: Record<string, any>): Config {
+  return ConfigLoader.load({
+    configPath: options.config,
+    profile: options.profile,
+    overrides: {
+      startUrl: options.url,
+      llm: {
+        provider: options.provider,
+        model: options.model,
+        apiKey: options.apiKey,
+      },
+      playwright: {
+        headless: options.headless,
+        browser: options.browser,
+        device: options.device,
+      },
+      storage: {
+        dataDir: options.dataDir,
+      },
+      cognitiveQuadrant: {
+        mode: options.cognitiveMode,
+        thresholds: {
+          autoApprove: parseNumber(options.autoApproveThreshold),
+          requireReview: parseNumber(options.requireReviewThreshold),
+        },
+      },
+      phases: {
+        scan: {
+          maxPages: parseNumber(options.maxPages),
+          maxDepth: parseNumber(options.maxDepth),
+          concurrency: parseNumber(options.concurrency),
+          extraction: options.extraction,
+          accessibility: {
+            enabled: options.skipA11y ? false : undefined,
+          },
+          discovery: {
+            mode: options.spa ? "spa" : undefined,
+          },
+          crawl: {
+            include: parseList(options.include),
+            exclude: parseList(options.exclude),
+            respectRobots: options.ignoreRobots ? false : undefined,
+            delayMs: parseNumber(options.crawlDelay),
+          },
+        },
+        execute: {
+          fixtureMode: options.fixtureMode,
+          matrix: parseList(options.browsers)?.map((browser) => ({
+            browser: browser as "chromium" | "firefox" | "webkit",
+          })),
+          testData: {
+            seed: parseNumber(options.seed),
+            locale: options.fakerLocale,
+          },
+        },
+        derive: {
+          level1Count: parseNumber(options.deriveLevel1 ?? options.level1),
+          level2Count: parseNumber(options.deriveLevel2 ?? options.level2),
+          level3Count: parseNumber(options.deriveLevel3 ?? options.level3),
+        },
+      },
+      network: {
+        captureBodies: options.captureBodies,
+      },
+      visual: {
+        enabled: options.visual,
+      },
+      ...(options.loginWorkflow && {
+        auth: { loginWorkflow: options.loginWorkflow },
+      }),
+    },
+  });
+}
+
+/**
+ * 根据配置创建存储、LLM、浏览器和总协调器
+ */
+function createOrchestrator(config: Config): {
+  storage: StorageManager;
+  orchestrator: AgentOrchestrator;
+} {
+  const storage = new StorageManager(path.resolve(config.storage.dataDir));
+  const llm = new LLMProviderManager(
+    config.llm.provider,
+    ConfigLoader.toProviderConfigs(config),
+  );
+  const { device, locale, timezoneId, colorScheme } = config.playwright;
+  const playwright = new PlaywrightManager({
+    browser: config.playwright.browser,
+    headless: config.playwright.headless,
+    slowMo: config.playwright.slowMo,
+    timeout: config.playwright.timeout,
+    ...(device && { device }),
+    ...(locale && { locale }),
+    ...(timezoneId && { timezoneId }),
+    ...(colorScheme && { colorScheme }),
+  });
+
+  return {
+    storage,
+    orchestrator: new AgentOrchestrator(storage, llm, playwright),
+  };
+}
+
+/**
+ * 将配置转换为协调器运行参数
+ */
+function toOrchestratorConfig(config: Config): OrchestratorConfig {
+  const maxPages = config.phases.scan?.maxPages;
+  return {
+    startUrl: config.startUrl ?? "",
+    ...(maxPages !== undefined && { maxPages }),
+    phaseOptions: config.phases,
+    reviewThreshold: config.cognitiveQuadrant.thresholds.requireReview,
+    ...(config.auth && { auth: config.auth }),
+    ...(config.network && { network: config.network }),
+    ...(config.visual && { visual: config.visual }),
+    ...(config.performance && { performance: config.performance }),
+    ...(config.assertions && { assertions: config.assertions }),
+  };
+}
+
+/**
+ * 检查起始 URL
+ */
+function requireStartUrl(config: Config): string {
+  if (!config.startUrl) {
+    throw new Error(
+      "缺少起始 URL: 请使用 -u/--url 或在配置文件中设置 startUrl",
+    );
+  }
+  return config.startUrl;
+}
+
+/**
+ * 创建视觉基线存储（基线按起始 URL 的站点保存）
+ */
+function createBaselineStore(config: Config): VisualBaselineStore {
+  const storage = new StorageManager(path.resolve(config.storage.dataDir));
+  storage.setBaseUrl(requireStartUrl(config));
+  return new VisualBaselineStore(storage, config.visual);
+}
+
 /**
  * CLI 主程序
  */
@@ -28,109 +254,89 @@ program
 program
   .command("run")
   .description("运行完整的 5 阶段工作流 (扫描→解读→编排→执行→派生)")
-  .requiredOption("-u, --url <url>", "起始 URL 地址")
-  .option("-d, --data-dir <dir>", "数据存储目录", "./data")
-  .option(
-    "-p, --provider <provider>",
-    "LLM 提供商 (qwen/openai/claude)",
-    process.env.LLM_PROVIDER || "qwen",
-  )
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .option("-p, --provider <provider>", "LLM 提供商 (qwen/openai/claude)")
   .option("-m, --model <model>", "LLM 模型名称")
   .option("--api-key <key>", "LLM API 密钥")
-  .option("--max-pages <number>", "最大扫描页面数", "10")
-  .option("--max-depth <number>", "最大扫描深度", "3")
-  .option("--headless", "无头模式运行浏览器", false)
+  .option("--max-pages <number>", "最大扫描页面数 (默认: 10)")
+  .option("--max-depth <number>", "最大扫描深度 (默认: 3)")
+  .option("--concurrency <number>", "并发扫描的页面数 (默认: 1)")
+  .option("--spa", "SPA 模式: 监听 history 路由并点击导航元素发现客户端路由")
+  .option(
+    "--extraction <mode>",
+    "元素提取模式 (selectors/accessibility，默认: selectors)",
+  )
+  .option("--include <globs>", "只爬取匹配的 URL，逗号分隔的 glob (如 /app/**)")
+  .option("--exclude <globs>", "排除匹配的 URL，逗号分隔的 glob")
+  .option("--crawl-delay <ms>", "同一主机两次页面访问的最小间隔 (默认: 500)")
+  .option("--ignore-robots", "不遵守 robots.txt 的 Disallow 规则")
+  .option("--skip-a11y", "扫描时不执行无障碍审计")
+  .option("--headless", "无头模式运行浏览器")
+  .option("--browser <browser>", "浏览器类型 (chromium/firefox/webkit)")
   .option(
-    "--browser <browser>",
-    "浏览器类型 (chromium/firefox/webkit)",
-    "chromium",
+    "--browsers <list>",
+    "执行阶段的浏览器矩阵，逗号分隔 (如 chromium,webkit)",
+  )
+  .option(
+    "--device <name>",
+    "设备模拟 (Playwright devices 名称，如 'iPhone 13')",
+  )
+  .option(
+    "--login-workflow <nameOrPath>",
+    "登录工作流名称/ID 或 SOP 文件路径，登录态会被保存并复用",
+  )
+  .option("--capture-bodies", "记录 XHR/fetch 的请求体和响应体 (敏感字段脱敏)")
+  .option("--visual", "将截图与视觉基线对比，差异图写入 diffs/")
+  .option(
+    "--fixture-mode <mode>",
+    "网络 fixture 模式，覆盖工作流中的设置 (record/replay-strict/replay-passthrough)",
+  )
+  .option("--seed <number>", "faker 测试数据的随机种子，相同种子生成相同数据")
+  .option(
+    "--faker-locale <locale>",
+    "faker 测试数据语言 (如 zh_CN，默认: en_US)",
   )
   .option(
     "--cognitive-mode <mode>",
-    "认知象限模式 (autonomous/supervised/collaborative/manual)",
-    "supervised",
+    "认知象限模式 (autonomous/supervised/collaborative/manual，默认: supervised)",
+  )
+  .option("--auto-approve-threshold <number>", "自动批准阈值 (0-1，默认: 0.8)")
+  .option(
+    "--require-review-threshold <number>",
+    "需要审核阈值 (0-1，默认: 0.6)",
   )
-  .option("--auto-approve-threshold <number>", "自动批准阈值 (0-1)", "0.8")
-  .option("--require-review-threshold <number>", "需要审核阈值 (0-1)", "0.6")
-  .option("--derive-level1 <number>", "派生测试 Level 1 数量", "10")
-  .option("--derive-level2 <number>", "派生测试 Level 2 数量", "5")
-  .option("--derive-level3 <number>", "派生测试 Level 3 数量", "3")
+  .option("--derive-level1 <number>", "派生测试 Level 1 数量 (默认: 10)")
+  .option("--derive-level2 <number>", "派生测试 Level 2 数量 (默认: 5)")
+  .option("--derive-level3 <number>", "派生测试 Level 3 数量 (默认: 3)")
   .action(async (options) => {
     try {
       console.log("🚀 E2E Agents - 启动完整工作流\n");
 
-      // 初始化存储管理器
-      const storage = new StorageManager(path.resolve(options.dataDir));
-      console.log(`📁 数据目录: ${options.dataDir}`);
-
-      // 初始化 LLM 提供商
-      const provider = options.provider as "qwen" | "openai" | "claude";
-      const llmConfigs = {
-        qwen: {
-          apiKey: options.apiKey || process.env.QWEN_API_KEY || "",
-          model: options.model || process.env.QWEN_MODEL || "qwen-turbo",
-        },
-        openai: {
-          apiKey: options.apiKey || process.env.OPENAI_API_KEY || "",
-          model: options.model || process.env.OPENAI_MODEL || "gpt-4o",
-        },
-        claude: {
-          apiKey: options.apiKey || process.env.ANTHROPIC_API_KEY || "",
-          model:
-            options.model ||
-            process.env.ANTHROPIC_MODEL ||
-            "claude-sonnet-4-5-20241022",
-        },
-      };
-      const llm = new LLMProviderManager(provider, llmConfigs);
-      console.log(`🤖 LLM 提供商: ${provider} (${llmConfigs[provider].model})`);
+      const config = loadConfig(options);
+      requireStartUrl(config);
+      const { storage, orchestrator } = createOrchestrator(config);
 
-      // 初始化 Playwright
-      const playwright = new PlaywrightManager({
-        headless: options.headless,
-      });
+      console.log(`📁 数据目录: ${config.storage.dataDir}`);
+      console.log(
+        `🤖 LLM 提供商: ${config.llm.provider} (${config.llm.model})`,
+      );
       console.log(
-        `🌐 浏览器: chromium ${options.headless ? "(headless)" : "(headed)"}`,
+        `🌐 浏览器: ${config.playwright.browser} ${config.playwright.headless ? "(headless)" : "(headed)"}`,
       );
 
-      // 初始化认知象限管理器 (用于配置显示)
-      const cognitiveConfig: CognitiveQuadrant = {
-        mode: options.cognitiveMode as
-          | "autonomous"
-          | "supervised"
-          | "collaborative"
-          | "manual",
-        thresholds: {
-          autoApprove: parseFloat(options.autoApproveThreshold),
-          requireReview: parseFloat(options.requireReviewThreshold),
-          autoCorrect: 0.7,
-        },
-        humanInterventionPoints: ["before_phase", "after_phase"],
-      };
-      console.log(`🧠 认知模式: ${cognitiveConfig.mode}`);
+      const { mode, thresholds } = config.cognitiveQuadrant;
+      console.log(`🧠 认知模式: ${mode}`);
       console.log(
-        `📊 阈值: 自动批准=${cognitiveConfig.thresholds.autoApprove}, 需要审核=${cognitiveConfig.thresholds.requireReview}\n`,
+        `📊 阈值: 自动批准=${thresholds.autoApprove}, 需要审核=${thresholds.requireReview}\n`,
       );
 
-      // 创建总协调器
-      const orchestrator = new AgentOrchestrator(storage, llm, playwright);
+      attachProgressReporter(orchestrator);
 
       // 运行完整工作流
-      const session = await orchestrator.run({
-        startUrl: options.url,
-        maxPages: parseInt(options.maxPages),
-        phaseOptions: {
-          scan: {
-            maxDepth: parseInt(options.maxDepth),
-            timeout: 30000,
-          },
-          derive: {
-            level1Count: parseInt(options.deriveLevel1),
-            level2Count: parseInt(options.deriveLevel2),
-            level3Count: parseInt(options.deriveLevel3),
-          },
-        },
-      });
+      const session = await orchestrator.run(toOrchestratorConfig(config));
 
       // 生成并显示报告
       console.log("\n" + "=".repeat(60));
@@ -140,7 +346,7 @@ program
 
       // 保存报告到文件
       const reportPath = path.join(
-        options.dataDir,
+        config.storage.dataDir,
         "state",
         `report_${session.id}.md`,
       );
@@ -165,46 +371,45 @@ program
 program
   .command("scan")
   .description("仅运行阶段 A: 扫描")
-  .requiredOption("-u, --url <url>", "起始 URL 地址")
-  .option("-d, --data-dir <dir>", "数据存储目录", "./data")
-  .option("--max-pages <number>", "最大扫描页面数", "10")
-  .option("--max-depth <number>", "最大扫描深度", "3")
-  .option("--headless", "无头模式运行浏览器", false)
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .option("--max-pages <number>", "最大扫描页面数 (默认: 10)")
+  .option("--max-depth <number>", "最大扫描深度 (默认: 3)")
+  .option("--concurrency <number>", "并发扫描的页面数 (默认: 1)")
+  .option("--spa", "SPA 模式: 监听 history 路由并点击导航元素发现客户端路由")
   .option(
-    "--browser <browser>",
-    "浏览器类型 (chromium/firefox/webkit)",
-    "chromium",
+    "--extraction <mode>",
+    "元素提取模式 (selectors/accessibility，默认: selectors)",
   )
+  .option("--include <globs>", "只爬取匹配的 URL，逗号分隔的 glob (如 /app/**)")
+  .option("--exclude <globs>", "排除匹配的 URL，逗号分隔的 glob")
+  .option("--crawl-delay <ms>", "同一主机两次页面访问的最小间隔 (默认: 500)")
+  .option("--ignore-robots", "不遵守 robots.txt 的 Disallow 规则")
+  .option("--skip-a11y", "扫描时不执行无障碍审计")
+  .option("--headless", "无头模式运行浏览器")
+  .option("--browser <browser>", "浏览器类型 (chromium/firefox/webkit)")
+  .option(
+    "--device <name>",
+    "设备模拟 (Playwright devices 名称，如 'iPhone 13')",
+  )
+  .option(
+    "--login-workflow <nameOrPath>",
+    "登录工作流名称/ID 或 SOP 文件路径，登录态会被保存并复用",
+  )
+  .option("--capture-bodies", "记录 XHR/fetch 的请求体和响应体 (敏感字段脱敏)")
+  .option("--visual", "将截图与视觉基线对比，差异图写入 diffs/")
   .action(async (options) => {
     try {
       console.log("🔍 E2E Agents - 扫描阶段\n");
 
-      const storage = new StorageManager(path.resolve(options.dataDir));
-      const playwright = new PlaywrightManager({
-        headless: options.headless,
-      });
-
-      const llmConfigs = {
-        qwen: { apiKey: process.env.QWEN_API_KEY || "", model: "qwen-turbo" },
-        openai: { apiKey: process.env.OPENAI_API_KEY || "", model: "gpt-4o" },
-        claude: {
-          apiKey: process.env.ANTHROPIC_API_KEY || "",
-          model: "claude-sonnet-4-5-20241022",
-        },
-      };
-      const llm = new LLMProviderManager("qwen", llmConfigs);
-
-      const orchestrator = new AgentOrchestrator(storage, llm, playwright);
+      const config = loadConfig(options);
+      requireStartUrl(config);
+      const { orchestrator } = createOrchestrator(config);
+      attachProgressReporter(orchestrator);
 
-      await orchestrator.runPhase("scan", {
-        startUrl: options.url,
-        maxPages: parseInt(options.maxPages),
-        phaseOptions: {
-          scan: {
-            maxDepth: parseInt(options.maxDepth),
-          },
-        },
-      });
+      await orchestrator.runPhase("scan", toOrchestratorConfig(config));
 
       await orchestrator.cleanup();
       console.log("\n✅ 扫描完成!");
@@ -221,40 +426,22 @@ program
 program
   .command("interpret")
   .description("仅运行阶段 B: 解读")
-  .option("-d, --data-dir <dir>", "数据存储目录", "./data")
-  .option("-p, --provider <provider>", "LLM 提供商", "qwen")
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .option("-p, --provider <provider>", "LLM 提供商")
   .option("-m, --model <model>", "LLM 模型名称")
   .action(async (options) => {
     try {
       console.log("🔮 E2E Agents - 解读阶段\n");
 
-      const storage = new StorageManager(path.resolve(options.dataDir));
+      const config = loadConfig(options);
+      requireStartUrl(config);
+      const { orchestrator } = createOrchestrator(config);
+      attachProgressReporter(orchestrator);
 
-      const provider = (options.provider || "qwen") as
-        | "qwen"
-        | "openai"
-        | "claude";
-      const llmConfigs = {
-        qwen: {
-          apiKey: process.env.QWEN_API_KEY || "",
-          model: options.model || "qwen-turbo",
-        },
-        openai: {
-          apiKey: process.env.OPENAI_API_KEY || "",
-          model: options.model || "gpt-4o",
-        },
-        claude: {
-          apiKey: process.env.ANTHROPIC_API_KEY || "",
-          model: options.model || "claude-sonnet-4-5-20241022",
-        },
-      };
-      const llm = new LLMProviderManager(provider, llmConfigs);
-
-      const playwright = new PlaywrightManager();
-
-      const orchestrator = new AgentOrchestrator(storage, llm, playwright);
-
-      await orchestrator.runPhase("interpret", { startUrl: "" });
+      await orchestrator.runPhase("interpret", toOrchestratorConfig(config));
 
       console.log("\n✅ 解读完成!");
       process.exit(0);
@@ -270,40 +457,22 @@ program
 program
   .command("orchestrate")
   .description("仅运行阶段 C: 编排")
-  .option("-d, --data-dir <dir>", "数据存储目录", "./data")
-  .option("-p, --provider <provider>", "LLM 提供商", "qwen")
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .option("-p, --provider <provider>", "LLM 提供商")
   .option("-m, --model <model>", "LLM 模型名称")
   .action(async (options) => {
     try {
       console.log("📝 E2E Agents - 编排阶段\n");
 
-      const storage = new StorageManager(path.resolve(options.dataDir));
-
-      const provider = (options.provider || "qwen") as
-        | "qwen"
-        | "openai"
-        | "claude";
-      const llmConfigs = {
-        qwen: {
-          apiKey: process.env.QWEN_API_KEY || "",
-          model: options.model || "qwen-turbo",
-        },
-        openai: {
-          apiKey: process.env.OPENAI_API_KEY || "",
-          model: options.model || "gpt-4o",
-        },
-        claude: {
-          apiKey: process.env.ANTHROPIC_API_KEY || "",
-          model: options.model || "claude-sonnet-4-5-20241022",
-        },
-      };
-      const llm = new LLMProviderManager(provider, llmConfigs);
-
-      const playwright = new PlaywrightManager();
-
-      const orchestrator = new AgentOrchestrator(storage, llm, playwright);
+      const config = loadConfig(options);
+      requireStartUrl(config);
+      const { orchestrator } = createOrchestrator(config);
+      attachProgressReporter(orchestrator);
 
-      await orchestrator.runPhase("orchestrate", { startUrl: "" });
+      await orchestrator.runPhase("orchestrate", toOrchestratorConfig(config));
 
       console.log("\n✅ 编排完成!");
       process.exit(0);
@@ -319,31 +488,45 @@ program
 program
   .command("execute")
   .description("仅运行阶段 D: 执行")
-  .option("-d, --data-dir <dir>", "数据存储目录", "./data")
-  .option("--headless", "无头模式运行浏览器", false)
-  .option("--browser <browser>", "浏览器类型", "chromium")
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .option("--headless", "无头模式运行浏览器")
+  .option("--browser <browser>", "浏览器类型 (chromium/firefox/webkit)")
+  .option(
+    "--browsers <list>",
+    "浏览器矩阵，逗号分隔 (如 chromium,firefox,webkit)",
+  )
+  .option(
+    "--device <name>",
+    "设备模拟 (Playwright devices 名称，如 'iPhone 13')",
+  )
+  .option(
+    "--login-workflow <nameOrPath>",
+    "登录工作流名称/ID 或 SOP 文件路径，登录态会被保存并复用",
+  )
+  .option("--capture-bodies", "记录 XHR/fetch 的请求体和响应体 (敏感字段脱敏)")
+  .option("--visual", "将截图与视觉基线对比，差异图写入 diffs/")
+  .option(
+    "--fixture-mode <mode>",
+    "网络 fixture 模式，覆盖工作流中的设置 (record/replay-strict/replay-passthrough)",
+  )
+  .option("--seed <number>", "faker 测试数据的随机种子，相同种子生成相同数据")
+  .option(
+    "--faker-locale <locale>",
+    "faker 测试数据语言 (如 zh_CN，默认: en_US)",
+  )
   .action(async (options) => {
     try {
       console.log("▶️ E2E Agents - 执行阶段\n");
 
-      const storage = new StorageManager(path.resolve(options.dataDir));
-      const playwright = new PlaywrightManager({
-        headless: options.headless,
-      });
-
-      const llmConfigs = {
-        qwen: { apiKey: process.env.QWEN_API_KEY || "", model: "qwen-turbo" },
-        openai: { apiKey: process.env.OPENAI_API_KEY || "", model: "gpt-4o" },
-        claude: {
-          apiKey: process.env.ANTHROPIC_API_KEY || "",
-          model: "claude-sonnet-4-5-20241022",
-        },
-      };
-      const llm = new LLMProviderManager("qwen", llmConfigs);
-
-      const orchestrator = new AgentOrchestrator(storage, llm, playwright);
+      const config = loadConfig(options);
+      requireStartUrl(config);
+      const { orchestrator } = createOrchestrator(config);
+      attachProgressReporter(orchestrator);
 
-      await orchestrator.runPhase("execute", { startUrl: "" });
+      await orchestrator.runPhase("execute", toOrchestratorConfig(config));
 
       await orchestrator.cleanup();
       console.log("\n✅ 执行完成!");
@@ -360,54 +543,71 @@ program
 program
   .command("derive")
   .description("仅运行阶段 E: 派生")
-  .option("-d, --data-dir <dir>", "数据存储目录", "./data")
-  .option("-p, --provider <provider>", "LLM 提供商", "qwen")
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .option("-p, --provider <provider>", "LLM 提供商")
   .option("-m, --model <model>", "LLM 模型名称")
-  .option("--level1 <number>", "Level 1 测试数量", "10")
-  .option("--level2 <number>", "Level 2 测试数量", "5")
-  .option("--level3 <number>", "Level 3 测试数量", "3")
+  .option("--level1 <number>", "Level 1 测试数量 (默认: 10)")
+  .option("--level2 <number>", "Level 2 测试数量 (默认: 5)")
+  .option("--level3 <number>", "Level 3 测试数量 (默认: 3)")
   .action(async (options) => {
     try {
       console.log("🧬 E2E Agents - 派生阶段\n");
 
-      const storage = new StorageManager(path.resolve(options.dataDir));
+      const config = loadConfig(options);
+      requireStartUrl(config);
+      const { orchestrator } = createOrchestrator(config);
+      attachProgressReporter(orchestrator);
 
-      const provider = (options.provider || "qwen") as
-        | "qwen"
-        | "openai"
-        | "claude";
-      const llmConfigs = {
-        qwen: {
-          apiKey: process.env.QWEN_API_KEY || "",
-          model: options.model || "qwen-turbo",
-        },
-        openai: {
-          apiKey: process.env.OPENAI_API_KEY || "",
-          model: options.model || "gpt-4o",
-        },
-        claude: {
-          apiKey: process.env.ANTHROPIC_API_KEY || "",
-          model: options.model || "claude-sonnet-4-5-20241022",
-        },
-      };
-      const llm = new LLMProviderManager(provider, llmConfigs);
+      await orchestrator.runPhase("derive", toOrchestratorConfig(config));
+
+      console.log("\n✅ 派生完成!");
+      process.exit(0);
+    } catch (error) {
+      console.error("\n❌ 错误:", (error as Error).message);
+      process.exit(1);
+    }
+  });
 
-      const playwright = new PlaywrightManager();
+/**
+ * resume 命令 - 恢复中断的会话
+ */
+program
+  .command("resume <sessionId>")
+  .description("恢复中断或失败的会话，跳过已完成的阶段")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .option("-p, --provider <provider>", "LLM 提供商 (qwen/openai/claude)")
+  .option("-m, --model <model>", "LLM 模型名称")
+  .option("--api-key <key>", "LLM API 密钥")
+  .option("--headless", "无头模式运行浏览器")
+  .option("--failed-phase-only", "只重新运行中断/失败的阶段", false)
+  .action(async (sessionId, options) => {
+    try {
+      console.log("⏯️ E2E Agents - 恢复会话\n");
 
-      const orchestrator = new AgentOrchestrator(storage, llm, playwright);
+      const config = loadConfig(options);
+      const { storage, orchestrator } = createOrchestrator(config);
+      attachProgressReporter(orchestrator);
 
-      await orchestrator.runPhase("derive", {
-        startUrl: "",
-        phaseOptions: {
-          derive: {
-            level1Count: parseInt(options.level1),
-            level2Count: parseInt(options.level2),
-            level3Count: parseInt(options.level3),
-          },
-        },
+      const session = await orchestrator.resume(sessionId, {
+        failedPhaseOnly: options.failedPhaseOnly,
+        ...(config.assertions && { assertions: config.assertions }),
       });
 
-      console.log("\n✅ 派生完成!");
+      console.log("\n" + "=".repeat(60));
+      const report = await orchestrator.generateReport();
+      console.log(report);
+      console.log("=".repeat(60));
+
+      await storage.saveGlobalState(`report_${session.id}`, report);
+
+      await orchestrator.cleanup();
+
+      console.log(`\n✅ 会话状态: ${session.status}`);
       process.exit(0);
     } catch (error) {
       console.error("\n❌ 错误:", (error as Error).message);
@@ -421,32 +621,20 @@ program
 program
   .command("report")
   .description("为指定会话生成报告")
-  .option("-d, --data-dir <dir>", "数据存储目录", "./data")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
   .option("-s, --session-id <id>", "会话 ID (可选)")
   .action(async (options) => {
     try {
       console.log("📊 E2E Agents - 生成报告\n");
 
-      const storage = new StorageManager(path.resolve(options.dataDir));
-
-      const llmConfigs = {
-        qwen: { apiKey: process.env.QWEN_API_KEY || "", model: "qwen-turbo" },
-        openai: { apiKey: process.env.OPENAI_API_KEY || "", model: "gpt-4o" },
-        claude: {
-          apiKey: process.env.ANTHROPIC_API_KEY || "",
-          model: "claude-sonnet-4-5-20241022",
-        },
-      };
-      const llm = new LLMProviderManager("qwen", llmConfigs);
-
-      const playwright = new PlaywrightManager();
-
-      const orchestrator = new AgentOrchestrator(storage, llm, playwright);
+      const config = loadConfig(options);
+      const { orchestrator } = createOrchestrator(config);
 
-      // Note: resume functionality not yet implemented in AgentOrchestrator
-      // if (options.sessionId) {
-      //   await orchestrator.resume(options.sessionId);
-      // }
+      if (options.sessionId) {
+        await orchestrator.loadSession(options.sessionId);
+      }
 
       const report = await orchestrator.generateReport();
       console.log(report);
@@ -459,6 +647,158 @@ program
     }
   });
 
+/**
+ * diff 命令 - 对比两次扫描
+ */
+program
+  .command("diff [from] [to]")
+  .description(
+    "对比两次扫描的路由、可交互元素、控制台错误和失败请求 (不指定时间戳时列出所有扫描时间戳)",
+  )
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .action(async (from: string | undefined, to: string | undefined, options) => {
+    try {
+      const config = loadConfig(options);
+      const storage = new StorageManager(path.resolve(config.storage.dataDir));
+      storage.setBaseUrl(requireStartUrl(config));
+
+      if (!from || !to) {
+        const timestamps = await storage.listTimestamps("scan");
+        if (timestamps.length === 0) {
+          console.log("没有扫描数据");
+          process.exit(0);
+        }
+        console.log("📅 扫描时间戳 (最新的在前):\n");
+        for (const timestamp of timestamps) {
+          const results = await storage.loadPhaseDataByTimestamp<ScanResult>(
+            "scan",
+            timestamp,
+          );
+          console.log(
+            `- ${timestamp}  ${results.map((r) => r.route).join(", ")}`,
+          );
+        }
+        console.log("\n用法: e2e-agents diff <from> <to>");
+        process.exit(0);
+      }
+
+      const differ = new ScanDiffer(storage);
+      const report = await differ.diff(from, to);
+      const reportPath = await differ.save(report);
+
+      console.log(`🔀 扫描对比: ${report.from} → ${report.to}`);
+      console.log(`   页面数: ${report.fromPages} → ${report.toPages}\n`);
+
+      report.addedRoutes.forEach((route) => console.log(`+ 新增路由 ${route}`));
+      report.removedRoutes.forEach((route) =>
+        console.log(`- 移除路由 ${route}`),
+      );
+
+      for (const page of report.pages) {
+        console.log(`\n📄 ${page.route}`);
+        page.addedElements.forEach((e) =>
+          console.log(`  + ${e.elementType} ${e.selector}`),
+        );
+        page.removedElements.forEach((e) =>
+          console.log(`  - ${e.elementType} ${e.selector}`),
+        );
+        page.changedElements.forEach(({ element, changes }) =>
+          console.log(
+            `  ~ ${element.elementType} ${element.selector} (${changes.map((c) => c.path).join(", ")})`,
+          ),
+        );
+        page.newConsoleErrors.forEach((text) =>
+          console.log(`  ⚠️ 控制台错误: ${text}`),
+        );
+        page.newFailingRequests.forEach((r) =>
+          console.log(
+            `  ⚠️ 请求失败: ${r.method} ${r.path} (${r.status ?? r.failure})`,
+          ),
+        );
+      }
+
+      if (report.atRiskWorkflows.length > 0) {
+        console.log("\n🚨 可能失败的工作流:");
+        for (const workflow of report.atRiskWorkflows) {
+          console.log(`- ${workflow.name}`);
+          workflow.reasons.forEach((reason) => console.log(`  ${reason}`));
+        }
+      }
+
+      console.log(`\n✅ 差异报告: ${reportPath}`);
+      process.exit(0);
+    } catch (error) {
+      console.error("\n❌ 错误:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * baseline 命令 - 管理视觉基线
+ */
+const baseline = program
+  .command("baseline")
+  .description("管理视觉回归的基线截图");
+
+baseline
+  .command("list")
+  .description("列出与基线不一致、等待批准的截图")
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .action(async (options) => {
+    try {
+      const config = loadConfig(options);
+      const pending = await createBaselineStore(config).listPending();
+
+      if (pending.length === 0) {
+        console.log("✅ 没有待批准的截图");
+        process.exit(0);
+      }
+
+      console.log(`🖼️  ${pending.length} 张截图待批准:\n`);
+      for (const item of pending) {
+        console.log(
+          `- ${item.id} (差异 ${(item.diffRatio * 100).toFixed(2)}%, ${item.capturedAt})`,
+        );
+        if (item.diff) {
+          console.log(`  差异图: ${item.diff}`);
+        }
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error("\n❌ 错误:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+baseline
+  .command("approve [ids...]")
+  .description("批准新截图，替换为基线 (未指定 ID 时批准所有待批准截图)")
+  .option("-u, --url <url>", "起始 URL 地址 (可在配置文件中设置 startUrl)")
+  .option("-c, --config <path>", "配置文件路径 (默认查找 e2e-agents.config.*)")
+  .option("--profile <name>", "使用配置文件中的 profile")
+  .option("-d, --data-dir <dir>", "数据存储目录 (默认: ./data)")
+  .action(async (ids: string[], options) => {
+    try {
+      const config = loadConfig(options);
+      const approved = await createBaselineStore(config).approve(
+        ids.length > 0 ? ids : undefined,
+      );
+
+      approved.forEach((id) => console.log(`- ${id}`));
+      console.log(`\n✅ 已更新 ${approved.length} 张基线截图`);
+      process.exit(0);
+    } catch (error) {
+      console.error("\n❌ 错误:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
 // 解析命令行参数
 program.parse(process.argv);
 
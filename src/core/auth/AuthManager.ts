@@ -0,0 +1,383 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Page } from "playwright";
+import {
+  PlaywrightManager,
+  StorageState,
+} from "../playwright/PlaywrightManager";
+import { StorageManager } from "../storage/StorageManager";
+import { EventBus } from "../events/EventBus";
+import { LogManager, Logger } from "../logging/LogManager";
+import { AuthConfig, ExecutionResult, SOPWorkflow } from "../../types/schemas";
+
+/**
+ * 登录态在全局状态中的键名
+ */
+const STORAGE_STATE_KEY = "auth_storage_state";
+
+/**
+ * 单个管理器允许的最大重新登录次数，避免登录失效检测误判时无限循环
+ */
+const MAX_REAUTH_ATTEMPTS = 3;
+
+/**
+ * 登录后触发会话失效检测的请求类型
+ */
+const WATCHED_RESOURCE_TYPES = ["document", "xhr", "fetch"];
+
+/**
+ * 登录工作流的解析和运行方式，由总协调器基于 SOPParser 和 WorkflowExecutor 提供
+ */
+export interface LoginRunner {
+  /** 解析 SOP 文件内容 */
+  parse(content: string, format: "md" | "json"): SOPWorkflow;
+  /** 在指定浏览器中运行登录工作流 */
+  run(
+    playwright: PlaywrightManager,
+    workflow: SOPWorkflow,
+    inputs: Record<string, string>,
+  ): Promise<ExecutionResult>;
+}
+
+/**
+ * 认证管理器
+ * 运行登录工作流获取登录态 (storageState) 并保存到存储中，
+ * 之后的扫描和执行复用该登录态；检测到 401 或跳转到登录页时重新登录
+ */
+export class AuthManager {
+  private playwright: PlaywrightManager;
+  private storage: StorageManager;
+  private config: AuthConfig;
+  private runner: LoginRunner;
+  private events: EventBus;
+  private logger: Logger = LogManager.getLogger("AuthManager");
+
+  private prepared = false;
+  private loggingIn = false;
+  private expired = false;
+  private reauthCount = 0;
+  private pendingLogin: Promise<void> | null = null;
+
+  constructor(
+    playwright: PlaywrightManager,
+    storage: StorageManager,
+    config: AuthConfig,
+    runner: LoginRunner,
+    events: EventBus = new EventBus(),
+  ) {
+    if (!config.loginWorkflow && !config.credentials) {
+      throw new Error("Auth config requires loginWorkflow or credentials");
+    }
+
+    this.playwright = playwright;
+    this.storage = storage;
+    this.config = config;
+    this.runner = runner;
+    this.events = events;
+
+    this.playwright.onPage((page) => this.watch(page));
+  }
+
+  /**
+   * 为另一个浏览器管理器（如浏览器矩阵中的执行环境）创建认证管理器
+   * 共享同一份认证配置和已保存的登录态
+   */
+  forPlaywright(playwright: PlaywrightManager): AuthManager {
+    if (playwright === this.playwright) {
+      return this;
+    }
+    const auth = new AuthManager(
+      playwright,
+      this.storage,
+      this.config,
+      this.runner,
+      this.events,
+    );
+    auth.prepared = this.prepared;
+    return auth;
+  }
+
+  /**
+   * 准备登录态
+   * 优先载入已保存的 storageState，没有时运行登录工作流
+   */
+  async prepare(): Promise<void> {
+    if (this.prepared) {
+      return;
+    }
+
+    const saved =
+      await this.storage.loadGlobalState<StorageState>(STORAGE_STATE_KEY);
+
+    if (saved) {
+      this.logger.info("载入已保存的登录态");
+      this.playwright.setStorageState(saved);
+      if (this.playwright.isInitialized()) {
+        await this.playwright.resetContext();
+      }
+    } else {
+      await this.login();
+    }
+
+    this.prepared = true;
+  }
+
+  /**
+   * 运行登录工作流，并保存得到的登录态
+   */
+  async login(): Promise<void> {
+    const workflow = await this.resolveLoginWorkflow();
+    this.logger.info(`运行登录工作流: ${workflow.name}`);
+
+    this.loggingIn = true;
+    try {
+      const result = await this.runner.run(
+        this.playwright,
+        workflow,
+        this.getCredentialInputs(),
+      );
+
+      if (result.status !== "success") {
+        const failed = result.stepResults.find((r) => r.error);
+        throw new Error(
+          `Login workflow failed${failed ? ` at step ${failed.stepNumber}: ${failed.error}` : ""}`,
+        );
+      }
+
+      const state = await this.playwright.getContext().storageState();
+      this.playwright.setStorageState(state);
+      await this.storage.saveGlobalState(STORAGE_STATE_KEY, state);
+      this.logger.info(`登录成功，已保存 ${state.cookies.length} 个 cookie`);
+    } finally {
+      this.loggingIn = false;
+    }
+
+    this.expired = false;
+  }
+
+  /**
+   * 会话失效时重新登录
+   * 并发调用时只登录一次，其余调用方等待同一次登录完成
+   * @returns 是否重新登录（调用方应重试刚才的导航或操作）
+   */
+  async ensureSession(): Promise<boolean> {
+    if (this.pendingLogin) {
+      await this.pendingLogin;
+      return true;
+    }
+
+    if (!this.expired) {
+      return false;
+    }
+
+    if (this.reauthCount >= MAX_REAUTH_ATTEMPTS) {
+      this.logger.warn(
+        `已重新登录 ${MAX_REAUTH_ATTEMPTS} 次，不再尝试；请检查登录配置`,
+      );
+      this.expired = false;
+      return false;
+    }
+
+    this.reauthCount++;
+    this.logger.warn(
+      `检测到会话失效，重新登录 (${this.reauthCount}/${MAX_REAUTH_ATTEMPTS})`,
+    );
+    this.pendingLogin = this.login().finally(() => {
+      this.pendingLogin = null;
+    });
+    await this.pendingLogin;
+    return true;
+  }
+
+  /**
+   * 判断 URL 是否为登录页
+   */
+  isLoginUrl(url: string): boolean {
+    if (this.config.loginUrlPattern) {
+      return new RegExp(this.config.loginUrlPattern).test(url);
+    }
+
+    const loginUrl = this.config.credentials?.loginUrl;
+    if (!loginUrl) {
+      return false;
+    }
+
+    try {
+      const target = new URL(url);
+      const login = new URL(loginUrl, target);
+      return target.host === login.host && target.pathname === login.pathname;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 监听页面的 401 响应和跳转到登录页的导航
+   */
+  private watch(page: Page): void {
+    page.on("response", (response) => {
+      if (
+        response.status() === 401 &&
+        WATCHED_RESOURCE_TYPES.includes(response.request().resourceType())
+      ) {
+        this.markExpired(`401 ${response.url()}`);
+      }
+    });
+
+    page.on("framenavigated", (frame) => {
+      if (frame === page.mainFrame() && this.isLoginUrl(frame.url())) {
+        this.markExpired(`redirected to ${frame.url()}`);
+      }
+    });
+  }
+
+  /**
+   * 标记会话失效（登录过程中的事件忽略）
+   */
+  private markExpired(reason: string): void {
+    if (this.loggingIn || this.expired) {
+      return;
+    }
+    this.logger.debug(`会话失效: ${reason}`);
+    this.expired = true;
+  }
+
+  /**
+   * 确定登录工作流
+   * 依次尝试: SOP 文件路径、已编排的工作流（按 ID 或名称）、账号密码配置
+   */
+  private async resolveLoginWorkflow(): Promise<SOPWorkflow> {
+    const name = this.config.loginWorkflow;
+
+    if (name) {
+      const filePath = path.resolve(name);
+      if (/\.(md|json)$/.test(name) && fs.existsSync(filePath)) {
+        const content = fs.readFileSync(filePath, "utf-8");
+        return this.runner.parse(
+          content,
+          name.endsWith(".json") ? "json" : "md",
+        );
+      }
+
+      for (const timestamp of await this.storage.listTimestamps(
+        "orchestrate",
+      )) {
+        const workflows =
+          await this.storage.loadPhaseDataByTimestamp<SOPWorkflow>(
+            "orchestrate",
+            timestamp,
+          );
+        const found = workflows.find((w) => w.id === name || w.name === name);
+        if (found) {
+          return found;
+        }
+      }
+
+      if (!this.config.credentials) {
+        throw new Error(`Login workflow not found: ${name}`);
+      }
+      this.logger.warn(`未找到登录工作流 ${name}，使用账号密码登录`);
+    }
+
+    return this.buildCredentialsWorkflow();
+  }
+
+  /**
+   * 根据账号密码和选择器构建登录工作流
+   */
+  private buildCredentialsWorkflow(): SOPWorkflow {
+    const credentials = this.config.credentials!;
+    const timestamp = new Date().toISOString();
+
+    const steps: SOPWorkflow["steps"] = [
+      {
+        stepNumber: 1,
+        action: "navigate",
+        description: "打开登录页",
+        target: { url: credentials.loginUrl },
+      },
+      {
+        stepNumber: 2,
+        action: "input",
+        description: "输入用户名",
+        target: { selector: credentials.usernameSelector },
+        data: { source: "user", field: "username" },
+      },
+      {
+        stepNumber: 3,
+        action: "input",
+        description: "输入密码",
+        target: { selector: credentials.passwordSelector },
+        data: { source: "user", field: "password" },
+      },
+      {
+        stepNumber: 4,
+        action: "click",
+        description: "提交登录",
+        target: { selector: credentials.submitSelector },
+      },
+      {
+        stepNumber: 5,
+        action: "wait",
+        description: "等待登录完成",
+        // 未指定成功标志时等待固定时长
+        ...(credentials.successSelector
+          ? {
+              target: { selector: credentials.successSelector },
+              validation: { type: "exists", expected: true, timeout: 15000 },
+            }
+          : { validation: { type: "exists", expected: true, timeout: 3000 } }),
+      },
+    ];
+
+    return {
+      id: crypto.randomUUID(),
+      name: "login",
+      description: "使用账号密码登录",
+      metadataIds: [],
+      timestamp,
+      steps,
+      requiredInputs: [
+        { field: "username", type: "string", required: true },
+        { field: "password", type: "password", required: true },
+      ],
+      successCriteria: [],
+      estimatedDuration: 10,
+      complexity: "simple",
+      tags: ["auth"],
+      critique: {
+        phaseId: "orchestrate",
+        timestamp,
+        confidence: {
+          overall: 1,
+          dimensions: {
+            completeness: 1,
+            accuracy: 1,
+            feasibility: 1,
+            coverage: 1,
+          },
+          reasoning: "Built from auth credentials config",
+          humanReviewRequired: false,
+        },
+        issues: [],
+        autoCorrections: [],
+      },
+    };
+  }
+
+  /**
+   * 登录工作流的用户输入（账号密码默认读取环境变量）
+   */
+  private getCredentialInputs(): Record<string, string> {
+    const username =
+      this.config.credentials?.username ?? process.env.E2E_AUTH_USERNAME;
+    const password =
+      this.config.credentials?.password ?? process.env.E2E_AUTH_PASSWORD;
+
+    return {
+      ...(username !== undefined && { username }),
+      ...(password !== undefined && { password }),
+    };
+  }
+}
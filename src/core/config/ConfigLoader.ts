@@ -1,62 +1,332 @@
 import * as dotenv from "dotenv";
-import { Config, ConfigSchema } from "../../types/schemas";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CognitiveMode,
+  CognitiveModeSchema,
+  Config,
+  ConfigSchema,
+  ConfigFile,
+  ConfigFileSchema,
+  ConfigLayer,
+} from "../../types/schemas";
 import { LLMProvider } from "../../types/config";
+import { ProviderConfig } from "../llm/ILLMProvider";
 
 // 加载环境变量
 dotenv.config();
 
+/**
+ * 默认查找的配置文件名（按顺序）
+ */
+const CONFIG_FILE_NAMES = [
+  "e2e-agents.config.ts",
+  "e2e-agents.config.js",
+  "e2e-agents.config.json",
+];
+
+/**
+ * 配置加载选项
+ */
+export interface ConfigLoadOptions {
+  /** 配置文件路径，未指定时在当前目录查找 e2e-agents.config.* */
+  configPath?: string;
+  /** 使用的 profile 名称，未指定时读取 E2E_AGENTS_PROFILE */
+  profile?: string;
+  /** CLI 参数，优先级最高 */
+  overrides?: ConfigLayer;
+}
+
+/**
+ * 定义配置文件（在 e2e-agents.config.ts 中提供类型提示）
+ */
+export function defineConfig(config: ConfigFile): ConfigFile {
+  return config;
+}
+
 /**
  * 配置加载器
+ *
+ * 优先级: CLI 参数 > 环境变量 > profile > 配置文件 > 默认值
  */
 export class ConfigLoader {
+  /**
+   * 从配置文件、profile、环境变量和 CLI 参数加载配置
+   */
+  static load(options: ConfigLoadOptions = {}): Config {
+    const file = this.loadConfigFile(options.configPath);
+    const { profiles, ...base } = file;
+
+    const profileName = options.profile || process.env.E2E_AGENTS_PROFILE;
+    let profile: ConfigLayer = {};
+    if (profileName) {
+      const selected = profiles?.[profileName];
+      if (!selected) {
+        const available = Object.keys(profiles ?? {}).join(", ") || "-";
+        throw new Error(
+          `Profile "${profileName}" not found (available: ${available})`,
+        );
+      }
+      profile = selected;
+    }
+
+    return this.resolve([base, profile], options.overrides ?? {});
+  }
+
   /**
    * 从环境变量加载配置
    */
   static loadFromEnv(): Config {
-    const provider = (process.env.LLM_PROVIDER || "qwen") as LLMProvider;
+    return this.resolve([], {});
+  }
+
+  /**
+   * 读取并校验配置文件
+   * @param configPath 配置文件路径，未指定时在当前目录查找，找不到返回空配置
+   */
+  static loadConfigFile(configPath?: string): ConfigFile {
+    const filePath = configPath
+      ? path.resolve(configPath)
+      : CONFIG_FILE_NAMES.map((name) => path.resolve(name)).find((file) =>
+          fs.existsSync(file),
+        );
+
+    if (!filePath) {
+      return {};
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+
+    const raw = filePath.endsWith(".json")
+      ? JSON.parse(fs.readFileSync(filePath, "utf-8"))
+      : this.requireModule(filePath);
+
+    const result = ConfigFileSchema.safeParse(raw);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ");
+      throw new Error(`Invalid config file ${filePath}: ${issues}`);
+    }
 
-    const config: Config = {
+    return result.data;
+  }
+
+  /**
+   * 为 LLMProviderManager 构建各提供商配置
+   * 当前提供商使用合并后的配置，其余提供商使用环境变量
+   */
+  static toProviderConfigs(
+    config: Config,
+  ): Record<LLMProvider, ProviderConfig> {
+    const providers: LLMProvider[] = ["qwen", "openai", "claude"];
+    const configs = {} as Record<LLMProvider, ProviderConfig>;
+
+    for (const provider of providers) {
+      if (provider === config.llm.provider) {
+        configs[provider] = {
+          apiKey: config.llm.apiKey,
+          model: config.llm.model,
+          temperature: config.llm.temperature,
+          maxTokens: config.llm.maxTokens,
+          ...(config.llm.baseUrl && { baseUrl: config.llm.baseUrl }),
+        };
+      } else {
+        const baseUrl = this.getBaseUrlForProvider(provider);
+        configs[provider] = {
+          apiKey: this.getApiKeyForProvider(provider),
+          model: this.getModelForProvider(provider),
+          ...(baseUrl && { baseUrl }),
+        };
+      }
+    }
+
+    return configs;
+  }
+
+  /**
+   * 按优先级合并各配置层并校验
+   */
+  private static resolve(fileLayers: ConfigLayer[], cli: ConfigLayer): Config {
+    const env = this.envLayer();
+
+    // 先确定提供商，模型、密钥等默认值依赖于它
+    const provider =
+      cli.llm?.provider ??
+      env.llm?.provider ??
+      [...fileLayers].reverse().find((layer) => layer.llm?.provider)?.llm
+        ?.provider ??
+      "qwen";
+
+    const merged = this.mergeLayers(
+      this.defaultLayer(provider),
+      ...fileLayers,
+      this.providerEnvLayer(provider),
+      env,
+      cli,
+      { llm: { provider } },
+    );
+
+    return ConfigSchema.parse(merged);
+  }
+
+  /**
+   * 默认配置
+   */
+  private static defaultLayer(provider: LLMProvider): ConfigLayer {
+    const baseUrl = this.getDefaultBaseUrl(provider);
+    return {
       llm: {
         provider,
-        model: this.getModelForProvider(provider),
-        apiKey: this.getApiKeyForProvider(provider),
-        baseUrl: this.getBaseUrlForProvider(provider),
-        temperature: parseFloat(process.env.LLM_TEMPERATURE || "0.7"),
-        maxTokens: parseInt(process.env.LLM_MAX_TOKENS || "2048"),
+        model: this.getDefaultModel(provider),
+        apiKey: "",
+        temperature: 0.7,
+        maxTokens: 2048,
+        ...(baseUrl && { baseUrl }),
       },
       playwright: {
-        headless: process.env.PLAYWRIGHT_HEADLESS === "true",
-        slowMo: parseInt(process.env.PLAYWRIGHT_SLOW_MO || "0"),
-        timeout: parseInt(process.env.PLAYWRIGHT_TIMEOUT || "30000"),
+        headless: false,
+        slowMo: 0,
+        timeout: 30000,
+        browser: "chromium",
       },
       storage: {
-        dataDir: process.env.DATA_DIR || "./data",
+        dataDir: "./data",
       },
       cognitiveQuadrant: {
-        mode: (process.env.COGNITIVE_MODE || "autonomous") as any,
+        // CLI 和编程接口使用同一默认值（loadFromEnv 之前默认 autonomous）
+        mode: "supervised",
         thresholds: {
-          autoApprove: parseFloat(process.env.THRESHOLD_AUTO_APPROVE || "0.8"),
-          requireReview: parseFloat(
-            process.env.THRESHOLD_REQUIRE_REVIEW || "0.6",
+          autoApprove: 0.8,
+          requireReview: 0.6,
+          autoCorrect: 0.7,
+        },
+        humanInterventionPoints: ["on_low_confidence", "on_critical_issue"],
+      },
+      phases: {
+        scan: { maxPages: 10, maxDepth: 3 },
+        derive: { level1Count: 10, level2Count: 5, level3Count: 3 },
+      },
+    };
+  }
+
+  /**
+   * 环境变量配置层（只包含已设置的变量）
+   */
+  private static envLayer(): ConfigLayer {
+    const env = process.env;
+    return {
+      llm: {
+        provider: env.LLM_PROVIDER as LLMProvider | undefined,
+        temperature: this.parseNumber(env.LLM_TEMPERATURE),
+        maxTokens: this.parseNumber(env.LLM_MAX_TOKENS),
+      },
+      playwright: {
+        headless: this.parseBoolean(env.PLAYWRIGHT_HEADLESS ?? env.HEADLESS),
+        slowMo: this.parseNumber(env.PLAYWRIGHT_SLOW_MO),
+        timeout: this.parseNumber(env.PLAYWRIGHT_TIMEOUT),
+        browser: env.BROWSER_TYPE as
+          "chromium" | "firefox" | "webkit" | undefined,
+      },
+      storage: {
+        dataDir: env.DATA_DIR,
+      },
+      cognitiveQuadrant: {
+        mode: this.parseCognitiveMode(env.COGNITIVE_MODE),
+        thresholds: {
+          autoApprove: this.parseNumber(
+            env.THRESHOLD_AUTO_APPROVE ?? env.AUTO_APPROVE_THRESHOLD,
           ),
-          autoCorrect: parseFloat(process.env.THRESHOLD_AUTO_CORRECT || "0.7"),
+          requireReview: this.parseNumber(
+            env.THRESHOLD_REQUIRE_REVIEW ?? env.REQUIRE_REVIEW_THRESHOLD,
+          ),
+          autoCorrect: this.parseNumber(env.THRESHOLD_AUTO_CORRECT),
         },
         humanInterventionPoints: this.parseInterventionPoints(),
       },
     };
+  }
 
-    // 验证配置
-    return ConfigSchema.parse(config);
+  /**
+   * 提供商相关的环境变量配置层
+   */
+  private static providerEnvLayer(provider: LLMProvider): ConfigLayer {
+    return {
+      llm: {
+        model: this.getEnvModel(provider),
+        apiKey: this.getApiKeyForProvider(provider) || undefined,
+        baseUrl: provider === "qwen" ? process.env.QWEN_BASE_URL : undefined,
+      },
+    };
+  }
+
+  /**
+   * 深度合并配置层，后面的层覆盖前面的层，undefined 不覆盖
+   */
+  private static mergeLayers(...layers: ConfigLayer[]): Record<string, any> {
+    const merge = (
+      target: Record<string, any>,
+      source: Record<string, any>,
+    ) => {
+      for (const [key, value] of Object.entries(source)) {
+        if (value === undefined) continue;
+        if (
+          typeof value === "object" &&
+          value !== null &&
+          !Array.isArray(value)
+        ) {
+          target[key] = merge({ ...(target[key] ?? {}) }, value);
+        } else {
+          target[key] = value;
+        }
+      }
+      return target;
+    };
+
+    return layers.reduce<Record<string, any>>(
+      (result, layer) => merge(result, layer),
+      {},
+    );
+  }
+
+  /**
+   * 加载 .ts / .js 配置模块
+   */
+  private static requireModule(filePath: string): unknown {
+    if (filePath.endsWith(".ts") && !require.extensions[".ts"]) {
+      require("tsx/cjs/api").register();
+    }
+
+    const mod = require(filePath);
+    return mod?.default ?? mod;
   }
 
   private static getModelForProvider(provider: LLMProvider): string {
+    return this.getEnvModel(provider) || this.getDefaultModel(provider);
+  }
+
+  private static getEnvModel(provider: LLMProvider): string | undefined {
+    switch (provider) {
+      case "qwen":
+        return process.env.QWEN_MODEL;
+      case "openai":
+        return process.env.OPENAI_MODEL;
+      case "claude":
+        return process.env.ANTHROPIC_MODEL || process.env.CLAUDE_MODEL;
+      default:
+        throw new Error(`Unknown provider: ${provider}`);
+    }
+  }
+
+  private static getDefaultModel(provider: LLMProvider): string {
     switch (provider) {
       case "qwen":
-        return process.env.QWEN_MODEL || "qwen-turbo";
+        return "qwen-turbo";
       case "openai":
-        return process.env.OPENAI_MODEL || "gpt-4o";
+        return "gpt-4o";
       case "claude":
-        return process.env.CLAUDE_MODEL || "claude-sonnet-4-5-20250929";
+        return "claude-sonnet-4-5-20250929";
       default:
         throw new Error(`Unknown provider: ${provider}`);
     }
@@ -79,18 +349,52 @@ export class ConfigLoader {
     provider: LLMProvider,
   ): string | undefined {
     if (provider === "qwen") {
-      return (
-        process.env.QWEN_BASE_URL ||
-        "https://dashscope.aliyuncs.com/compatible-mode/v1"
-      );
+      return process.env.QWEN_BASE_URL || this.getDefaultBaseUrl(provider);
     }
     return undefined;
   }
 
-  private static parseInterventionPoints(): any[] {
+  private static getDefaultBaseUrl(provider: LLMProvider): string | undefined {
+    if (provider === "qwen") {
+      return "https://dashscope.aliyuncs.com/compatible-mode/v1";
+    }
+    return undefined;
+  }
+
+  private static parseNumber(value: string | undefined): number | undefined {
+    if (value === undefined || value === "") {
+      return undefined;
+    }
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+
+  private static parseBoolean(value: string | undefined): boolean | undefined {
+    if (value === undefined || value === "") {
+      return undefined;
+    }
+    return value === "true";
+  }
+
+  private static parseCognitiveMode(
+    value: string | undefined,
+  ): CognitiveMode | undefined {
+    if (value === undefined || value === "") {
+      return undefined;
+    }
+    const result = CognitiveModeSchema.safeParse(value);
+    if (!result.success) {
+      throw new Error(
+        `Invalid COGNITIVE_MODE "${value}" (expected: ${CognitiveModeSchema.options.join(", ")})`,
+      );
+    }
+    return result.data;
+  }
+
+  private static parseInterventionPoints(): any[] | undefined {
     const pointsStr = process.env.HUMAN_INTERVENTION_POINTS || "";
     if (!pointsStr) {
-      return ["on_low_confidence", "on_critical_issue"];
+      return undefined;
     }
     return pointsStr.split(",").map((p) => p.trim());
   }
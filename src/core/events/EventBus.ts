@@ -0,0 +1,114 @@
+import { EventEmitter } from "events";
+import { PhaseId } from "../../types/config";
+import { LogManager } from "../logging/LogManager";
+import {
+  ScanResult,
+  SOPWorkflow,
+  SOPStep,
+  ExecutionResult,
+  CritiqueResult,
+} from "../../types/schemas";
+
+/**
+ * 事件类型定义
+ */
+export interface AgentEventMap {
+  "phase:start": {
+    sessionId: string;
+    phase: PhaseId;
+    timestamp: string;
+  };
+  "phase:end": {
+    sessionId: string;
+    phase: PhaseId;
+    status: "success" | "failure";
+    duration: number;
+    artifactIds: string[];
+    error?: string;
+  };
+  "page:scanned": {
+    scanResult: ScanResult;
+  };
+  "workflow:executed": {
+    workflow: SOPWorkflow;
+    result: ExecutionResult;
+  };
+  "step:failed": {
+    workflowId: string;
+    step: SOPStep;
+    error: string;
+  };
+  "critique:produced": {
+    phase: PhaseId;
+    subjectId: string;
+    critique: CritiqueResult;
+  };
+  "review:requested": {
+    phase: PhaseId;
+    subjectId: string;
+    critique: CritiqueResult;
+    reason: string;
+  };
+}
+
+export type AgentEventName = keyof AgentEventMap;
+
+export type AgentEventListener<K extends AgentEventName> = (
+  payload: AgentEventMap[K],
+) => void;
+
+/**
+ * 事件总线
+ * 各阶段代理通过它报告进度，CLI、仪表盘和测试作为订阅者观察运行过程
+ */
+export class EventBus {
+  private emitter = new EventEmitter();
+  private logger = LogManager.getLogger("EventBus");
+
+  /**
+   * 订阅事件
+   */
+  on<K extends AgentEventName>(
+    event: K,
+    listener: AgentEventListener<K>,
+  ): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * 订阅一次性事件
+   */
+  once<K extends AgentEventName>(
+    event: K,
+    listener: AgentEventListener<K>,
+  ): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  /**
+   * 取消订阅
+   */
+  off<K extends AgentEventName>(
+    event: K,
+    listener: AgentEventListener<K>,
+  ): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * 发布事件
+   * 订阅者抛出的异常不会中断代理的执行
+   */
+  emit<K extends AgentEventName>(event: K, payload: AgentEventMap[K]): void {
+    try {
+      this.emitter.emit(event, payload);
+    } catch (error) {
+      this.logger.warn(
+        `Event listener for ${event} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { QwenProvider } from './providers/QwenProvider';
 import { OpenAIProvider } from './providers/OpenAIProvider';
 import { ClaudeProvider } from './providers/ClaudeProvider';
 import { LLMProvider } from '../../types/config';
+import { LogManager, Logger } from '../logging/LogManager';
 
 /**
  * LLM 提供商管理器
@@ -13,6 +14,7 @@ export class LLMProviderManager {
   private providers: Map<LLMProvider, ILLMProvider>;
   private primaryProvider: LLMProvider;
   private fallbackProviders: LLMProvider[];
+  private logger: Logger = LogManager.getLogger('LLMProviderManager');
 
   constructor(
     primaryProvider: LLMProvider,
@@ -92,7 +94,7 @@ export class LLMProviderManager {
         return { response, usedProvider: providerName };
       } catch (error) {
         lastError = error as Error;
-        console.warn(
+        this.logger.warn(
           `Provider ${providerName} failed: ${(error as Error).message}`
         );
         // 继续尝试下一个提供商
@@ -129,7 +131,7 @@ export class LLMProviderManager {
         const jitter = Math.random() * 1000; // 0-1s 随机抖动
         const waitTime = delay + jitter;
 
-        console.log(
+        this.logger.warn(
           `Attempt ${attempt} failed for ${providerName}. Retrying in ${Math.round(waitTime)}ms...`
         );
 
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Writable } from "stream";
+import * as winston from "winston";
+import { PhaseId } from "../../types/config";
+
+export type Logger = winston.Logger;
+
+/**
+ * 日志上下文
+ */
+export interface LogContext {
+  sessionId?: string;
+  phase?: PhaseId;
+  workflowId?: string;
+  executionId?: string;
+  stepNumber?: number;
+}
+
+/**
+ * 创建 JSON Lines 文件输出流
+ * 同步追加写入，保证 CLI 调用 process.exit 前日志已经落盘
+ */
+function createJsonLinesStream(filePath: string): Writable {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  return new Writable({
+    write(chunk, _encoding, callback) {
+      fs.appendFileSync(filePath, chunk);
+      callback();
+    },
+  });
+}
+
+/**
+ * 日志管理器
+ * 提供共享的 winston 根日志器，各组件通过 getLogger 获取带上下文的子日志器
+ */
+export class LogManager {
+  private static root: winston.Logger = winston.createLogger({
+    level: process.env.LOG_LEVEL || "info",
+    format: winston.format.combine(
+      winston.format.timestamp(),
+      winston.format.errors({ stack: true }),
+    ),
+    defaultMeta: {},
+    transports: [
+      new winston.transports.Console({
+        format: winston.format.printf(({ level, message, component }) => {
+          const prefix = component ? `[${component}] ` : "";
+          const levelTag = level === "info" ? "" : `${level}: `;
+          return `${prefix}${levelTag}${message}`;
+        }),
+      }),
+    ],
+  });
+
+  /**
+   * 获取组件日志器
+   * @param component 组件名，如 'ScanAgent'
+   * @param context 附加到每条日志的上下文
+   */
+  static getLogger(component: string, context: LogContext = {}): Logger {
+    return this.root.child({ component, ...context });
+  }
+
+  /**
+   * 设置全局上下文（如当前会话 ID），对已创建的子日志器同样生效
+   */
+  static setContext(context: LogContext): void {
+    this.root.defaultMeta = { ...this.root.defaultMeta, ...context };
+  }
+
+  /**
+   * 设置日志级别
+   */
+  static setLevel(level: string): void {
+    this.root.level = level;
+  }
+
+  /**
+   * 添加 JSON Lines 文件输出
+   * @param filePath 日志文件路径
+   * @param filter 只写入上下文匹配的日志（如某次执行的 executionId）
+   * @returns 移除该输出的函数
+   */
+  static addFileOutput(filePath: string, filter: LogContext = {}): () => void {
+    const matches = winston.format((info) =>
+      Object.entries(filter).every(([key, value]) => info[key] === value)
+        ? info
+        : false,
+    );
+
+    const transport = new winston.transports.Stream({
+      stream: createJsonLinesStream(filePath),
+      format: winston.format.combine(matches(), winston.format.json()),
+    });
+    this.root.add(transport);
+
+    return () => {
+      this.root.remove(transport);
+    };
+  }
+}
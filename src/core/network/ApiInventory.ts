@@ -0,0 +1,206 @@
+import {
+  ApiEndpoint,
+  ApiInventoryData,
+  NetworkRequest,
+  ScanResult,
+} from "../../types/schemas";
+import { StorageManager } from "../storage/StorageManager";
+
+/**
+ * 接口清单在全局状态中的键名
+ */
+const INVENTORY_STATE_KEY = "api_inventory";
+
+/**
+ * 计入接口清单的请求类型
+ */
+const API_RESOURCE_TYPES = ["xhr", "fetch"];
+
+/**
+ * 路径动态段的替换规则（按顺序匹配）
+ */
+const PATH_SEGMENT_PATTERNS: Array<{ pattern: RegExp; name: string }> = [
+  { pattern: /^\d+$/, name: ":id" },
+  {
+    pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    name: ":uuid",
+  },
+  { pattern: /^[0-9a-f]{16,}$/i, name: ":hash" },
+  { pattern: /^(?=.*\d)[A-Za-z0-9_-]{20,}$/, name: ":token" },
+];
+
+/**
+ * 将 URL 路径中的 ID、UUID 等动态段替换为占位符
+ */
+export function toPathTemplate(pathname: string): string {
+  return pathname
+    .split("/")
+    .map((segment) => {
+      const rule = PATH_SEGMENT_PATTERNS.find(({ pattern }) =>
+        pattern.test(segment),
+      );
+      return rule ? rule.name : segment;
+    })
+    .join("/");
+}
+
+/**
+ * API 接口清单
+ * 从扫描捕获的 XHR/fetch 请求中按方法 + 路径模板归并后端接口，
+ * 记录状态码、调用页面、查询参数和 JSON 字段；按站点保存并在多次扫描间累积
+ */
+export class ApiInventory {
+  private site: string;
+  private endpoints: Map<string, ApiEndpoint> = new Map();
+
+  constructor(site: string, data?: ApiInventoryData | null) {
+    this.site = site;
+    for (const endpoint of data?.endpoints ?? []) {
+      this.endpoints.set(this.keyOf(endpoint), endpoint);
+    }
+  }
+
+  /**
+   * 载入站点已保存的接口清单
+   */
+  static async load(
+    storage: StorageManager,
+    site: string,
+  ): Promise<ApiInventory> {
+    const data =
+      await storage.loadGlobalState<ApiInventoryData>(INVENTORY_STATE_KEY);
+    return new ApiInventory(site, data);
+  }
+
+  /**
+   * 保存接口清单
+   */
+  async save(storage: StorageManager): Promise<void> {
+    await storage.saveGlobalState(INVENTORY_STATE_KEY, this.toJSON());
+  }
+
+  /**
+   * 合并一个页面的扫描结果
+   */
+  add(scanResult: ScanResult): void {
+    for (const request of scanResult.networkRequests) {
+      if (API_RESOURCE_TYPES.includes(request.resourceType)) {
+        this.addRequest(request, scanResult.route);
+      }
+    }
+  }
+
+  /**
+   * 所有接口（按路径排序）
+   */
+  getEndpoints(): ApiEndpoint[] {
+    return Array.from(this.endpoints.values()).sort(
+      (a, b) =>
+        a.pathTemplate.localeCompare(b.pathTemplate) ||
+        a.method.localeCompare(b.method),
+    );
+  }
+
+  /**
+   * 页面路由调用的接口
+   */
+  endpointsForRoute(route: string): ApiEndpoint[] {
+    return this.getEndpoints().filter((endpoint) =>
+      endpoint.pages.includes(route),
+    );
+  }
+
+  toJSON(): ApiInventoryData {
+    return {
+      site: this.site,
+      updatedAt: new Date().toISOString(),
+      endpoints: this.getEndpoints(),
+    };
+  }
+
+  /**
+   * 合并单个请求
+   */
+  private addRequest(request: NetworkRequest, route: string): void {
+    let url: URL;
+    try {
+      url = new URL(request.url);
+    } catch {
+      return;
+    }
+
+    const pathTemplate = toPathTemplate(url.pathname);
+    const method = request.method.toUpperCase();
+    const key = this.keyOf({ method, origin: url.origin, pathTemplate });
+    const endpoint = this.endpoints.get(key) ?? {
+      method,
+      origin: url.origin,
+      pathTemplate,
+      count: 0,
+      statuses: [],
+      pages: [],
+      contentTypes: [],
+      queryParams: [],
+      requestFields: [],
+      responseFields: [],
+      firstSeen: request.timestamp,
+      lastSeen: request.timestamp,
+    };
+
+    endpoint.count++;
+    if (request.timestamp > endpoint.lastSeen) {
+      endpoint.lastSeen = request.timestamp;
+    }
+    if (request.timestamp < endpoint.firstSeen) {
+      endpoint.firstSeen = request.timestamp;
+    }
+    if (request.status !== undefined) {
+      this.addUnique(endpoint.statuses, [request.status]);
+    }
+    this.addUnique(endpoint.pages, [route]);
+    if (request.mimeType) {
+      this.addUnique(endpoint.contentTypes, [
+        request.mimeType.split(";")[0]!.trim(),
+      ]);
+    }
+    this.addUnique(endpoint.queryParams, Array.from(url.searchParams.keys()));
+    this.addUnique(
+      endpoint.requestFields,
+      this.jsonFields(request.requestBody),
+    );
+    this.addUnique(
+      endpoint.responseFields,
+      this.jsonFields(request.responseBody),
+    );
+
+    this.endpoints.set(key, endpoint);
+  }
+
+  /**
+   * JSON body 的顶层字段（数组取第一个元素），非 JSON 时返回空
+   */
+  private jsonFields(body?: string): string[] {
+    if (!body) return [];
+    try {
+      const parsed: unknown = JSON.parse(body);
+      const value = Array.isArray(parsed) ? parsed[0] : parsed;
+      return value && typeof value === "object" ? Object.keys(value) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private addUnique<T>(target: T[], values: T[]): void {
+    for (const value of values) {
+      if (!target.includes(value)) {
+        target.push(value);
+      }
+    }
+  }
+
+  private keyOf(
+    endpoint: Pick<ApiEndpoint, "method" | "origin" | "pathTemplate">,
+  ): string {
+    return `${endpoint.method} ${endpoint.origin}${endpoint.pathTemplate}`;
+  }
+}
@@ -0,0 +1,209 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Request } from "playwright";
+import {
+  ExecutionResult,
+  NetworkFixtureMode,
+  NetworkFixtures,
+} from "../../types/schemas";
+import { Har, HarEntry } from "./NetworkRecorder";
+
+/**
+ * 回放的请求类型，其他请求（文档、脚本、图片等）始终访问真实服务
+ */
+const REPLAY_RESOURCE_TYPES = ["xhr", "fetch"];
+
+/**
+ * 录制时被脱敏的值，回放时视为通配
+ */
+const REDACTED = "[REDACTED]";
+
+/**
+ * 回放时不转发的响应头（body 已解码，长度和编码由 Playwright 重新计算）
+ */
+const SKIPPED_RESPONSE_HEADERS = [
+  "content-length",
+  "content-encoding",
+  "transfer-encoding",
+];
+
+/**
+ * fixture 对请求的处理结果
+ */
+export type FixtureDecision =
+  | {
+      action: "fulfill";
+      status: number;
+      headers: Record<string, string>;
+      body: string;
+    }
+  | { action: "continue" }
+  | { action: "abort" };
+
+/**
+ * fixture 回放报告
+ */
+export type FixtureReport = NonNullable<ExecutionResult["fixtures"]>;
+
+/**
+ * 网络 fixture 存储
+ * 载入 HAR 中的 XHR/fetch 条目，按方法、路径和查询参数匹配请求；
+ * 同一请求有多个条目时按录制顺序依次返回，用完后重复最后一个
+ */
+export class NetworkFixtureStore {
+  readonly mode: NetworkFixtureMode;
+  readonly harPath: string;
+
+  private entries: Map<string, Array<{ entry: HarEntry; used: boolean }>> =
+    new Map();
+  private matched = 0;
+  private unmatched: FixtureReport["unmatched"] = [];
+
+  constructor(harPath: string, har: Har, mode: NetworkFixtureMode) {
+    this.harPath = harPath;
+    this.mode = mode;
+
+    for (const entry of har.log.entries) {
+      if (!REPLAY_RESOURCE_TYPES.includes(entry._resourceType)) continue;
+      // 请求失败的条目没有可回放的响应
+      if (entry.response.status === 0) continue;
+      // 截断的响应体不是完整内容，不回放
+      if (entry.response.content._truncated) continue;
+      const key = this.keyOf(entry.request.method, entry.request.url);
+      if (!key) continue;
+      const list = this.entries.get(key) ?? [];
+      list.push({ entry, used: false });
+      this.entries.set(key, list);
+    }
+  }
+
+  /**
+   * 从 HAR 文件载入 fixture（相对路径相对当前目录）
+   */
+  static async load(fixtures: NetworkFixtures): Promise<NetworkFixtureStore> {
+    const harPath = path.resolve(fixtures.har);
+    const har = JSON.parse(await fs.readFile(harPath, "utf-8")) as Har;
+    return new NetworkFixtureStore(
+      harPath,
+      har,
+      fixtures.mode ?? "replay-passthrough",
+    );
+  }
+
+  /**
+   * 将录制的 HAR 写入 fixture 文件
+   */
+  static async save(fixtures: NetworkFixtures, har: Har): Promise<string> {
+    const harPath = path.resolve(fixtures.har);
+    await fs.mkdir(path.dirname(harPath), { recursive: true });
+    await fs.writeFile(harPath, JSON.stringify(har, null, 2), "utf-8");
+    return harPath;
+  }
+
+  /**
+   * 决定如何处理请求：用 fixture 响应、访问真实服务或中止
+   */
+  handle(request: Request): FixtureDecision {
+    const resourceType = request.resourceType();
+    if (!REPLAY_RESOURCE_TYPES.includes(resourceType)) {
+      return { action: "continue" };
+    }
+
+    const entry = this.match(request.method(), request.url());
+    if (entry) {
+      this.matched++;
+      return {
+        action: "fulfill",
+        status: entry.response.status,
+        headers: this.toHeaders(entry.response.headers),
+        body: entry.response.content.text ?? "",
+      };
+    }
+
+    this.unmatched.push({
+      method: request.method(),
+      url: request.url(),
+      resourceType,
+    });
+    return this.mode === "replay-strict"
+      ? { action: "abort" }
+      : { action: "continue" };
+  }
+
+  /**
+   * 回放报告
+   */
+  getReport(): FixtureReport {
+    return {
+      har: this.harPath,
+      mode: this.mode,
+      matched: this.matched,
+      unmatched: [...this.unmatched],
+    };
+  }
+
+  /**
+   * 查找匹配的条目：优先未使用过的，都用过时返回最后一个
+   */
+  private match(method: string, url: string): HarEntry | null {
+    const key = this.keyOf(method, url);
+    if (!key) return null;
+
+    const candidates = (this.entries.get(key) ?? []).filter(({ entry }) =>
+      this.queryMatches(entry.request.url, url),
+    );
+    const next = candidates.find((candidate) => !candidate.used);
+    if (next) {
+      next.used = true;
+      return next.entry;
+    }
+    return candidates[candidates.length - 1]?.entry ?? null;
+  }
+
+  /**
+   * 比较查询参数（忽略顺序，录制时脱敏的值匹配任意值）
+   */
+  private queryMatches(recordedUrl: string, url: string): boolean {
+    const recorded = new URL(recordedUrl).searchParams;
+    const actual = new URL(url).searchParams;
+    const names = new Set([...recorded.keys(), ...actual.keys()]);
+
+    for (const name of names) {
+      const expected = recorded.getAll(name);
+      const values = actual.getAll(name);
+      if (expected.length !== values.length) return false;
+      if (
+        expected.some((value, i) => value !== REDACTED && value !== values[i])
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 转换回放的响应头（跳过脱敏的值）
+   */
+  private toHeaders(
+    headers: Array<{ name: string; value: string }>,
+  ): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const { name, value } of headers) {
+      const lower = name.toLowerCase();
+      if (value === REDACTED || SKIPPED_RESPONSE_HEADERS.includes(lower)) {
+        continue;
+      }
+      result[lower] = value;
+    }
+    return result;
+  }
+
+  private keyOf(method: string, url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      return `${method.toUpperCase()} ${parsed.origin}${parsed.pathname}`;
+    } catch {
+      return null;
+    }
+  }
+}
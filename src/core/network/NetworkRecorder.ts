@@ -0,0 +1,495 @@
+import { Page, Request } from "playwright";
+import { NetworkCaptureOptions, NetworkRequest } from "../../types/schemas";
+
+/**
+ * 默认脱敏的请求头和响应头
+ */
+const DEFAULT_REDACT_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "x-auth-token",
+  "x-csrf-token",
+  "x-xsrf-token",
+];
+
+/**
+ * 默认脱敏的 JSON 字段和查询参数（字段名包含其中之一即脱敏）
+ */
+const DEFAULT_REDACT_FIELDS = [
+  "password",
+  "passwd",
+  "token",
+  "secret",
+  "api_key",
+  "apikey",
+  "credit_card",
+  "card_number",
+  "cvv",
+  "ssn",
+];
+
+/**
+ * 记录请求体和响应体的资源类型
+ */
+const BODY_RESOURCE_TYPES = ["xhr", "fetch"];
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * 网络记录器参数
+ */
+export interface NetworkRecorderOptions extends NetworkCaptureOptions {
+  /** 另外保存未脱敏、未截断的响应体，用于录制网络 fixture */
+  keepRawBodies?: boolean;
+}
+
+/**
+ * HAR 1.2 文档（只包含本项目用到的字段）
+ */
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: Record<string, number>;
+    }>;
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * HAR 条目
+ */
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: Array<{ name: string; value: string }>;
+    queryString: Array<{ name: string; value: string }>;
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: Array<{ name: string; value: string }>;
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      /** text 超过 maxBodySize 被截断 */
+      _truncated?: boolean;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _failureText?: string;
+  };
+  cache: Record<string, never>;
+  timings: {
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  _resourceType: string;
+}
+
+/**
+ * 网络记录器
+ * 记录页面上每个请求的请求头、响应头、耗时、大小以及（可选的）XHR/fetch body，
+ * 按 Request 对象关联响应，重复 URL 的请求也不会串位；敏感头、字段和查询参数会被脱敏
+ *
+ * Playwright 的 recordHar 只能按浏览器上下文记录，且在上下文关闭时才写出，
+ * 不适合页面池中按页面、按次扫描导出，因此这里自行生成 HAR
+ */
+export class NetworkRecorder {
+  private page: Page | null = null;
+  private entries: Map<Request, NetworkRequest> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+  private startedAt = new Date().toISOString();
+
+  private captureBodies: boolean;
+  private keepRawBodies: boolean;
+  private rawBodies: Map<NetworkRequest, string> = new Map();
+  private maxBodySize: number;
+  private redactHeaders: Set<string>;
+  private redactFields: string[];
+
+  private onRequest = (request: Request) => {
+    this.entries.set(request, {
+      url: this.redactUrl(request.url()),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  private onRequestFinished = (request: Request) => {
+    this.track(this.complete(request));
+  };
+
+  private onRequestFailed = (request: Request) => {
+    const entry = this.entries.get(request);
+    if (entry) {
+      entry.failure = request.failure()?.errorText ?? "failed";
+    }
+  };
+
+  constructor(options: NetworkRecorderOptions = {}) {
+    this.captureBodies = options.captureBodies ?? false;
+    this.keepRawBodies = options.keepRawBodies ?? false;
+    this.maxBodySize = options.maxBodySize ?? 65536;
+    this.redactHeaders = new Set(
+      [...DEFAULT_REDACT_HEADERS, ...(options.redactHeaders ?? [])].map((h) =>
+        h.toLowerCase(),
+      ),
+    );
+    this.redactFields = [
+      ...DEFAULT_REDACT_FIELDS,
+      ...(options.redactFields ?? []),
+    ].map((f) => f.toLowerCase());
+  }
+
+  /**
+   * 开始记录页面的网络请求
+   */
+  attach(page: Page): void {
+    this.detach();
+    this.page = page;
+    this.startedAt = new Date().toISOString();
+    page.on("request", this.onRequest);
+    page.on("requestfinished", this.onRequestFinished);
+    page.on("requestfailed", this.onRequestFailed);
+  }
+
+  /**
+   * 停止记录（已记录的请求保留）
+   */
+  detach(): void {
+    if (!this.page) return;
+    this.page.off("request", this.onRequest);
+    this.page.off("requestfinished", this.onRequestFinished);
+    this.page.off("requestfailed", this.onRequestFailed);
+    this.page = null;
+  }
+
+  /**
+   * 等待进行中的响应读取完成
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  /**
+   * 已记录的请求（按请求发出顺序）
+   */
+  getEntries(): NetworkRequest[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * 生成 HAR 文档
+   */
+  toHar(title: string): Har {
+    const pageId = "page_1";
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "e2e-agents", version: "1.0.0" },
+        pages: [
+          {
+            startedDateTime: this.startedAt,
+            id: pageId,
+            title,
+            pageTimings: {},
+          },
+        ],
+        entries: this.getEntries().map((entry) =>
+          this.toHarEntry(entry, pageId),
+        ),
+      },
+    };
+  }
+
+  /**
+   * 生成网络 fixture 用的 HAR
+   * 响应体使用未脱敏、未截断的原始内容（需要 keepRawBodies），回放时与真实响应一致
+   */
+  toFixtureHar(title: string): Har {
+    const har = this.toHar(title);
+    this.getEntries().forEach((entry, index) => {
+      const raw = this.rawBodies.get(entry);
+      const content = har.log.entries[index]?.response.content;
+      if (raw !== undefined && content) {
+        content.text = raw;
+        delete content._truncated;
+      }
+    });
+    return har;
+  }
+
+  /**
+   * 请求完成后读取响应头、耗时、大小和 body
+   */
+  private async complete(request: Request): Promise<void> {
+    const entry = this.entries.get(request);
+    if (!entry) return;
+
+    try {
+      const response = await request.response();
+      const [requestHeaders, sizes] = await Promise.all([
+        request.allHeaders(),
+        request.sizes(),
+      ]);
+
+      entry.requestHeaders = this.redactHeaderValues(requestHeaders);
+      entry.sizes = {
+        requestHeaders: sizes.requestHeadersSize,
+        requestBody: sizes.requestBodySize,
+        responseHeaders: sizes.responseHeadersSize,
+        responseBody: sizes.responseBodySize,
+      };
+
+      const timing = request.timing();
+      const span = (start: number, end: number) =>
+        start >= 0 && end >= 0 ? end - start : -1;
+      entry.timing = {
+        dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+        connect: span(timing.connectStart, timing.connectEnd),
+        ssl: span(timing.secureConnectionStart, timing.connectEnd),
+        wait: span(timing.requestStart, timing.responseStart),
+        receive: span(timing.responseStart, timing.responseEnd),
+        total: timing.responseEnd >= 0 ? timing.responseEnd : -1,
+      };
+
+      if (!response) return;
+
+      const responseHeaders = await response.allHeaders();
+      entry.status = response.status();
+      entry.statusText = response.statusText();
+      entry.responseHeaders = this.redactHeaderValues(responseHeaders);
+      const mimeType = responseHeaders["content-type"];
+      if (mimeType) {
+        entry.mimeType = mimeType;
+      }
+
+      if (
+        this.captureBodies &&
+        BODY_RESOURCE_TYPES.includes(request.resourceType())
+      ) {
+        const postData = request.postData();
+        if (postData) {
+          entry.requestBody = this.truncate(
+            this.redactBody(postData, requestHeaders["content-type"]),
+          );
+        }
+        const body = await response.body().catch(() => null);
+        if (body) {
+          const text = body.toString("utf-8");
+          const redacted = this.redactBody(text, mimeType);
+          entry.responseBody = this.truncate(redacted);
+          if (entry.responseBody !== redacted) {
+            entry.responseBodyTruncated = true;
+          }
+          if (this.keepRawBodies) {
+            this.rawBodies.set(entry, text);
+          }
+        }
+      }
+    } catch {
+      // 页面关闭后响应不可读，保留已记录的部分
+    }
+  }
+
+  /**
+   * 跟踪异步读取，flush 时等待
+   */
+  private track(task: Promise<void>): void {
+    this.pending.add(task);
+    task.finally(() => this.pending.delete(task));
+  }
+
+  /**
+   * 脱敏请求头/响应头
+   */
+  private redactHeaderValues(
+    headers: Record<string, string>,
+  ): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      result[name] = this.redactHeaders.has(name.toLowerCase())
+        ? REDACTED
+        : value;
+    }
+    return result;
+  }
+
+  /**
+   * 判断字段名是否需要脱敏
+   */
+  private isSensitiveField(name: string): boolean {
+    const lower = name.toLowerCase();
+    return this.redactFields.some((field) => lower.includes(field));
+  }
+
+  /**
+   * 脱敏 URL 中的查询参数
+   */
+  private redactUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      let changed = false;
+      for (const name of Array.from(parsed.searchParams.keys())) {
+        if (this.isSensitiveField(name)) {
+          parsed.searchParams.set(name, REDACTED);
+          changed = true;
+        }
+      }
+      return changed ? parsed.href : url;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * 脱敏 body（支持 JSON 和表单编码）
+   */
+  private redactBody(body: string, contentType?: string): string {
+    let text = body;
+
+    if (contentType?.includes("json")) {
+      try {
+        text = JSON.stringify(this.redactJson(JSON.parse(body)));
+      } catch {
+        // 非法 JSON 原样保留
+      }
+    } else if (contentType?.includes("application/x-www-form-urlencoded")) {
+      const params = new URLSearchParams(body);
+      for (const name of Array.from(params.keys())) {
+        if (this.isSensitiveField(name)) {
+          params.set(name, REDACTED);
+        }
+      }
+      text = params.toString();
+    }
+
+    return text;
+  }
+
+  /**
+   * 截断超过 maxBodySize 的 body
+   */
+  private truncate(text: string): string {
+    return Buffer.byteLength(text) > this.maxBodySize
+      ? Buffer.from(text).subarray(0, this.maxBodySize).toString("utf-8")
+      : text;
+  }
+
+  /**
+   * 递归脱敏 JSON 中的敏感字段
+   */
+  private redactJson(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactJson(item));
+    }
+    if (value && typeof value === "object") {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.isSensitiveField(key)
+          ? REDACTED
+          : this.redactJson(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  /**
+   * 转换为 HAR 条目
+   */
+  private toHarEntry(entry: NetworkRequest, pageref: string): HarEntry {
+    const toHeaders = (headers: Record<string, string> = {}) =>
+      Object.entries(headers).map(([name, value]) => ({ name, value }));
+    const timing = entry.timing;
+    const queryString: Array<{ name: string; value: string }> = [];
+    try {
+      new URL(entry.url).searchParams.forEach((value, name) =>
+        queryString.push({ name, value }),
+      );
+    } catch {
+      // data: 等非标准 URL
+    }
+
+    const requestContentType = entry.requestHeaders?.["content-type"];
+
+    return {
+      pageref,
+      startedDateTime: entry.timestamp,
+      time: timing && timing.total >= 0 ? timing.total : 0,
+      request: {
+        method: entry.method,
+        url: entry.url,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toHeaders(entry.requestHeaders),
+        queryString,
+        ...(entry.requestBody !== undefined && {
+          postData: {
+            mimeType: requestContentType ?? "",
+            text: entry.requestBody,
+          },
+        }),
+        headersSize: entry.sizes?.requestHeaders ?? -1,
+        bodySize: entry.sizes?.requestBody ?? -1,
+      },
+      response: {
+        status: entry.status ?? 0,
+        statusText: entry.statusText ?? "",
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toHeaders(entry.responseHeaders),
+        content: {
+          size: entry.sizes?.responseBody ?? -1,
+          mimeType: entry.mimeType ?? "",
+          ...(entry.responseBody !== undefined && {
+            text: entry.responseBody,
+          }),
+          ...(entry.responseBodyTruncated && { _truncated: true }),
+        },
+        redirectURL: entry.responseHeaders?.["location"] ?? "",
+        headersSize: entry.sizes?.responseHeaders ?? -1,
+        bodySize: entry.sizes?.responseBody ?? -1,
+        ...(entry.failure && { _failureText: entry.failure }),
+      },
+      cache: {},
+      timings: {
+        dns: timing?.dns ?? -1,
+        connect: timing?.connect ?? -1,
+        ssl: timing?.ssl ?? -1,
+        send: 0,
+        wait: timing && timing.wait >= 0 ? timing.wait : 0,
+        receive: timing && timing.receive >= 0 ? timing.receive : 0,
+      },
+      _resourceType: entry.resourceType,
+    };
+  }
+}
@@ -1,11 +1,38 @@
 import { ScanAgent } from "../../phases/phase-a-scan/ScanAgent";
+import { CrawlPolicy } from "../../phases/phase-a-scan/CrawlPolicy";
 import { InterpretAgent } from "../../phases/phase-b-interpret/InterpretAgent";
 import { OrchestrateAgent } from "../../phases/phase-c-orchestrate/OrchestrateAgent";
+import { SOPParser } from "../../phases/phase-c-orchestrate/SOPParser";
 import { ExecuteAgent } from "../../phases/phase-d-execute/ExecuteAgent";
+import { WorkflowExecutor } from "../../phases/phase-d-execute/WorkflowExecutor";
+import { AssertionPlugin } from "../../phases/phase-d-execute/StepValidator";
 import { DeriveAgent } from "../../phases/phase-e-derive/DeriveAgent";
 import { StorageManager } from "../storage/StorageManager";
 import { LLMProviderManager } from "../llm/LLMProviderManager";
 import { PlaywrightManager } from "../playwright/PlaywrightManager";
+import {
+  EventBus,
+  AgentEventName,
+  AgentEventListener,
+} from "../events/EventBus";
+import { CritiqueEngine } from "../self-critique/CritiqueEngine";
+import { AuthManager, LoginRunner } from "../auth/AuthManager";
+import { ApiInventory } from "../network/ApiInventory";
+import { VisualBaselineStore } from "../visual/VisualBaselineStore";
+import { LogManager, Logger } from "../logging/LogManager";
+import { PhaseId } from "../../types/config";
+import {
+  ScanResult,
+  PageMetadata,
+  SOPWorkflow,
+  ExecutionResult,
+  CritiqueResult,
+  PhaseOptions,
+  AuthConfig,
+  NetworkCaptureOptions,
+  VisualRegressionOptions,
+  PerformanceOptions,
+} from "../../types/schemas";
 import * as crypto from "crypto";
 
 /**
@@ -14,26 +41,19 @@ import * as crypto from "crypto";
 export interface OrchestratorConfig {
   startUrl: string;
   maxPages?: number;
-  phaseOptions?: {
-    scan?: {
-      maxDepth?: number;
-      timeout?: number;
-    };
-    interpret?: {
-      batchSize?: number;
-    };
-    orchestrate?: {
-      maxWorkflows?: number;
-    };
-    execute?: {
-      retryAttempts?: number;
-    };
-    derive?: {
-      level1Count?: number;
-      level2Count?: number;
-      level3Count?: number;
-    };
-  };
+  phaseOptions?: PhaseOptions;
+  /** 批判结果置信度低于该值时请求人工审核 (默认 0.6) */
+  reviewThreshold?: number;
+  /** 认证配置，提供时扫描和执行阶段使用登录态 */
+  auth?: AuthConfig;
+  /** 网络捕获参数（body 记录、脱敏和 HAR 导出） */
+  network?: NetworkCaptureOptions;
+  /** 视觉回归参数，启用时扫描和执行截图与基线对比 */
+  visual?: VisualRegressionOptions;
+  /** 性能采集参数和按路由的性能预算 */
+  performance?: PerformanceOptions;
+  /** custom 验证可引用的断言插件 */
+  assertions?: Record<string, AssertionPlugin>;
 }
 
 /**
@@ -52,8 +72,33 @@ export interface OrchestrationSession {
   status: "running" | "completed" | "failed" | "paused";
   error?: string;
   phasesCompleted: string[];
+  /** 各阶段产出的数据 ID */
+  artifacts: Partial<Record<PhaseId, string[]>>;
+  /** 会话使用的配置，恢复时复用（assertions 为函数，不保存） */
+  config: OrchestratorConfig;
 }
 
+/**
+ * 恢复选项
+ */
+export interface ResumeOptions {
+  /** 只重新运行中断/失败的阶段，完成后暂停会话 */
+  failedPhaseOnly?: boolean;
+  /** 当前配置中的断言插件（会话中不保存函数，恢复时重新提供） */
+  assertions?: Record<string, AssertionPlugin>;
+}
+
+/**
+ * 阶段执行顺序
+ */
+const PHASE_SEQUENCE: PhaseId[] = [
+  "scan",
+  "interpret",
+  "orchestrate",
+  "execute",
+  "derive",
+];
+
 /**
  * AgentOrchestrator - 总协调器
  *
@@ -64,19 +109,32 @@ export interface OrchestrationSession {
  * - 阶段管理和数据流协调
  * - 错误处理和恢复
  * - 状态持久化
+ * - 通过事件总线报告进度 (phase:start, page:scanned, review:requested ...)
  */
 export class AgentOrchestrator {
-  // Agents for future use when they expose proper public APIs
-  // private _scanAgent: ScanAgent;
-  // private _interpretAgent: InterpretAgent;
-  // private _orchestrateAgent: OrchestrateAgent;
-  // private _executeAgent: ExecuteAgent;
-  // private _deriveAgent: DeriveAgent;
+  private scanAgent: ScanAgent;
+  private interpretAgent: InterpretAgent;
+  private orchestrateAgent: OrchestrateAgent;
+  private executeAgent: ExecuteAgent;
+  private deriveAgent: DeriveAgent;
 
   private storage: StorageManager;
-  // private _playwright: PlaywrightManager;
+  private playwright: PlaywrightManager;
+  private critiqueEngine: CritiqueEngine;
+  private auth: AuthManager | null = null;
+
+  /** 运行事件总线，外部可订阅进度 */
+  readonly events: EventBus;
 
   private session: OrchestrationSession | null = null;
+  private logger: Logger = LogManager.getLogger("AgentOrchestrator");
+  private removeSessionLog: (() => void) | null = null;
+
+  // 阶段间传递的数据
+  private scanResults: ScanResult[] = [];
+  private metadataList: PageMetadata[] = [];
+  private workflows: SOPWorkflow[] = [];
+  private executionResults: ExecutionResult[] = [];
 
   constructor(
     storage: StorageManager,
@@ -84,92 +142,155 @@ export class AgentOrchestrator {
     playwright: PlaywrightManager,
   ) {
     this.storage = storage;
+    this.playwright = playwright;
+    this.critiqueEngine = new CritiqueEngine();
+    this.events = new EventBus();
+
+    // 初始化各阶段代理
+    this.scanAgent = new ScanAgent(playwright, storage, this.events);
+    this.interpretAgent = new InterpretAgent(llm, storage, this.events);
+    this.orchestrateAgent = new OrchestrateAgent(llm, storage, this.events);
+    this.executeAgent = new ExecuteAgent(playwright, storage, this.events);
+    this.deriveAgent = new DeriveAgent(llm, storage);
+
+    // 低置信度或存在关键问题的批判结果需要人工审核
+    this.events.on("critique:produced", ({ phase, subjectId, critique }) => {
+      if (this.critiqueEngine.requiresHumanReview(critique)) {
+        this.events.emit("review:requested", {
+          phase,
+          subjectId,
+          critique,
+          reason: this.describeReviewReason(critique),
+        });
+      }
+    });
+  }
 
-    // 初始化各阶段代理 - 当前未使用，等待各代理实现完整的公共 API
-    // 目前各阶段代理通过 storage 自动处理数据流
-    new ScanAgent(playwright, storage);
-    new InterpretAgent(llm, storage);
-    new OrchestrateAgent(llm, storage);
-    new ExecuteAgent(playwright, storage);
-    new DeriveAgent(llm, storage);
+  /**
+   * 订阅运行事件
+   */
+  on<K extends AgentEventName>(
+    event: K,
+    listener: AgentEventListener<K>,
+  ): this {
+    this.events.on(event, listener);
+    return this;
   }
 
   /**
    * 运行完整的 5 阶段工作流
    */
   async run(config: OrchestratorConfig): Promise<OrchestrationSession> {
-    // 设置 Storage 的基础 URL，使数据按域名分目录保存
-    this.storage.setBaseUrl(config.startUrl);
-
-    // 初始化存储目录
-    await this.storage.initialize();
+    await this.prepareStorage(config);
 
     // 创建新会话
-    this.session = {
-      id: crypto.randomUUID(),
-      startTime: new Date().toISOString(),
-      currentPhase: "scan",
-      status: "running",
-      phasesCompleted: [],
-    };
+    this.attachSession(this.createSession(config));
 
-    try {
-      // 保存会话状态
-      await this.saveSession();
+    return await this.runPhases(config);
+  }
 
-      // 阶段 A: 扫描
-      console.log("=".repeat(60));
-      console.log("Phase A: Scanning...");
-      console.log("=".repeat(60));
-      await this.runPhaseA(config);
-      this.session.phasesCompleted.push("scan");
-      await this.saveSession();
+  /**
+   * 恢复已保存的会话
+   *
+   * 跳过 phasesCompleted 中的阶段，从 currentPhase 继续。
+   * 已完成阶段的产出按 artifacts 中记录的 ID 从存储重新加载。
+   */
+  async resume(
+    sessionId: string,
+    options: ResumeOptions = {},
+  ): Promise<OrchestrationSession> {
+    const session = await this.loadSession(sessionId);
+
+    if (session.status === "completed") {
+      this.logger.info(`Session ${sessionId} already completed.`);
+      return session;
+    }
 
-      // 阶段 B: 解读
-      console.log("\n" + "=".repeat(60));
-      console.log("Phase B: Interpreting...");
-      console.log("=".repeat(60));
-      await this.runPhaseB();
-      this.session.phasesCompleted.push("interpret");
-      await this.saveSession();
+    this.logger.info(
+      `Resuming session ${sessionId} from phase: ${session.currentPhase}`,
+    );
+    this.logger.info(
+      `Completed phases: ${session.phasesCompleted.join(", ") || "-"}`,
+    );
 
-      // 阶段 C: 编排
-      console.log("\n" + "=".repeat(60));
-      console.log("Phase C: Orchestrating...");
-      console.log("=".repeat(60));
-      await this.runPhaseC();
-      this.session.phasesCompleted.push("orchestrate");
-      await this.saveSession();
+    session.status = "running";
+    delete session.error;
+    if (options.assertions) {
+      session.config.assertions = options.assertions;
+    }
 
-      // 阶段 D: 执行
-      console.log("\n" + "=".repeat(60));
-      console.log("Phase D: Executing...");
-      console.log("=".repeat(60));
-      await this.runPhaseD();
-      this.session.phasesCompleted.push("execute");
-      await this.saveSession();
+    return await this.runPhases(session.config, options.failedPhaseOnly);
+  }
+
+  /**
+   * 加载已保存的会话（不运行任何阶段）
+   */
+  async loadSession(sessionId: string): Promise<OrchestrationSession> {
+    const session = await this.storage.findGlobalState<OrchestrationSession>(
+      `session_${sessionId}`,
+    );
+
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    if (!session.config) {
+      throw new Error(
+        `Session ${sessionId} has no saved config, cannot resume`,
+      );
+    }
+
+    await this.prepareStorage(session.config);
 
-      // 阶段 E: 派生
-      console.log("\n" + "=".repeat(60));
-      console.log("Phase E: Deriving...");
-      console.log("=".repeat(60));
-      await this.runPhaseE();
-      this.session.phasesCompleted.push("derive");
+    this.attachSession(session);
+    this.scanResults = [];
+    this.metadataList = [];
+    this.workflows = [];
+    this.executionResults = [];
+
+    return session;
+  }
+
+  /**
+   * 按顺序运行尚未完成的阶段
+   * @param stopAfterOne 只运行一个阶段后暂停
+   */
+  private async runPhases(
+    config: OrchestratorConfig,
+    stopAfterOne: boolean = false,
+  ): Promise<OrchestrationSession> {
+    const session = this.session!;
+
+    try {
+      // 保存会话状态
       await this.saveSession();
 
+      for (const phase of PHASE_SEQUENCE) {
+        if (session.phasesCompleted.includes(phase)) {
+          this.logger.info(`Skipping completed phase: ${phase}`);
+          continue;
+        }
+
+        await this.runPhaseById(phase, config);
+        session.phasesCompleted.push(phase);
+        await this.saveSession();
+
+        if (stopAfterOne && phase !== "derive") {
+          session.status = "paused";
+          await this.saveSession();
+          this.logger.info(`Phase ${phase} completed, session paused.`);
+          return session;
+        }
+      }
+
       // 标记完成
-      this.session.currentPhase = "completed";
-      this.session.status = "completed";
+      session.currentPhase = "completed";
+      session.status = "completed";
       await this.saveSession();
 
-      console.log("\n" + "=".repeat(60));
-      console.log("All phases completed successfully!");
-      console.log("=".repeat(60));
-
-      return this.session;
+      return session;
     } catch (error) {
-      this.session.status = "failed";
-      this.session.error = (error as Error).message;
+      session.status = "failed";
+      session.error = (error as Error).message;
       await this.saveSession();
       throw error;
     }
@@ -182,62 +303,246 @@ export class AgentOrchestrator {
     this.session!.currentPhase = "scan";
     await this.saveSession();
 
-    // ScanAgent 将自动扫描并保存结果
-    // 注意: 实际的 ScanAgent 需要实现 scanFromUrl 方法
-    console.log(`Scanning from: ${config.startUrl}`);
-    console.log("Scan agent will discover and scan pages automatically...");
+    const scanOptions = config.phaseOptions?.scan;
 
-    // ScanAgent 内部会处理扫描逻辑并保存到 storage
-    // 这里只是协调阶段转换
+    if (scanOptions?.timeout) {
+      this.playwright.setDefaultTimeout(scanOptions.timeout);
+    }
+    if (scanOptions?.concurrency) {
+      this.playwright.setConcurrency(scanOptions.concurrency);
+    }
+    if (scanOptions?.extraction) {
+      this.scanAgent.setExtractionMode(scanOptions.extraction);
+    }
+    if (scanOptions?.accessibility) {
+      this.scanAgent.setAccessibilityOptions(scanOptions.accessibility);
+    }
+    if (config.network) {
+      this.scanAgent.setNetworkOptions(config.network);
+    }
+    if (config.performance) {
+      this.scanAgent.setPerformanceOptions(config.performance);
+    }
+    const visual = this.prepareVisual(config);
+    this.scanAgent.setVisualBaselines(visual);
+    await this.prepareAuth(config);
+    await this.playwright.initialize();
+
+    this.scanAgent.setCrawlPolicy(
+      new CrawlPolicy({
+        ...scanOptions?.crawl,
+        maxPages: scanOptions?.maxPages ?? config.maxPages,
+        maxDepth: scanOptions?.maxDepth,
+      }),
+    );
+
+    this.scanResults = await this.scanAgent.scanWebsite(
+      config.startUrl,
+      scanOptions?.maxDepth,
+      scanOptions?.discovery,
+    );
+
+    // 合并本次扫描捕获的 API 接口到站点接口清单
+    const inventory = await ApiInventory.load(this.storage, config.startUrl);
+    this.scanResults.forEach((result) => inventory.add(result));
+    await inventory.save(this.storage);
+    this.logger.info(`API 接口清单: ${inventory.getEndpoints().length} 个接口`);
+    await this.writeVisualSummary(visual);
+
+    await this.recordArtifacts(
+      "scan",
+      this.scanResults.map((r) => r.id),
+    );
   }
 
   /**
    * 阶段 B: 解读
    */
-  private async runPhaseB(): Promise<void> {
+  private async runPhaseB(config: OrchestratorConfig): Promise<void> {
     this.session!.currentPhase = "interpret";
     await this.saveSession();
 
-    console.log("Interpreting scanned pages...");
+    const scanResults = await this.resolveInput(this.scanResults, "scan");
+    this.interpretAgent.setApiInventory(
+      await ApiInventory.load(this.storage, config.startUrl),
+    );
 
-    // InterpretAgent 会从 storage 读取扫描结果并生成 metadata
-    // 内部处理批量解读并保存结果
+    // 按批次解读，每批完成后记录进度
+    const batchSize =
+      config.phaseOptions?.interpret?.batchSize || scanResults.length || 1;
+    this.metadataList = [];
+
+    for (let i = 0; i < scanResults.length; i += batchSize) {
+      const batch = scanResults.slice(i, i + batchSize);
+      const metadata = await this.interpretAgent.interpretBatch(batch);
+      this.metadataList.push(...metadata);
+      await this.recordArtifacts(
+        "interpret",
+        this.metadataList.map((m) => m.id),
+      );
+    }
   }
 
   /**
    * 阶段 C: 编排
    */
-  private async runPhaseC(): Promise<void> {
+  private async runPhaseC(config: OrchestratorConfig): Promise<void> {
     this.session!.currentPhase = "orchestrate";
     await this.saveSession();
 
-    console.log("Orchestrating workflows from metadata...");
+    let metadataList = await this.resolveInput(this.metadataList, "interpret");
+    const maxWorkflows = config.phaseOptions?.orchestrate?.maxWorkflows;
+    if (maxWorkflows !== undefined) {
+      metadataList = metadataList.slice(0, maxWorkflows);
+    }
 
-    // OrchestrateAgent 会从 storage 读取 metadata 并生成 SOP workflows
+    this.workflows = await this.orchestrateAgent.orchestrateBatch(metadataList);
+    await this.recordArtifacts(
+      "orchestrate",
+      this.workflows.map((w) => w.id),
+    );
   }
 
   /**
    * 阶段 D: 执行
    */
-  private async runPhaseD(): Promise<void> {
+  private async runPhaseD(config: OrchestratorConfig): Promise<void> {
     this.session!.currentPhase = "execute";
     await this.saveSession();
 
-    console.log("Executing workflows...");
+    const workflows = await this.resolveInput(this.workflows, "orchestrate");
 
-    // ExecuteAgent 会从 storage 读取 workflows 并执行
+    if (config.network) {
+      this.executeAgent.setNetworkOptions(config.network);
+    }
+    if (config.performance) {
+      this.executeAgent.setPerformanceOptions(config.performance);
+    }
+    if (config.assertions) {
+      this.executeAgent.setAssertions(config.assertions);
+    }
+    if (config.phaseOptions?.execute?.testData) {
+      this.executeAgent.setTestDataOptions(
+        config.phaseOptions.execute.testData,
+      );
+    }
+    const visual = this.prepareVisual(config);
+    this.executeAgent.setVisualBaselines(visual);
+    await this.prepareAuth(config);
+    this.executionResults = await this.executeAgent.executeBatch(
+      workflows,
+      undefined,
+      config.phaseOptions?.execute,
+    );
+    await this.writeVisualSummary(visual);
+    await this.recordArtifacts(
+      "execute",
+      this.executionResults.map((r) => r.id),
+    );
   }
 
   /**
    * 阶段 E: 派生
    */
-  private async runPhaseE(): Promise<void> {
+  private async runPhaseE(config: OrchestratorConfig): Promise<void> {
     this.session!.currentPhase = "derive";
     await this.saveSession();
 
-    console.log("Deriving test cases...");
+    const workflows = await this.resolveInput(this.workflows, "orchestrate");
+    const metadataList = await this.resolveInput(
+      this.metadataList,
+      "interpret",
+    );
+
+    // 按工作流关联的元数据建立映射，供 Level 3 使用
+    const metadataMap = new Map<string, PageMetadata>();
+    for (const workflow of workflows) {
+      const metadata = metadataList.find((m) =>
+        workflow.metadataIds.includes(m.id),
+      );
+      if (metadata) {
+        metadataMap.set(workflow.id, metadata);
+      }
+    }
+
+    const derived = await this.deriveAgent.deriveBatch(
+      workflows,
+      metadataMap,
+      config.phaseOptions?.derive,
+    );
+    const derivedIds = Array.from(derived.values()).flatMap((testCases) =>
+      testCases.map((tc) => tc.id),
+    );
+    await this.recordArtifacts("derive", derivedIds);
+  }
+
+  /**
+   * 创建视觉基线存储（未启用视觉回归时返回 null）
+   */
+  private prepareVisual(
+    config: OrchestratorConfig,
+  ): VisualBaselineStore | null {
+    return config.visual?.enabled
+      ? new VisualBaselineStore(this.storage, config.visual)
+      : null;
+  }
+
+  /**
+   * 写入视觉对比摘要
+   */
+  private async writeVisualSummary(
+    visual: VisualBaselineStore | null,
+  ): Promise<void> {
+    const summaryPath = await visual?.writeSummary();
+    if (!visual || !summaryPath) {
+      return;
+    }
+    const changed = visual
+      .getResults()
+      .filter((r) => r.status === "changed").length;
+    this.logger.info(
+      `视觉对比: ${visual.getResults().length} 张截图，${changed} 张与基线不一致，摘要: ${summaryPath}`,
+    );
+  }
+
+  /**
+   * 准备登录态，并交给需要浏览器的代理
+   */
+  private async prepareAuth(config: OrchestratorConfig): Promise<void> {
+    if (!config.auth) {
+      return;
+    }
+
+    if (!this.auth) {
+      this.auth = new AuthManager(
+        this.playwright,
+        this.storage,
+        config.auth,
+        this.createLoginRunner(),
+        this.events,
+      );
+      this.scanAgent.setAuthManager(this.auth);
+      this.executeAgent.setAuthManager(this.auth);
+    }
+
+    await this.auth.prepare();
+  }
 
-    // DeriveAgent 会从 storage 读取 workflows 并生成派生测试
+  /**
+   * 登录工作流使用 SOPParser 解析、WorkflowExecutor 运行
+   */
+  private createLoginRunner(): LoginRunner {
+    return {
+      parse: (content, format) =>
+        format === "json"
+          ? SOPParser.fromJSON(content)
+          : SOPParser.fromMarkdown(content),
+      run: (playwright, workflow, inputs) =>
+        new WorkflowExecutor(playwright, this.events).executeWorkflow(
+          workflow,
+          inputs,
+        ),
+    };
   }
 
   /**
@@ -246,26 +551,160 @@ export class AgentOrchestrator {
   async runPhase(
     phase: "scan" | "interpret" | "orchestrate" | "execute" | "derive",
     config: OrchestratorConfig,
+  ): Promise<void> {
+    await this.prepareStorage(config);
+
+    if (!this.session) {
+      this.attachSession(this.createSession(config));
+    }
+
+    await this.runPhaseById(phase, config);
+
+    // 重新运行的阶段不重复记录
+    if (!this.session!.phasesCompleted.includes(phase)) {
+      this.session!.phasesCompleted.push(phase);
+    }
+    await this.saveSession();
+  }
+
+  /**
+   * 按阶段 ID 分发
+   */
+  private async runPhaseById(
+    phase: PhaseId,
+    config: OrchestratorConfig,
+  ): Promise<void> {
+    const sessionId = this.session!.id;
+    const startTime = Date.now();
+
+    this.events.emit("phase:start", {
+      sessionId,
+      phase,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      await this.dispatchPhase(phase, config);
+    } catch (error) {
+      this.events.emit("phase:end", {
+        sessionId,
+        phase,
+        status: "failure",
+        duration: Date.now() - startTime,
+        artifactIds: this.session!.artifacts[phase] ?? [],
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+
+    this.events.emit("phase:end", {
+      sessionId,
+      phase,
+      status: "success",
+      duration: Date.now() - startTime,
+      artifactIds: this.session!.artifacts[phase] ?? [],
+    });
+  }
+
+  /**
+   * 调用对应阶段的实现
+   */
+  private async dispatchPhase(
+    phase: PhaseId,
+    config: OrchestratorConfig,
   ): Promise<void> {
     switch (phase) {
       case "scan":
         await this.runPhaseA(config);
         break;
       case "interpret":
-        await this.runPhaseB();
+        await this.runPhaseB(config);
         break;
       case "orchestrate":
-        await this.runPhaseC();
+        await this.runPhaseC(config);
         break;
       case "execute":
-        await this.runPhaseD();
+        await this.runPhaseD(config);
         break;
       case "derive":
-        await this.runPhaseE();
+        await this.runPhaseE(config);
         break;
     }
   }
 
+  /**
+   * 设置存储位置并初始化目录
+   */
+  private async prepareStorage(config: OrchestratorConfig): Promise<void> {
+    // 设置 Storage 的基础 URL，使数据按域名分目录保存
+    if (config.startUrl) {
+      this.storage.setBaseUrl(config.startUrl);
+    }
+
+    // 初始化存储目录
+    await this.storage.initialize();
+  }
+
+  /**
+   * 创建新会话
+   */
+  private createSession(config: OrchestratorConfig): OrchestrationSession {
+    return {
+      id: crypto.randomUUID(),
+      startTime: new Date().toISOString(),
+      currentPhase: "scan",
+      status: "running",
+      phasesCompleted: [],
+      artifacts: {},
+      config,
+    };
+  }
+
+  /**
+   * 获取阶段输入
+   * 优先使用本次运行的内存数据；会话中记录了该阶段产出时按 ID 加载；
+   * 否则从存储加载最新数据
+   */
+  private async resolveInput<T extends { id: string }>(
+    inMemory: T[],
+    phaseId: PhaseId,
+  ): Promise<T[]> {
+    if (inMemory.length > 0) {
+      return inMemory;
+    }
+
+    const ids = this.session?.artifacts[phaseId];
+    if (ids) {
+      return await this.storage.loadPhaseDataByIds<T>(phaseId, ids);
+    }
+
+    return await this.storage.loadLatestPhaseData<T>(phaseId);
+  }
+
+  /**
+   * 生成人工审核原因
+   */
+  private describeReviewReason(critique: CritiqueResult): string {
+    const criticalCount = critique.issues.filter(
+      (i) => i.severity === "critical",
+    ).length;
+    if (criticalCount > 0) {
+      return `发现 ${criticalCount} 个关键问题`;
+    }
+    return `置信度 ${(critique.confidence.overall * 100).toFixed(1)}%，需要人工审核`;
+  }
+
+  /**
+   * 记录阶段产出的数据 ID
+   */
+  private async recordArtifacts(
+    phaseId: PhaseId,
+    ids: string[],
+  ): Promise<void> {
+    this.session!.artifacts[phaseId] = ids;
+    await this.saveSession();
+  }
+
   /**
    * 暂停当前会话
    */
@@ -276,7 +715,7 @@ export class AgentOrchestrator {
 
     this.session.status = "paused";
     await this.saveSession();
-    console.log("Session paused.");
+    this.logger.info("Session paused.");
   }
 
   /**
@@ -286,6 +725,22 @@ export class AgentOrchestrator {
     return this.session;
   }
 
+  /**
+   * 设置当前会话，并将会话 ID 注入日志上下文
+   * 会话内的全部日志同时写入 logs/session_{id}.jsonl
+   */
+  private attachSession(session: OrchestrationSession): void {
+    this.session = session;
+    this.critiqueEngine = new CritiqueEngine(session.config.reviewThreshold);
+    LogManager.setContext({ sessionId: session.id });
+
+    this.removeSessionLog?.();
+    this.removeSessionLog = LogManager.addFileOutput(
+      this.storage.getLogFilePath(`session_${session.id}.jsonl`),
+      { sessionId: session.id },
+    );
+  }
+
   /**
    * 保存会话状态
    */
@@ -294,10 +749,11 @@ export class AgentOrchestrator {
       return;
     }
 
-    await this.storage.saveGlobalState(
-      `session_${this.session.id}`,
-      this.session,
-    );
+    const { assertions, ...config } = this.session.config;
+    await this.storage.saveGlobalState(`session_${this.session.id}`, {
+      ...this.session,
+      config,
+    });
   }
 
   /**
@@ -323,6 +779,19 @@ export class AgentOrchestrator {
     });
     report.push("");
 
+    const artifactEntries = Object.entries(this.session.artifacts);
+    if (artifactEntries.length > 0) {
+      report.push("## Artifacts");
+      artifactEntries.forEach(([phase, ids]) => {
+        report.push(`- ${phase}: ${ids?.length ?? 0}`);
+      });
+      report.push("");
+    }
+
+    if (this.session.artifacts.scan?.length) {
+      report.push(...(await this.accessibilityReport()));
+    }
+
     if (this.session.error) {
       report.push("## Error");
       report.push(this.session.error);
@@ -339,12 +808,50 @@ export class AgentOrchestrator {
     return report.join("\n");
   }
 
+  /**
+   * 报告的无障碍部分：按路由列出审计发现的问题
+   */
+  private async accessibilityReport(): Promise<string[]> {
+    const scanResults = await this.resolveInput(this.scanResults, "scan");
+    const audited = scanResults.filter((r) => r.accessibility);
+    if (audited.length === 0) {
+      return [];
+    }
+
+    const lines = ["## Accessibility", ""];
+    for (const result of audited) {
+      const violations = result.accessibility!;
+      lines.push(`### ${result.route}`);
+      if (violations.length === 0) {
+        lines.push("- No violations");
+      }
+      for (const violation of violations) {
+        lines.push(
+          `- **${violation.severity}** \`${violation.rule}\`: ${violation.description} (${violation.elements.length})`,
+        );
+        for (const element of violation.elements.slice(0, 5)) {
+          lines.push(
+            `  - \`${element.selector}\`${element.detail ? ` — ${element.detail}` : ""}`,
+          );
+        }
+        if (violation.elements.length > 5) {
+          lines.push(`  - ... ${violation.elements.length - 5} more`);
+        }
+      }
+      lines.push("");
+    }
+    return lines;
+  }
+
   /**
    * 清理资源
    */
   async cleanup(): Promise<void> {
     // 清理 Playwright 资源
-    // PlaywrightManager 应该有自己的清理逻辑
-    console.log("Cleanup completed.");
+    await this.playwright.cleanup();
+    this.logger.info("Cleanup completed.");
+
+    this.removeSessionLog?.();
+    this.removeSessionLog = null;
   }
 }
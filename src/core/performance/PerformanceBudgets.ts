@@ -0,0 +1,83 @@
+import { PerformanceBudget, PerformanceMetrics } from "../../types/schemas";
+import { globToRegExp } from "../utils/glob";
+
+/**
+ * 超出预算的指标
+ */
+export interface BudgetViolation {
+  metric: string;
+  value: number;
+  budget: number;
+}
+
+/**
+ * 预算项对应的指标值
+ */
+const METRICS: Record<
+  Exclude<keyof PerformanceBudget, "route">,
+  (metrics: PerformanceMetrics) => number | undefined
+> = {
+  ttfb: (m) => m.navigation?.ttfb,
+  load: (m) => m.navigation?.load,
+  fcp: (m) => m.navigation?.fcp,
+  lcp: (m) => m.lcp,
+  cls: (m) => m.cls,
+  inp: (m) => m.inp,
+  tbt: (m) => m.tbt,
+  jsHeapUsed: (m) => m.jsHeapUsed,
+  resourceCount: (m) => m.resources.count,
+  transferSize: (m) => m.resources.transferSize,
+};
+
+/**
+ * 性能预算
+ * 按路由 glob 匹配预算（同一指标以最后一个匹配的预算为准），检查超出的指标
+ */
+export class PerformanceBudgets {
+  private budgets: Array<{ regex: RegExp | null; budget: PerformanceBudget }>;
+
+  constructor(budgets: PerformanceBudget[] = []) {
+    this.budgets = budgets.map((budget) => ({
+      regex: budget.route ? globToRegExp(budget.route) : null,
+      budget,
+    }));
+  }
+
+  /**
+   * 检查路由上的指标是否超出预算
+   * @param route 路由（路径 + 查询参数 + hash），按路径匹配 glob
+   */
+  check(route: string, metrics: PerformanceMetrics): BudgetViolation[] {
+    const pathname = route.split(/[?#]/)[0] ?? route;
+    const limits: Partial<Record<keyof typeof METRICS, number>> = {};
+    for (const { regex, budget } of this.budgets) {
+      if (regex && !regex.test(pathname)) continue;
+      for (const metric of Object.keys(METRICS) as Array<
+        keyof typeof METRICS
+      >) {
+        const limit = budget[metric];
+        if (limit !== undefined) {
+          limits[metric] = limit;
+        }
+      }
+    }
+
+    const violations: BudgetViolation[] = [];
+    for (const [metric, budget] of Object.entries(limits)) {
+      const value = METRICS[metric as keyof typeof METRICS](metrics);
+      if (value !== undefined && value > budget) {
+        violations.push({ metric, value, budget });
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * 格式化超出的指标，如 `lcp 3200 > 2500`
+   */
+  static format(violations: BudgetViolation[]): string {
+    return violations
+      .map((v) => `${v.metric} ${v.value} > ${v.budget}`)
+      .join(", ");
+  }
+}
@@ -0,0 +1,222 @@
+import { Page } from "playwright";
+import { PerformanceMetrics } from "../../types/schemas";
+
+/**
+ * 采集起点：文档的 timeOrigin 和当时的 performance.now()
+ */
+export interface PerformanceMark {
+  timeOrigin: number;
+  now: number;
+}
+
+/**
+ * 页面内观察到的性能条目
+ */
+interface ObservedEntries {
+  lcp: number | null;
+  layoutShifts: Array<{ start: number; value: number }>;
+  longTasks: Array<{ start: number; duration: number }>;
+  interactions: Array<{ start: number; duration: number }>;
+}
+
+/**
+ * 注入每个新文档的观察脚本（通过 addInitScript 执行）
+ * LCP、布局偏移、长任务和交互只能在发生时通过 PerformanceObserver 获取
+ */
+function observePerformance(): void {
+  if (window !== window.top) return;
+
+  const observed: ObservedEntries = {
+    lcp: null,
+    layoutShifts: [],
+    longTasks: [],
+    interactions: [],
+  };
+  (window as any).__e2eAgentsPerformance = observed;
+  performance.setResourceTimingBufferSize?.(1000);
+
+  const observe = (
+    type: string,
+    callback: (entry: any) => void,
+    options: Record<string, unknown> = {},
+  ) => {
+    try {
+      new PerformanceObserver((list) =>
+        list.getEntries().forEach(callback),
+      ).observe({
+        type,
+        buffered: true,
+        ...options,
+      } as PerformanceObserverInit);
+    } catch {
+      // 浏览器不支持该条目类型（如 Firefox/WebKit 的 longtask）
+    }
+  };
+
+  observe("largest-contentful-paint", (entry) => {
+    observed.lcp = entry.renderTime || entry.loadTime || entry.startTime;
+  });
+  observe("layout-shift", (entry) => {
+    if (!entry.hadRecentInput) {
+      observed.layoutShifts.push({
+        start: entry.startTime,
+        value: entry.value,
+      });
+    }
+  });
+  observe("longtask", (entry) => {
+    observed.longTasks.push({
+      start: entry.startTime,
+      duration: entry.duration,
+    });
+  });
+  observe(
+    "event",
+    (entry) => {
+      if (entry.interactionId) {
+        observed.interactions.push({
+          start: entry.startTime,
+          duration: entry.duration,
+        });
+      }
+    },
+    { durationThreshold: 16 },
+  );
+}
+
+/**
+ * 在页面内汇总指标（通过 evaluate 执行）
+ * 与起点在同一文档时只统计起点之后的条目
+ */
+function collectMetrics(mark: PerformanceMark | null): PerformanceMetrics {
+  const sameDocument =
+    mark !== null && mark.timeOrigin === performance.timeOrigin;
+  const since = sameDocument ? mark.now : 0;
+  const observed: ObservedEntries = (window as any).__e2eAgentsPerformance ?? {
+    lcp: null,
+    layoutShifts: [],
+    longTasks: [],
+    interactions: [],
+  };
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const metrics: PerformanceMetrics = {
+    resources: { count: 0, transferSize: 0, byType: {} },
+  };
+
+  if (!sameDocument) {
+    const navigation = performance.getEntriesByType("navigation")[0] as
+      PerformanceNavigationTiming | undefined;
+    const fcp = performance
+      .getEntriesByName("first-contentful-paint")
+      .find((entry) => entry.entryType === "paint");
+    if (navigation) {
+      metrics.navigation = {
+        ttfb: round(navigation.responseStart),
+        domContentLoaded: round(navigation.domContentLoadedEventEnd),
+        load: round(navigation.loadEventEnd),
+        ...(fcp && { fcp: round(fcp.startTime) }),
+      };
+    }
+    if (observed.lcp !== null) {
+      metrics.lcp = round(observed.lcp);
+    }
+  }
+
+  const shifts = observed.layoutShifts.filter((e) => e.start >= since);
+  if (shifts.length > 0 || !sameDocument) {
+    metrics.cls =
+      Math.round(shifts.reduce((sum, e) => sum + e.value, 0) * 1000) / 1000;
+  }
+
+  const longTasks = observed.longTasks.filter((e) => e.start >= since);
+  if (longTasks.length > 0 || !sameDocument) {
+    metrics.tbt = round(
+      longTasks.reduce((sum, e) => sum + Math.max(0, e.duration - 50), 0),
+    );
+  }
+
+  const interactions = observed.interactions.filter((e) => e.start >= since);
+  if (interactions.length > 0) {
+    metrics.inp = Math.max(...interactions.map((e) => e.duration));
+  }
+
+  const memory = (performance as any).memory;
+  if (memory?.usedJSHeapSize) {
+    metrics.jsHeapUsed = memory.usedJSHeapSize;
+  }
+
+  const typeOf = (initiator: string) => {
+    if (initiator === "xmlhttprequest" || initiator === "fetch") return "fetch";
+    if (initiator === "link" || initiator === "css") return "css";
+    if (initiator === "img" || initiator === "image") return "img";
+    if (initiator === "script") return "script";
+    return "other";
+  };
+  const resources = performance.getEntriesByType(
+    "resource",
+  ) as PerformanceResourceTiming[];
+  for (const entry of resources) {
+    if (entry.startTime < since) continue;
+    const type = typeOf(entry.initiatorType);
+    const bucket = (metrics.resources.byType[type] ??= {
+      count: 0,
+      transferSize: 0,
+    });
+    bucket.count++;
+    bucket.transferSize += entry.transferSize;
+    metrics.resources.count++;
+    metrics.resources.transferSize += entry.transferSize;
+  }
+
+  return metrics;
+}
+
+/**
+ * 性能指标采集
+ * 在页面打开前注入 PerformanceObserver，之后按需汇总导航计时、
+ * Core Web Vitals (LCP、CLS、INP、TBT)、JS 堆和资源数量/大小
+ */
+export class PerformanceCollector {
+  private static installed = new WeakSet<Page>();
+
+  /**
+   * 注入观察脚本（对之后加载的文档生效，同一页面只注入一次）
+   */
+  static async install(page: Page): Promise<void> {
+    if (this.installed.has(page)) {
+      return;
+    }
+    this.installed.add(page);
+    await page.addInitScript(observePerformance);
+  }
+
+  /**
+   * 记录采集起点（工作流步骤开始前调用）
+   */
+  static async mark(page: Page): Promise<PerformanceMark | null> {
+    try {
+      return await page.evaluate(() => ({
+        timeOrigin: performance.timeOrigin,
+        now: performance.now(),
+      }));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 汇总性能指标；页面已关闭或无法执行脚本时返回 null
+   * @param mark 采集起点，省略时统计当前文档的全部指标
+   */
+  static async collect(
+    page: Page,
+    mark: PerformanceMark | null = null,
+  ): Promise<PerformanceMetrics | null> {
+    try {
+      return await page.evaluate(collectMetrics, mark);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { Frame, FrameLocator, Locator, Page } from "playwright";
+import { LocatorCandidate } from "../../types/schemas";
+
+/**
+ * 定位器的查找范围：页面、frame、iframe 定位器或元素
+ */
+export type LocatorRoot = Page | Frame | FrameLocator | Locator;
+
+/**
+ * 解析结果
+ * locator 不会收窄到第一个元素，单元素操作由调用方使用 `.first()`
+ */
+export interface ResolvedLocator {
+  locator: Locator;
+  /** 使用的候选，回退到 selector 时为空 */
+  candidate?: LocatorCandidate;
+  /** 没有唯一匹配的候选，使用了匹配多个元素的候选 */
+  ambiguous: boolean;
+}
+
+/**
+ * 等待候选元素出现的默认时长（毫秒）
+ */
+const DEFAULT_WAIT = 2000;
+
+/**
+ * 定位器解析器
+ * 将扫描阶段生成的定位器候选转换为 Playwright Locator，并按顺序解析
+ */
+export class LocatorResolver {
+  /**
+   * 按 iframe 选择器路径（从主页面开始）得到查找范围
+   */
+  static frameScope(page: Page, framePath: string[] = []): LocatorRoot {
+    let root: LocatorRoot = page;
+    for (const selector of framePath) {
+      root = root.frameLocator(selector);
+    }
+    return root;
+  }
+
+  /**
+   * 将候选转换为 Locator
+   */
+  static toLocator(root: LocatorRoot, candidate: LocatorCandidate): Locator {
+    switch (candidate.strategy) {
+      case "testid":
+        return candidate.attribute && candidate.attribute !== "data-testid"
+          ? root.locator(
+              `[${candidate.attribute}=${JSON.stringify(candidate.value)}]`,
+            )
+          : root.getByTestId(candidate.value);
+      case "role":
+        return root.getByRole(
+          candidate.value as Parameters<Page["getByRole"]>[0],
+          {
+            ...(candidate.name !== undefined && { name: candidate.name }),
+            exact: true,
+          },
+        );
+      case "label":
+        return root.getByLabel(candidate.value, { exact: true });
+      case "placeholder":
+        return root.getByPlaceholder(candidate.value, { exact: true });
+      case "text":
+        return root.getByText(candidate.value, { exact: true });
+      case "xpath":
+        return root.locator(`xpath=${candidate.value}`);
+      case "css":
+      default:
+        return root.locator(candidate.value);
+    }
+  }
+
+  /**
+   * 检查每个候选在当前页面中是否唯一匹配
+   */
+  static async checkUniqueness(
+    root: LocatorRoot,
+    candidates: Array<Omit<LocatorCandidate, "unique">>,
+  ): Promise<LocatorCandidate[]> {
+    const checked: LocatorCandidate[] = [];
+    for (const candidate of candidates) {
+      const count = await this.count(root, { ...candidate, unique: false });
+      checked.push({ ...candidate, unique: count === 1 });
+    }
+    return checked;
+  }
+
+  /**
+   * 解析步骤目标
+   * 先等待任一候选的元素出现（最多 timeout 毫秒），再依次尝试候选：使用第一个唯一匹配的；
+   * 都不唯一时使用第一个有匹配的候选并标记为 ambiguous；
+   * 没有候选匹配时回退到 selector（由 Playwright 自动等待元素出现）
+   */
+  static async resolve(
+    root: LocatorRoot,
+    candidates: LocatorCandidate[] = [],
+    fallbackSelector?: string,
+    timeout: number = DEFAULT_WAIT,
+  ): Promise<ResolvedLocator> {
+    await this.waitForAny(root, candidates, timeout);
+
+    let firstMatch: LocatorCandidate | null = null;
+    for (const candidate of candidates) {
+      const count = await this.count(root, candidate);
+      if (count === 1) {
+        return {
+          locator: this.toLocator(root, candidate),
+          candidate,
+          ambiguous: false,
+        };
+      }
+      if (count > 1 && !firstMatch) {
+        firstMatch = candidate;
+      }
+    }
+
+    if (firstMatch) {
+      return {
+        locator: this.toLocator(root, firstMatch),
+        candidate: firstMatch,
+        ambiguous: true,
+      };
+    }
+    if (fallbackSelector) {
+      return { locator: root.locator(fallbackSelector), ambiguous: false };
+    }
+    if (candidates[0]) {
+      return {
+        locator: this.toLocator(root, candidates[0]),
+        candidate: candidates[0],
+        ambiguous: false,
+      };
+    }
+    throw new Error("No selector or locator candidates specified");
+  }
+
+  /**
+   * 等待任一候选匹配的元素出现，超时或选择器无效时直接返回
+   */
+  private static async waitForAny(
+    root: LocatorRoot,
+    candidates: LocatorCandidate[],
+    timeout: number,
+  ): Promise<void> {
+    if (candidates.length === 0 || timeout <= 0) {
+      return;
+    }
+    try {
+      const any = candidates
+        .map((candidate) => this.toLocator(root, candidate))
+        .reduce((combined, locator) => combined.or(locator));
+      await any.first().waitFor({ state: "attached", timeout });
+    } catch {
+      // 没有候选出现，由后续的计数和回退处理
+    }
+  }
+
+  /**
+   * 统计候选匹配的元素数，无效的选择器视为 0
+   */
+  private static async count(
+    root: LocatorRoot,
+    candidate: LocatorCandidate,
+  ): Promise<number> {
+    try {
+      return await this.toLocator(root, candidate).count();
+    } catch {
+      return 0;
+    }
+  }
+}
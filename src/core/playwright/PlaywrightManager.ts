@@ -1,15 +1,49 @@
-import { chromium, Browser, BrowserContext, Page } from "playwright";
+import {
+  chromium,
+  firefox,
+  webkit,
+  devices,
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  BrowserType,
+  Page,
+  Route,
+} from "playwright";
+import { ExecutionTarget } from "../../types/schemas";
+import { NetworkFixtureStore } from "../network/NetworkFixtureStore";
 
 /**
  * Playwright 管理器配置
  */
 export interface PlaywrightConfig {
+  browser?: "chromium" | "firefox" | "webkit";
   headless?: boolean;
   slowMo?: number;
   timeout?: number;
   viewport?: { width: number; height: number };
+  /** 设备模拟，取 Playwright devices 中的名称，如 'iPhone 13' */
+  device?: string;
+  locale?: string;
+  timezoneId?: string;
+  colorScheme?: "light" | "dark" | "no-preference";
+  /** 登录态（cookies + localStorage），新建的浏览器上下文会载入它 */
+  storageState?: StorageState;
+  /** 页面池大小，即可同时使用的页面数 (默认 1) */
+  concurrency?: number;
 }
 
+/**
+ * Playwright storageState 格式
+ */
+export type StorageState = Exclude<
+  BrowserContextOptions["storageState"],
+  string | undefined
+>;
+
+const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
 /**
  * Playwright 管理器
  * 负责浏览器生命周期管理
@@ -19,13 +53,22 @@ export class PlaywrightManager {
   private context: BrowserContext | null = null;
   private page: Page | null = null;
   private config: PlaywrightConfig;
+  private pageListeners: Array<(page: Page) => void> = [];
+
+  // 页面池
+  private pool: Array<{ page: Page; busy: boolean }> = [];
+  private poolCreating = 0;
+  private poolWaiters: Array<() => void> = [];
 
   constructor(config: PlaywrightConfig = {}) {
     this.config = {
+      ...config,
+      browser: config.browser ?? "chromium",
       headless: config.headless ?? true,
       slowMo: config.slowMo ?? 0,
       timeout: config.timeout ?? 30000,
       viewport: config.viewport ?? { width: 1920, height: 1080 },
+      concurrency: config.concurrency ?? 1,
     };
   }
 
@@ -37,36 +80,115 @@ export class PlaywrightManager {
       return; // 已经初始化
     }
 
-    this.browser = await chromium.launch({
+    this.browser = await this.getBrowserType().launch({
       headless: this.config.headless ?? true,
       slowMo: this.config.slowMo ?? 0,
     });
 
-    this.context = await this.browser.newContext({
-      viewport: this.config.viewport ?? { width: 1920, height: 1080 },
-      userAgent:
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-      // 避免检测
-      bypassCSP: true,
-      ignoreHTTPSErrors: true,
-    });
+    await this.createContext();
+  }
+
+  /**
+   * 创建浏览器上下文和主页面
+   */
+  private async createContext(): Promise<void> {
+    if (!this.browser) {
+      throw new Error("Playwright not initialized. Call initialize() first.");
+    }
+
+    this.context = await this.browser.newContext(this.getContextOptions());
 
     // 设置默认超时
     this.context.setDefaultTimeout(this.config.timeout ?? 30000);
 
+    // 注入反检测脚本（对上下文中的所有页面生效）
+    await this.setupAntiDetection();
+
     this.page = await this.context.newPage();
+    this.notifyPage(this.page);
+  }
 
-    // 注入反检测脚本
-    await this.setupAntiDetection();
+  /**
+   * 以当前配置重建浏览器上下文（如载入新的登录态）
+   * 之前通过 getPage() 获取的页面引用将失效
+   */
+  async resetContext(): Promise<void> {
+    this.pool = [];
+    try {
+      if (this.context) {
+        await this.context.close();
+        this.context = null;
+        this.page = null;
+      }
+      await this.createContext();
+    } finally {
+      // 旧页面已随上下文关闭，等待的调用方重新获取（在新上下文中创建页面）
+      this.wakeAllPoolWaiters();
+    }
+  }
+
+  /**
+   * 构建浏览器上下文选项
+   * 指定设备时使用设备的视口和 UA，否则使用默认桌面配置
+   */
+  private getContextOptions(): BrowserContextOptions {
+    let emulation: BrowserContextOptions = {
+      viewport: this.config.viewport ?? { width: 1920, height: 1080 },
+      userAgent: DEFAULT_USER_AGENT,
+    };
+
+    if (this.config.device) {
+      const descriptor = devices[this.config.device];
+      if (!descriptor) {
+        throw new Error(`Unknown device: ${this.config.device}`);
+      }
+      const { defaultBrowserType: _, ...deviceOptions } = descriptor;
+      emulation = deviceOptions;
+
+      // Firefox 不支持 isMobile
+      if (this.config.browser === "firefox") {
+        delete emulation.isMobile;
+      }
+    }
+
+    return {
+      ...emulation,
+      ...(this.config.locale && { locale: this.config.locale }),
+      ...(this.config.timezoneId && { timezoneId: this.config.timezoneId }),
+      ...(this.config.colorScheme && { colorScheme: this.config.colorScheme }),
+      ...(this.config.storageState && {
+        storageState: this.config.storageState,
+      }),
+      // 避免检测
+      bypassCSP: true,
+      ignoreHTTPSErrors: true,
+    };
+  }
+
+  /**
+   * 获取配置的浏览器类型
+   */
+  private getBrowserType(): BrowserType {
+    switch (this.config.browser) {
+      case "firefox":
+        return firefox;
+      case "webkit":
+        return webkit;
+      default:
+        return chromium;
+    }
   }
 
   /**
    * 设置反检测机制
    */
   private async setupAntiDetection(): Promise<void> {
-    if (!this.page) return;
+    if (!this.context) return;
+
+    // 反检测脚本模拟桌面 Chrome，仅在未模拟设备的 chromium 下注入
+    if (this.config.browser !== "chromium" || this.config.device) return;
 
-    await this.page.addInitScript(() => {
+    await this.context.addInitScript(() => {
       // 隐藏 webdriver 标志
       Object.defineProperty(navigator, "webdriver", {
         get: () => false,
@@ -97,6 +219,79 @@ export class PlaywrightManager {
     });
   }
 
+  /**
+   * 设置默认超时（初始化前后均可调用）
+   */
+  setDefaultTimeout(timeout: number): void {
+    this.config.timeout = timeout;
+    this.context?.setDefaultTimeout(timeout);
+  }
+
+  /**
+   * 设置登录态，对之后创建的浏览器上下文生效
+   * 需要立即应用到当前上下文时调用 resetContext()
+   */
+  setStorageState(state: StorageState | undefined): void {
+    if (state) {
+      this.config.storageState = state;
+    } else {
+      delete this.config.storageState;
+    }
+  }
+
+  /**
+   * 注册页面监听器，对已有页面和之后创建的页面生效
+   */
+  onPage(listener: (page: Page) => void): void {
+    this.pageListeners.push(listener);
+    this.context?.pages().forEach(listener);
+  }
+
+  /**
+   * 通知页面监听器
+   */
+  private notifyPage(page: Page): void {
+    for (const listener of this.pageListeners) {
+      listener(page);
+    }
+  }
+
+  /**
+   * 当前的执行环境
+   */
+  getTarget(): ExecutionTarget {
+    return {
+      browser: this.config.browser ?? "chromium",
+      ...(this.config.device && { device: this.config.device }),
+      ...(this.config.locale && { locale: this.config.locale }),
+      ...(this.config.timezoneId && { timezoneId: this.config.timezoneId }),
+      ...(this.config.colorScheme && { colorScheme: this.config.colorScheme }),
+    };
+  }
+
+  /**
+   * 视口标识：设备名称或视口尺寸 (如 1920x1080)
+   */
+  getViewportLabel(): string {
+    if (this.config.device) {
+      return this.config.device;
+    }
+    const viewport = this.config.viewport ?? { width: 1920, height: 1080 };
+    return `${viewport.width}x${viewport.height}`;
+  }
+
+  /**
+   * 以当前配置为基础，创建指向另一执行环境的新管理器
+   * 目标中未指定的字段沿用当前配置（包括登录态）；新管理器拥有独立的浏览器实例，
+   * 页面监听器不会被复制
+   */
+  withTarget(target: ExecutionTarget): PlaywrightManager {
+    const overrides = Object.fromEntries(
+      Object.entries(target).filter(([, value]) => value !== undefined),
+    );
+    return new PlaywrightManager({ ...this.config, ...overrides });
+  }
+
   /**
    * 获取当前页面
    */
@@ -124,7 +319,126 @@ export class PlaywrightManager {
     if (!this.context) {
       throw new Error("Playwright not initialized. Call initialize() first.");
     }
-    return await this.context.newPage();
+    const page = await this.context.newPage();
+    this.notifyPage(page);
+    return page;
+  }
+
+  /**
+   * 设置页面池大小
+   */
+  setConcurrency(concurrency: number): void {
+    this.config.concurrency = Math.max(1, concurrency);
+    this.wakeAllPoolWaiters();
+  }
+
+  /**
+   * 页面池大小
+   */
+  getConcurrency(): number {
+    return this.config.concurrency ?? 1;
+  }
+
+  /**
+   * 从页面池获取一个空闲页面，池满时等待其他页面归还
+   * 池中的页面共享浏览器上下文（登录态），但各自拥有独立的事件监听器
+   */
+  async acquirePage(): Promise<Page> {
+    for (;;) {
+      const idle = this.pool.find((entry) => !entry.busy);
+      if (idle) {
+        if (idle.page.isClosed()) {
+          this.pool = this.pool.filter((entry) => entry !== idle);
+          continue;
+        }
+        idle.busy = true;
+        return idle.page;
+      }
+
+      if (this.pool.length + this.poolCreating < this.getConcurrency()) {
+        this.poolCreating++;
+        let page: Page | null = null;
+        try {
+          page = await this.newPage();
+          this.pool.push({ page, busy: true });
+          return page;
+        } finally {
+          this.poolCreating--;
+          // 创建失败时归还名额，由等待的调用方重试
+          if (!page) {
+            this.wakePoolWaiter();
+          }
+        }
+      }
+
+      await new Promise<void>((resolve) => this.poolWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * 将页面归还到页面池
+   */
+  releasePage(page: Page): void {
+    const entry = this.pool.find((e) => e.page === page);
+    if (entry) {
+      entry.busy = false;
+    }
+    this.wakePoolWaiter();
+  }
+
+  /**
+   * 使用页面池中的页面执行操作，完成后自动归还
+   */
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    const page = await this.acquirePage();
+    try {
+      return await fn(page);
+    } finally {
+      this.releasePage(page);
+    }
+  }
+
+  /**
+   * 唤醒一个等待页面的调用方
+   */
+  private wakePoolWaiter(): void {
+    this.poolWaiters.shift()?.();
+  }
+
+  /**
+   * 唤醒所有等待页面的调用方，由它们重新检查页面池
+   */
+  private wakeAllPoolWaiters(): void {
+    this.poolWaiters.splice(0).forEach((wake) => wake());
+  }
+
+  /**
+   * 将页面的请求路由到网络 fixture
+   * @returns 取消路由的函数
+   */
+  async routeFixtures(
+    fixtures: NetworkFixtureStore,
+    page: Page = this.getPage(),
+  ): Promise<() => Promise<void>> {
+    const handler = async (route: Route) => {
+      const decision = fixtures.handle(route.request());
+      if (decision.action === "fulfill") {
+        await route.fulfill({
+          status: decision.status,
+          headers: decision.headers,
+          body: decision.body,
+        });
+      } else if (decision.action === "abort") {
+        await route.abort("failed");
+      } else {
+        await route.fallback();
+      }
+    };
+
+    await page.route("**/*", handler);
+    return async () => {
+      await page.unroute("**/*", handler).catch(() => {});
+    };
   }
 
   /**
@@ -216,6 +530,7 @@ export class PlaywrightManager {
    * 清理资源
    */
   async cleanup(): Promise<void> {
+    this.pool = [];
     if (this.context) {
       await this.context.close();
       this.context = null;
@@ -1,4 +1,9 @@
-import { ScanResult, CritiqueResult } from "../../../types/schemas";
+import {
+  ScanResult,
+  CritiqueResult,
+  A11ySeverity,
+  A11yViolation,
+} from "../../../types/schemas";
 import { ConfidenceCalculator } from "../ConfidenceCalculator";
 
 /**
@@ -10,6 +15,17 @@ interface Issue {
   suggestion?: string;
 }
 
+/**
+ * 无障碍问题严重程度对应的批判问题等级
+ * 页面本身的缺陷不代表扫描失败，不映射为 critical
+ */
+const A11Y_ISSUE_SEVERITY: Record<A11ySeverity, Issue["severity"]> = {
+  critical: "high",
+  serious: "medium",
+  moderate: "low",
+  minor: "low",
+};
+
 /**
  * 扫描结果验证器 (Phase A)
  */
@@ -97,8 +113,10 @@ export class ScanValidator {
     const hasButtons = scanResult.elements.some(
       (el) => el.elementType === "button",
     );
-    const hasInputs = scanResult.elements.some(
-      (el) => el.elementType === "input",
+    const hasInputs = scanResult.elements.some((el) =>
+      ["input", "textarea", "select", "checkbox", "radio"].includes(
+        el.elementType,
+      ),
     );
     const hasLinks = scanResult.elements.some(
       (el) => el.elementType === "link",
@@ -114,6 +132,20 @@ export class ScanValidator {
     return issues;
   }
 
+  /**
+   * 将无障碍审计的问题转换为批判问题
+   */
+  static validateAccessibility(violations: A11yViolation[]): Issue[] {
+    return violations.map((violation) => {
+      const selectors = violation.elements.map((e) => e.selector);
+      return {
+        severity: A11Y_ISSUE_SEVERITY[violation.severity],
+        description: `无障碍: ${violation.description} (${violation.rule}，${selectors.length} 个元素)`,
+        suggestion: `检查元素: ${selectors.slice(0, 3).join(", ")}${selectors.length > 3 ? " 等" : ""}`,
+      };
+    });
+  }
+
   /**
    * 完整验证
    */
@@ -122,10 +154,16 @@ export class ScanValidator {
     const accuracyIssues = this.validateAccuracy(scanResult);
     const coverageIssues = this.validateCoverage(scanResult);
 
+    // 无障碍问题是页面本身的缺陷，只记录为问题，不参与置信度计算
+    const accessibilityIssues = this.validateAccessibility(
+      scanResult.accessibility ?? [],
+    );
+
     const allIssues = [
       ...completenessIssues,
       ...accuracyIssues,
       ...coverageIssues,
+      ...accessibilityIssues,
     ];
 
     // 计算置信度
@@ -102,9 +102,11 @@ export class StorageManager {
       "executions",
       "derived",
       "diffs",
+      "baselines/pending",
       "reviews/pending",
       "reviews/completed",
       "state",
+      "logs",
     ];
 
     for (const dir of dirs) {
@@ -216,6 +218,34 @@ export class StorageManager {
     return results;
   }
 
+  /**
+   * 按 ID 加载阶段数据（跨所有时间戳目录查找）
+   * 返回结果按传入的 ID 顺序排列，找不到的 ID 会被忽略
+   */
+  async loadPhaseDataByIds<T extends { id: string }>(
+    phaseId: PhaseId,
+    ids: string[],
+  ): Promise<T[]> {
+    const wanted = new Set(ids);
+    const found = new Map<string, T>();
+
+    for (const timestamp of await this.listTimestamps(phaseId)) {
+      const items = await this.loadPhaseDataByTimestamp<T>(phaseId, timestamp);
+      for (const item of items) {
+        if (wanted.has(item.id) && !found.has(item.id)) {
+          found.set(item.id, item);
+        }
+      }
+      if (found.size === wanted.size) {
+        break;
+      }
+    }
+
+    return ids
+      .map((id) => found.get(id))
+      .filter((item): item is T => item !== undefined);
+  }
+
   /**
    * 列出所有时间戳目录
    */
@@ -290,6 +320,72 @@ export class StorageManager {
     return await fs.readFile(filePath, "utf-8");
   }
 
+  /**
+   * 保存差异文件（如视觉差异图和对比摘要）
+   * 结构: data/{domain_port}/{taskName}/diffs/{timestamp}/{filename}
+   */
+  async saveDiffFile(
+    timestamp: string,
+    filename: string,
+    data: Buffer | string,
+  ): Promise<string> {
+    const targetDir = path.join(this.getUrlBasedDir(), "diffs", timestamp);
+    const filePath = path.join(targetDir, filename);
+
+    await fs.mkdir(targetDir, { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    return filePath;
+  }
+
+  /**
+   * 获取视觉基线文件路径
+   * 结构: data/{domain_port}/{taskName}/baselines/[pending/]{filename}
+   */
+  getBaselinePath(filename: string, pending = false): string {
+    return path.join(
+      this.getUrlBasedDir(),
+      "baselines",
+      ...(pending ? ["pending"] : []),
+      filename,
+    );
+  }
+
+  /**
+   * 保存视觉基线文件
+   */
+  async saveBaselineFile(
+    filename: string,
+    data: Buffer,
+    pending = false,
+  ): Promise<string> {
+    const filePath = this.getBaselinePath(filename, pending);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return filePath;
+  }
+
+  /**
+   * 读取视觉基线文件，不存在时返回 null
+   */
+  async readBaselineFile(
+    filename: string,
+    pending = false,
+  ): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.getBaselinePath(filename, pending));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 删除待审核的视觉基线文件
+   */
+  async removePendingBaseline(filename: string): Promise<void> {
+    await fs.rm(this.getBaselinePath(filename, true), { force: true });
+  }
+
   /**
    * 获取阶段目录名
    */
@@ -383,6 +479,14 @@ export class StorageManager {
     }
   }
 
+  /**
+   * 获取日志文件路径
+   * 结构: data/{domain_port}/{taskName}/logs/{filename}
+   */
+  getLogFilePath(filename: string): string {
+    return path.join(this.getUrlBasedDir(), "logs", filename);
+  }
+
   /**
    * 保存全局状态
    */
@@ -407,6 +511,47 @@ export class StorageManager {
       return null;
     }
   }
+
+  /**
+   * 在整个数据目录中查找全局状态（不依赖当前基础 URL）
+   * 依次检查 data/state/ 和 data/{domain_port}/{taskName}/state/
+   */
+  async findGlobalState<T>(key: string): Promise<T | null> {
+    const candidates = [path.join(this.dataDir, "state", `${key}.json`)];
+
+    const hostDirs = await this.listSubdirectories(this.dataDir);
+    for (const hostDir of hostDirs) {
+      const taskDirs = await this.listSubdirectories(hostDir);
+      for (const taskDir of taskDirs) {
+        candidates.push(path.join(taskDir, "state", `${key}.json`));
+      }
+    }
+
+    for (const candidate of candidates) {
+      try {
+        const content = await fs.readFile(candidate, "utf-8");
+        return JSON.parse(content);
+      } catch {
+        // 不存在，继续查找
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 列出子目录的完整路径
+   */
+  private async listSubdirectories(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => path.join(dir, entry.name));
+    } catch {
+      return [];
+    }
+  }
 }
 
 /**
@@ -0,0 +1,204 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Faker, base } from "@faker-js/faker";
+import { DatasetBinding, SOPWorkflow } from "../../types/schemas";
+
+/**
+ * 数据集中的一行
+ */
+export interface DatasetRow {
+  /** 行序号（从 1 开始，不含 CSV 表头） */
+  row: number;
+  values: Record<string, any>;
+}
+
+/**
+ * 数据集加载
+ * 读取 CSV / JSON / JSONL 文件，按绑定的 filter、sample、limit 选出要执行的行，
+ * 并把每行转换为工作流的输入
+ */
+export class DatasetLoader {
+  /**
+   * 读取数据集并选出要执行的行（相对路径相对当前目录）
+   */
+  static async load(binding: DatasetBinding): Promise<DatasetRow[]> {
+    const filePath = path.resolve(binding.path);
+    const content = await fs.readFile(filePath, "utf-8");
+    const rows = this.parse(content, binding.format ?? this.formatOf(filePath));
+    return this.select(rows, binding);
+  }
+
+  /**
+   * 解析数据集内容，每行必须是对象（CSV 按表头转换为对象）
+   */
+  static parse(
+    content: string,
+    format: NonNullable<DatasetBinding["format"]>,
+  ): DatasetRow[] {
+    let records: unknown[];
+    switch (format) {
+      case "csv":
+        records = this.parseCsv(content);
+        break;
+      case "json": {
+        const parsed = JSON.parse(content);
+        if (!Array.isArray(parsed)) {
+          throw new Error("JSON dataset must be an array of objects");
+        }
+        records = parsed;
+        break;
+      }
+      case "jsonl":
+        records = content
+          .split(/\r?\n/)
+          .filter((line) => line.trim())
+          .map((line) => JSON.parse(line));
+        break;
+    }
+
+    return records.map((values, index) => {
+      if (typeof values !== "object" || values === null) {
+        throw new Error(`Dataset row ${index + 1} is not an object`);
+      }
+      return { row: index + 1, values: values as Record<string, any> };
+    });
+  }
+
+  /**
+   * 依次应用 filter、sample 和 limit
+   */
+  static select(rows: DatasetRow[], binding: DatasetBinding): DatasetRow[] {
+    let selected = rows;
+
+    if (binding.filter) {
+      const conditions = Object.entries(binding.filter);
+      selected = selected.filter(({ values }) =>
+        conditions.every(([column, expected]) =>
+          this.matches(values[column], expected),
+        ),
+      );
+    }
+
+    if (binding.sample && binding.sample.size < selected.length) {
+      const faker = new Faker({ locale: base });
+      if (binding.sample.seed !== undefined) {
+        faker.seed(binding.sample.seed);
+      }
+      selected = faker.helpers
+        .arrayElements(selected, binding.sample.size)
+        .sort((a, b) => a.row - b.row);
+    }
+
+    return binding.limit ? selected.slice(0, binding.limit) : selected;
+  }
+
+  /**
+   * 把一行数据转换为工作流输入
+   * 输入包含该行的所有列，requiredInputs 中的字段按 mapping 取列，缺少时使用默认值
+   */
+  static toInputs(
+    workflow: SOPWorkflow,
+    binding: DatasetBinding,
+    row: DatasetRow,
+  ): Record<string, any> {
+    const inputs: Record<string, any> = { ...row.values };
+
+    for (const input of workflow.requiredInputs) {
+      const column = binding.mapping?.[input.field] ?? input.field;
+      const value = row.values[column];
+      if (value !== undefined && value !== "") {
+        inputs[input.field] = value;
+      } else if (input.defaultValue !== undefined) {
+        inputs[input.field] = input.defaultValue;
+      } else if (input.required) {
+        throw new Error(
+          `Dataset row ${row.row} is missing required input "${input.field}" (column "${column}")`,
+        );
+      }
+    }
+
+    return inputs;
+  }
+
+  /**
+   * 解析 CSV（RFC 4180：双引号包裹的字段可包含逗号、换行和 "" 转义的引号）
+   * 第一行为表头，空行忽略
+   */
+  static parseCsv(content: string): Record<string, string>[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    // Excel 导出的 CSV 可能带有 BOM
+    const text = content.replace(/^\uFEFF/, "");
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+    if (field || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const [header, ...body] = records.filter(
+      (r) => r.length > 1 || r[0] !== "",
+    );
+    if (!header) {
+      return [];
+    }
+    const columns = header.map((column) => column.trim());
+    return body.map((values) =>
+      Object.fromEntries(
+        columns.map((column, index) => [column, values[index] ?? ""]),
+      ),
+    );
+  }
+
+  private static formatOf(
+    filePath: string,
+  ): NonNullable<DatasetBinding["format"]> {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === ".csv") return "csv";
+    if (extension === ".json") return "json";
+    if (extension === ".jsonl" || extension === ".ndjson") return "jsonl";
+    throw new Error(`Unknown dataset format: ${filePath}`);
+  }
+
+  /**
+   * 列值是否匹配 filter 条件，`/pattern/flags` 形式的字符串按正则匹配
+   */
+  private static matches(
+    value: unknown,
+    expected: string | number | boolean,
+  ): boolean {
+    const literal =
+      typeof expected === "string" && expected.match(/^\/(.+)\/([a-z]*)$/);
+    if (literal) {
+      return new RegExp(literal[1] ?? "", literal[2]).test(String(value ?? ""));
+    }
+    return String(value ?? "") === String(expected);
+  }
+}
@@ -0,0 +1,264 @@
+import { Faker, LocaleDefinition, allLocales } from "@faker-js/faker";
+import {
+  DataDependency,
+  FieldConstraints,
+  TestDataOptions,
+} from "../../types/schemas";
+
+/**
+ * 兼容旧工作流的简写方法名
+ */
+const ALIASES: Record<string, string> = {
+  name: "person.fullName",
+  email: "internet.email",
+  phone: "phone.number",
+  address: "location.streetAddress",
+  company: "company.name",
+};
+
+/**
+ * 未指定 faker 方法时按字段类型选择的方法
+ */
+const TYPE_METHODS: Record<string, string> = {
+  email: "internet.email",
+  tel: "phone.number",
+  url: "internet.url",
+  password: "internet.password",
+  color: "color.rgb",
+  textarea: "lorem.sentence",
+};
+
+/**
+ * 数据类型对应的 input type
+ */
+const DATA_TYPE_INPUTS: Record<DataDependency["dataType"], string> = {
+  string: "text",
+  number: "number",
+  boolean: "checkbox",
+  date: "date",
+  email: "email",
+  phone: "tel",
+  url: "url",
+  file: "file",
+  other: "text",
+};
+
+/**
+ * 日期类 input 的取值格式（ISO 字符串的截取范围）
+ */
+const DATE_FORMATS: Record<string, [number, number]> = {
+  date: [0, 10],
+  "datetime-local": [0, 16],
+  month: [0, 7],
+  time: [11, 16],
+};
+
+/**
+ * 测试数据生成器
+ * 按路径动态调用 faker 方法（如 `person.firstName`），未指定方法时按字段约束生成；
+ * 每次执行使用独立的 Faker 实例和种子，相同种子和步骤顺序生成相同的数据
+ */
+export class TestDataGenerator {
+  readonly seed: number;
+  readonly locale: string;
+  private faker: Faker;
+
+  constructor(options: TestDataOptions = {}) {
+    this.locale = options.locale ?? "en_US";
+    const definition = (allLocales as Record<string, LocaleDefinition>)[
+      this.locale
+    ];
+    if (!definition) {
+      throw new Error(`Unknown faker locale: ${this.locale}`);
+    }
+
+    // 当前语言缺少的数据回退到英文
+    this.faker = new Faker({
+      locale: [definition, allLocales.en, allLocales.base],
+    });
+    this.seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+    this.faker.seed(this.seed);
+  }
+
+  /**
+   * 生成字段值
+   * @param method faker 方法路径，省略时按约束的 type / pattern / options / min / max 推断，
+   *   没有约束时生成姓名
+   * @param constraints 字段约束，生成的文本会截断或补齐到 minLength / maxLength
+   */
+  generate(method?: string, constraints?: FieldConstraints): string {
+    const value =
+      method || !constraints
+        ? this.format(this.call(method || "name"))
+        : this.fromConstraints(constraints);
+    return this.fitLength(value, constraints);
+  }
+
+  /**
+   * 按路径调用 faker 方法，允许带 `faker.` 前缀
+   */
+  private call(method: string): unknown {
+    const path = ALIASES[method] ?? method.replace(/^faker\./, "");
+    let owner: any = null;
+    let target: any = this.faker;
+    for (const key of path.split(".")) {
+      owner = target;
+      target = target?.[key];
+    }
+    if (typeof target !== "function") {
+      throw new Error(`Unknown faker method: ${method}`);
+    }
+    return target.call(owner);
+  }
+
+  private fromConstraints(constraints: FieldConstraints): string {
+    const type = constraints.type;
+
+    if (constraints.options?.length) {
+      return this.faker.helpers.arrayElement(constraints.options).value;
+    }
+    if (constraints.pattern) {
+      try {
+        return this.faker.helpers.fromRegExp(
+          TestDataGenerator.expandClasses(constraints.pattern),
+        );
+      } catch {
+        // faker 不支持的正则语法，按类型生成
+      }
+    }
+    if (type === "number" || type === "range") {
+      const min = this.parseNumber(constraints.min) ?? 0;
+      const max = this.parseNumber(constraints.max) ?? Math.max(min, 100);
+      return String(this.faker.number.int({ min, max }));
+    }
+    if (type === "checkbox") {
+      return String(this.faker.datatype.boolean());
+    }
+
+    const dateFormat = DATE_FORMATS[type];
+    if (dateFormat) {
+      const from = this.parseDate(constraints.min, -365);
+      const to = this.parseDate(constraints.max, 365);
+      return this.faker.date
+        .between({ from, to: to < from ? from : to })
+        .toISOString()
+        .substring(...dateFormat);
+    }
+
+    const method = TYPE_METHODS[type];
+    if (method) {
+      return this.format(this.call(method));
+    }
+
+    return this.faker.lorem.words({ min: 1, max: 3 });
+  }
+
+  /**
+   * 截断或补齐到 minLength / maxLength
+   */
+  private fitLength(value: string, constraints?: FieldConstraints): string {
+    let result = value;
+    if (
+      constraints?.maxLength !== undefined &&
+      result.length > constraints.maxLength
+    ) {
+      result = result.substring(0, constraints.maxLength);
+    }
+    if (
+      constraints?.minLength !== undefined &&
+      result.length < constraints.minLength
+    ) {
+      result += this.faker.string.alpha(constraints.minLength - result.length);
+    }
+    return result;
+  }
+
+  private format(value: unknown): string {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === "object" && value !== null) {
+      return JSON.stringify(value);
+    }
+    return String(value ?? "");
+  }
+
+  private parseNumber(value?: string): number | undefined {
+    const number = value !== undefined ? Number(value) : NaN;
+    return Number.isFinite(number) ? number : undefined;
+  }
+
+  /**
+   * 解析 min/max 日期，无法解析时取距今 offsetDays 天
+   */
+  private parseDate(value: string | undefined, offsetDays: number): Date {
+    const date = value ? new Date(value) : null;
+    if (date && !Number.isNaN(date.getTime())) {
+      return date;
+    }
+    return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * 把 faker 不识别的 \d、\w、\s 展开为字符集，并去掉首尾锚点
+   */
+  private static expandClasses(pattern: string): string {
+    return pattern
+      .replace(/^\^|\$$/g, "")
+      .replace(/\\d/g, "[0-9]")
+      .replace(/\\w/g, "[a-zA-Z0-9_]")
+      .replace(/\\s/g, " ");
+  }
+
+  /**
+   * 从解读阶段的数据依赖得到字段约束
+   * 解析 InterpretAgent 生成的 `required`、`pattern: ...`、`maxLength: 20`、`options: a, b` 等规则，
+   * 无法识别的规则（LLM 推断的自然语言描述）忽略
+   */
+  static constraintsFromDependency(
+    dependency: DataDependency,
+  ): FieldConstraints {
+    const constraints: FieldConstraints = {
+      type: DATA_TYPE_INPUTS[dependency.dataType],
+      required: false,
+    };
+
+    for (const rule of dependency.validationRules) {
+      const separator = rule.indexOf(":");
+      const key = (separator >= 0 ? rule.substring(0, separator) : rule).trim();
+      const value = separator >= 0 ? rule.substring(separator + 1).trim() : "";
+
+      switch (key) {
+        case "required":
+          constraints.required = true;
+          break;
+        case "pattern":
+          constraints.pattern = value;
+          break;
+        case "min":
+          constraints.min = value;
+          break;
+        case "max":
+          constraints.max = value;
+          break;
+        case "minLength":
+        case "maxLength": {
+          const length = parseInt(value, 10);
+          if (!Number.isNaN(length)) {
+            constraints[key] = length;
+          }
+          break;
+        }
+        case "options":
+          constraints.options = value
+            .split(",")
+            .map((option) => option.trim())
+            .filter(Boolean)
+            .map((option) => ({ value: option, label: option }));
+          break;
+      }
+    }
+
+    return constraints;
+  }
+}
@@ -0,0 +1,187 @@
+import { Region, VisualDiffMethod } from "../../types/schemas";
+import { RgbaImage } from "./PngCodec";
+
+/**
+ * 图像对比参数
+ */
+export interface ImageDiffOptions {
+  method: VisualDiffMethod;
+  /** 单个像素的颜色差异灵敏度 (0-1)，越小越敏感 */
+  colorThreshold: number;
+  /** 忽略的区域 */
+  ignoreRegions?: Region[];
+}
+
+/**
+ * 图像对比结果
+ */
+export interface ImageDiffResult {
+  diffPixels: number;
+  totalPixels: number;
+  diffRatio: number;
+  /** 差异图：淡化的基线 + 红色差异像素 + 黄色忽略区域 */
+  diffImage: RgbaImage;
+}
+
+/**
+ * YIQ 空间中两种颜色的最大差异（黑与白）
+ */
+const MAX_YIQ_DELTA = 35215;
+
+/**
+ * 图像对比
+ * 两张图尺寸不同时按较大的尺寸比较，超出部分计为差异
+ */
+export class ImageDiff {
+  static compare(
+    baseline: RgbaImage,
+    current: RgbaImage,
+    options: ImageDiffOptions,
+  ): ImageDiffResult {
+    const width = Math.max(baseline.width, current.width);
+    const height = Math.max(baseline.height, current.height);
+    const diffImage: RgbaImage = {
+      width,
+      height,
+      data: Buffer.alloc(width * height * 4),
+    };
+    const ignoreMask = this.buildMask(width, height, options.ignoreRegions);
+
+    // 感知对比按 YIQ 差异的平方比较，像素对比按通道差异比较
+    const perceptualLimit =
+      MAX_YIQ_DELTA * options.colorThreshold * options.colorThreshold;
+    const pixelLimit = 255 * options.colorThreshold;
+
+    let diffPixels = 0;
+    let totalPixels = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const out = i * 4;
+        const a = this.pixelAt(baseline, x, y);
+        const b = this.pixelAt(current, x, y);
+
+        if (ignoreMask[i]) {
+          this.paint(diffImage, out, [255, 230, 120]);
+          continue;
+        }
+        totalPixels++;
+
+        const different =
+          !a ||
+          !b ||
+          (options.method === "perceptual"
+            ? this.yiqDelta(a, b) > perceptualLimit
+            : this.channelDelta(a, b) > pixelLimit);
+
+        if (different) {
+          diffPixels++;
+          this.paint(diffImage, out, [255, 0, 0]);
+        } else {
+          // 淡化的灰度基线，便于定位差异
+          const gray = 255 - (255 - this.luminance(a)) * 0.1;
+          this.paint(diffImage, out, [gray, gray, gray]);
+        }
+      }
+    }
+
+    return {
+      diffPixels,
+      totalPixels,
+      diffRatio: totalPixels > 0 ? diffPixels / totalPixels : 0,
+      diffImage,
+    };
+  }
+
+  /**
+   * 忽略区域的像素掩码
+   */
+  private static buildMask(
+    width: number,
+    height: number,
+    regions: Region[] = [],
+  ): Uint8Array {
+    const mask = new Uint8Array(width * height);
+    for (const region of regions) {
+      const x0 = Math.max(0, Math.floor(region.x));
+      const y0 = Math.max(0, Math.floor(region.y));
+      const x1 = Math.min(width, Math.ceil(region.x + region.width));
+      const y1 = Math.min(height, Math.ceil(region.y + region.height));
+      for (let y = y0; y < y1; y++) {
+        mask.fill(1, y * width + x0, y * width + Math.max(x0, x1));
+      }
+    }
+    return mask;
+  }
+
+  /**
+   * 读取像素，与白色背景混合 alpha；超出图像范围时返回 null
+   */
+  private static pixelAt(
+    image: RgbaImage,
+    x: number,
+    y: number,
+  ): [number, number, number] | null {
+    if (x >= image.width || y >= image.height) {
+      return null;
+    }
+    const i = (y * image.width + x) * 4;
+    const alpha = image.data[i + 3]! / 255;
+    const blend = (value: number) => 255 + (value - 255) * alpha;
+    return [
+      blend(image.data[i]!),
+      blend(image.data[i + 1]!),
+      blend(image.data[i + 2]!),
+    ];
+  }
+
+  private static channelDelta(
+    a: [number, number, number],
+    b: [number, number, number],
+  ): number {
+    return Math.max(
+      Math.abs(a[0] - b[0]),
+      Math.abs(a[1] - b[1]),
+      Math.abs(a[2] - b[2]),
+    );
+  }
+
+  /**
+   * YIQ 色彩空间的加权平方差（亮度差异权重最高）
+   */
+  private static yiqDelta(
+    a: [number, number, number],
+    b: [number, number, number],
+  ): number {
+    const [r1, g1, b1] = a;
+    const [r2, g2, b2] = b;
+    const y = this.luminance(a) - this.luminance(b);
+    const i =
+      r1 * 0.59597799 -
+      g1 * 0.2741761 -
+      b1 * 0.32180189 -
+      (r2 * 0.59597799 - g2 * 0.2741761 - b2 * 0.32180189);
+    const q =
+      r1 * 0.21147017 -
+      g1 * 0.52261711 +
+      b1 * 0.31114694 -
+      (r2 * 0.21147017 - g2 * 0.52261711 + b2 * 0.31114694);
+    return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+  }
+
+  private static luminance([r, g, b]: [number, number, number]): number {
+    return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+  }
+
+  private static paint(
+    image: RgbaImage,
+    offset: number,
+    [r, g, b]: [number, number, number],
+  ): void {
+    image.data[offset] = r;
+    image.data[offset + 1] = g;
+    image.data[offset + 2] = b;
+    image.data[offset + 3] = 255;
+  }
+}
@@ -0,0 +1,181 @@
+import * as zlib from "zlib";
+
+/**
+ * RGBA 图像，每个像素 4 字节
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+/**
+ * 每种颜色类型的通道数（灰度、RGB、灰度 + alpha、RGBA）
+ */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Paeth 预测
+ */
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * PNG 编解码
+ * 只支持浏览器截图使用的格式：8 位深度、非隔行的灰度/RGB/RGBA 图像
+ */
+export class PngCodec {
+  /**
+   * 解码 PNG 为 RGBA
+   */
+  static decode(buffer: Buffer): RgbaImage {
+    if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+      throw new Error("Not a PNG image");
+    }
+
+    let width = 0;
+    let height = 0;
+    let colorType = 0;
+    const idat: Buffer[] = [];
+
+    for (let offset = 8; offset < buffer.length;) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString("ascii", offset + 4, offset + 8);
+      const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+      offset += 12 + length;
+
+      if (type === "IHDR") {
+        width = chunk.readUInt32BE(0);
+        height = chunk.readUInt32BE(4);
+        const bitDepth = chunk[8];
+        colorType = chunk[9]!;
+        const interlace = chunk[12];
+        if (bitDepth !== 8 || interlace !== 0 || !CHANNELS[colorType]) {
+          throw new Error(
+            `Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`,
+          );
+        }
+      } else if (type === "IDAT") {
+        idat.push(chunk);
+      } else if (type === "IEND") {
+        break;
+      }
+    }
+
+    const channels = CHANNELS[colorType]!;
+    const stride = width * channels;
+    const raw = zlib.inflateSync(Buffer.concat(idat));
+    const pixels = Buffer.alloc(stride * height);
+
+    // 逐行反向滤波
+    for (let y = 0; y < height; y++) {
+      const filter = raw[y * (stride + 1)];
+      const source = y * (stride + 1) + 1;
+      const target = y * stride;
+      for (let x = 0; x < stride; x++) {
+        const value = raw[source + x]!;
+        const left = x >= channels ? pixels[target + x - channels]! : 0;
+        const up = y > 0 ? pixels[target + x - stride]! : 0;
+        const upLeft =
+          y > 0 && x >= channels ? pixels[target + x - stride - channels]! : 0;
+        let predicted = 0;
+        switch (filter) {
+          case 1:
+            predicted = left;
+            break;
+          case 2:
+            predicted = up;
+            break;
+          case 3:
+            predicted = (left + up) >> 1;
+            break;
+          case 4:
+            predicted = paeth(left, up, upLeft);
+            break;
+        }
+        pixels[target + x] = (value + predicted) & 0xff;
+      }
+    }
+
+    // 转换为 RGBA
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const p = i * channels;
+      const q = i * 4;
+      if (channels <= 2) {
+        data[q] = data[q + 1] = data[q + 2] = pixels[p]!;
+        data[q + 3] = channels === 2 ? pixels[p + 1]! : 255;
+      } else {
+        data[q] = pixels[p]!;
+        data[q + 1] = pixels[p + 1]!;
+        data[q + 2] = pixels[p + 2]!;
+        data[q + 3] = channels === 4 ? pixels[p + 3]! : 255;
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  /**
+   * 编码 RGBA 为 PNG（不使用滤波）
+   */
+  static encode(image: RgbaImage): Buffer {
+    const stride = image.width * 4;
+    const raw = Buffer.alloc((stride + 1) * image.height);
+    for (let y = 0; y < image.height; y++) {
+      image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(image.width, 0);
+    header.writeUInt32BE(image.height, 4);
+    header[8] = 8;
+    header[9] = 6;
+
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      this.chunk("IHDR", header),
+      this.chunk("IDAT", zlib.deflateSync(raw)),
+      this.chunk("IEND", Buffer.alloc(0)),
+    ]);
+  }
+
+  private static chunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  }
+}
@@ -0,0 +1,366 @@
+import * as crypto from "crypto";
+import { Page } from "playwright";
+import { StorageManager } from "../storage/StorageManager";
+import {
+  Region,
+  VisualCheckResult,
+  VisualDiffMethod,
+  VisualKey,
+  VisualRegressionOptions,
+} from "../../types/schemas";
+import { PngCodec } from "./PngCodec";
+import { ImageDiff } from "./ImageDiff";
+
+/**
+ * 基线索引在全局状态中的键名
+ */
+const BASELINE_INDEX_KEY = "visual_baselines";
+
+/**
+ * 基线索引条目
+ */
+interface BaselineEntry {
+  key: VisualKey;
+  file: string;
+  ignoreRegions: Region[];
+  updatedAt: string;
+  /** 与基线不一致、等待批准的截图 */
+  pending?: {
+    file: string;
+    ignoreRegions: Region[];
+    capturedAt: string;
+    diffRatio: number;
+    diff?: string;
+  };
+}
+
+/**
+ * 待批准的截图
+ */
+export interface PendingBaseline {
+  id: string;
+  key: VisualKey;
+  capturedAt: string;
+  diffRatio: number;
+  diff?: string;
+}
+
+/**
+ * 视觉基线存储
+ * 按页面路由/工作流步骤 + 视口 + 浏览器保存基线截图，新截图与基线对比：
+ * 首次出现的截图直接成为基线；超过阈值的截图作为待批准版本保存，差异图写入 diffs/，
+ * 通过 `e2e-agents baseline approve` 替换基线
+ */
+export class VisualBaselineStore {
+  private storage: StorageManager;
+  private options: {
+    method: VisualDiffMethod;
+    threshold: number;
+    colorThreshold: number;
+    ignoreSelectors: string[];
+  };
+  private runId: string;
+  private results: VisualCheckResult[] = [];
+  private index: Promise<Record<string, BaselineEntry>> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(storage: StorageManager, options: VisualRegressionOptions = {}) {
+    this.storage = storage;
+    this.options = {
+      method: options.method ?? "perceptual",
+      threshold: options.threshold ?? 0.001,
+      colorThreshold: options.colorThreshold ?? 0.1,
+      ignoreSelectors: options.ignoreSelectors ?? [],
+    };
+    this.runId =
+      new Date().toISOString().replace(/:/g, "-").split(".")[0] + "Z";
+  }
+
+  /**
+   * 基线 ID：可读的键 + 短哈希（避免不同路由清洗后重名）
+   */
+  static baselineId(key: VisualKey): string {
+    const parts = [
+      key.kind,
+      key.name,
+      ...(key.step !== undefined ? [`step${key.step}`] : []),
+      key.viewport,
+      key.browser,
+    ];
+    const slug = parts
+      .join("_")
+      .replace(/[^a-zA-Z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .substring(0, 80);
+    const hash = crypto
+      .createHash("sha1")
+      .update(JSON.stringify(parts))
+      .digest("hex")
+      .substring(0, 8);
+    return `${slug}-${hash}`;
+  }
+
+  /**
+   * 计算选择器匹配的元素在整页截图中的区域
+   */
+  static async computeIgnoreRegions(
+    page: Page,
+    selectors: string[],
+  ): Promise<Region[]> {
+    const regions: Region[] = [];
+    for (const selector of selectors) {
+      try {
+        const rects = await page.locator(selector).evaluateAll((elements) =>
+          elements.map((element) => {
+            const rect = element.getBoundingClientRect();
+            return {
+              x: rect.x + window.scrollX,
+              y: rect.y + window.scrollY,
+              width: rect.width,
+              height: rect.height,
+            };
+          }),
+        );
+        regions.push(...rects.filter((r) => r.width > 0 && r.height > 0));
+      } catch {
+        // 无效的选择器忽略
+      }
+    }
+    return regions;
+  }
+
+  /**
+   * 配置的忽略选择器
+   */
+  getIgnoreSelectors(): string[] {
+    return this.options.ignoreSelectors;
+  }
+
+  /**
+   * 将截图与基线对比
+   * @param currentPath 本次截图已保存的路径
+   */
+  async check(
+    key: VisualKey,
+    screenshot: Buffer,
+    currentPath: string,
+    ignoreRegions: Region[] = [],
+  ): Promise<VisualCheckResult> {
+    const id = VisualBaselineStore.baselineId(key);
+    const filename = `${id}.png`;
+    const index = await this.loadIndex();
+    const entry = index[id];
+    const baseline = entry
+      ? await this.storage.readBaselineFile(entry.file)
+      : null;
+
+    let result: VisualCheckResult;
+
+    if (!entry || !baseline) {
+      // 首次截图，保存为基线
+      const baselinePath = await this.storage.saveBaselineFile(
+        filename,
+        screenshot,
+      );
+      index[id] = {
+        key,
+        file: filename,
+        ignoreRegions,
+        updatedAt: new Date().toISOString(),
+      };
+      result = {
+        baselineId: id,
+        key,
+        status: "new",
+        diffPixels: 0,
+        diffRatio: 0,
+        threshold: this.options.threshold,
+        baseline: baselinePath,
+        current: currentPath,
+      };
+    } else {
+      const diff = ImageDiff.compare(
+        PngCodec.decode(baseline),
+        PngCodec.decode(screenshot),
+        {
+          method: this.options.method,
+          colorThreshold: this.options.colorThreshold,
+          ignoreRegions: [...entry.ignoreRegions, ...ignoreRegions],
+        },
+      );
+      const changed = diff.diffRatio > this.options.threshold;
+
+      result = {
+        baselineId: id,
+        key,
+        status: changed ? "changed" : "match",
+        diffPixels: diff.diffPixels,
+        diffRatio: diff.diffRatio,
+        threshold: this.options.threshold,
+        baseline: this.storage.getBaselinePath(entry.file),
+        current: currentPath,
+      };
+
+      if (changed) {
+        await this.storage.saveBaselineFile(filename, screenshot, true);
+        const diffPath = await this.storage.saveDiffFile(
+          this.runId,
+          filename,
+          PngCodec.encode(diff.diffImage),
+        );
+        result.diff = diffPath;
+        entry.pending = {
+          file: filename,
+          ignoreRegions,
+          capturedAt: new Date().toISOString(),
+          diffRatio: diff.diffRatio,
+          diff: diffPath,
+        };
+      } else if (entry.pending) {
+        // 恢复一致后丢弃待批准版本
+        await this.storage.removePendingBaseline(entry.pending.file);
+        delete entry.pending;
+      }
+    }
+
+    this.results.push(result);
+    await this.saveIndex();
+    return result;
+  }
+
+  /**
+   * 列出待批准的截图
+   */
+  async listPending(): Promise<PendingBaseline[]> {
+    const index = await this.loadIndex();
+    return Object.entries(index)
+      .filter(([, entry]) => entry.pending)
+      .map(([id, entry]) => ({
+        id,
+        key: entry.key,
+        capturedAt: entry.pending!.capturedAt,
+        diffRatio: entry.pending!.diffRatio,
+        ...(entry.pending!.diff && { diff: entry.pending!.diff }),
+      }));
+  }
+
+  /**
+   * 批准待审核的截图，替换为新基线
+   * @param ids 基线 ID，未指定时批准所有待审核截图
+   * @returns 已批准的基线 ID
+   */
+  async approve(ids?: string[]): Promise<string[]> {
+    const index = await this.loadIndex();
+    const targets =
+      ids ?? Object.keys(index).filter((id) => index[id]?.pending);
+
+    const unknown = targets.filter((id) => !index[id]?.pending);
+    if (unknown.length > 0) {
+      throw new Error(`No pending screenshot for: ${unknown.join(", ")}`);
+    }
+
+    const approved: string[] = [];
+    for (const id of targets) {
+      const entry = index[id]!;
+      const pending = entry.pending!;
+      const screenshot = await this.storage.readBaselineFile(
+        pending.file,
+        true,
+      );
+      if (!screenshot) continue;
+
+      await this.storage.saveBaselineFile(entry.file, screenshot);
+      await this.storage.removePendingBaseline(pending.file);
+      entry.ignoreRegions = pending.ignoreRegions;
+      entry.updatedAt = new Date().toISOString();
+      delete entry.pending;
+      approved.push(id);
+    }
+
+    await this.saveIndex();
+    return approved;
+  }
+
+  /**
+   * 本次运行的对比结果
+   */
+  getResults(): VisualCheckResult[] {
+    return [...this.results];
+  }
+
+  /**
+   * 将本次运行的对比摘要写入 diffs/（summary.json 和 summary.md）
+   * @returns 摘要文件路径，没有对比结果时返回 null
+   */
+  async writeSummary(): Promise<string | null> {
+    if (this.results.length === 0) {
+      return null;
+    }
+
+    const count = (status: VisualCheckResult["status"]) =>
+      this.results.filter((r) => r.status === status).length;
+
+    await this.storage.saveDiffFile(
+      this.runId,
+      "summary.json",
+      JSON.stringify(
+        {
+          timestamp: new Date().toISOString(),
+          method: this.options.method,
+          threshold: this.options.threshold,
+          results: this.results,
+        },
+        null,
+        2,
+      ),
+    );
+
+    const lines = [
+      "# 视觉回归摘要",
+      "",
+      `- 对比方式: ${this.options.method}`,
+      `- 阈值: ${(this.options.threshold * 100).toFixed(2)}%`,
+      `- 一致: ${count("match")}，变化: ${count("changed")}，新基线: ${count("new")}`,
+      "",
+      "| 基线 | 状态 | 差异 | 差异图 |",
+      "|------|------|------|--------|",
+      ...this.results.map(
+        (r) =>
+          `| ${r.baselineId} | ${r.status} | ${(r.diffRatio * 100).toFixed(2)}% | ${r.diff ?? "-"} |`,
+      ),
+    ];
+
+    if (count("changed") > 0) {
+      lines.push(
+        "",
+        "确认变化符合预期后运行 `e2e-agents baseline approve <基线ID...>` 更新基线。",
+      );
+    }
+
+    return await this.storage.saveDiffFile(
+      this.runId,
+      "summary.md",
+      lines.join("\n"),
+    );
+  }
+
+  private loadIndex(): Promise<Record<string, BaselineEntry>> {
+    if (!this.index) {
+      this.index = this.storage
+        .loadGlobalState<Record<string, BaselineEntry>>(BASELINE_INDEX_KEY)
+        .then((index) => index ?? {});
+    }
+    return this.index;
+  }
+
+  /**
+   * 保存索引（并发对比时按顺序写入）
+   */
+  private async saveIndex(): Promise<void> {
+    const index = await this.loadIndex();
+    this.saving = this.saving.then(() =>
+      this.storage.saveGlobalState(BASELINE_INDEX_KEY, index),
+    );
+    await this.saving;
+  }
+}
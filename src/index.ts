@@ -6,8 +6,23 @@ export * from './types/config';
 export { StorageManager } from './core/storage/StorageManager';
 export { FileNamingStrategy } from './core/storage/FileNamingStrategy';
 export { LLMProviderManager } from './core/llm/LLMProviderManager';
-export { PlaywrightManager } from './core/playwright/PlaywrightManager';
-export { ConfigLoader } from './core/config/ConfigLoader';
+export { PlaywrightManager, StorageState } from './core/playwright/PlaywrightManager';
+export { LocatorResolver, LocatorRoot, ResolvedLocator } from './core/playwright/LocatorResolver';
+export { AuthManager, LoginRunner } from './core/auth/AuthManager';
+export { NetworkRecorder, NetworkRecorderOptions, Har, HarEntry } from './core/network/NetworkRecorder';
+export { ApiInventory, toPathTemplate } from './core/network/ApiInventory';
+export { NetworkFixtureStore, FixtureDecision, FixtureReport } from './core/network/NetworkFixtureStore';
+export { PngCodec, RgbaImage } from './core/visual/PngCodec';
+export { ImageDiff, ImageDiffOptions, ImageDiffResult } from './core/visual/ImageDiff';
+export { VisualBaselineStore, PendingBaseline } from './core/visual/VisualBaselineStore';
+export { PerformanceCollector, PerformanceMark } from './core/performance/PerformanceCollector';
+export { PerformanceBudgets, BudgetViolation } from './core/performance/PerformanceBudgets';
+export { StepValidator, AssertionPlugin, AssertionContext, AssertionOutcome } from './phases/phase-d-execute/StepValidator';
+export { TestDataGenerator } from './core/testdata/TestDataGenerator';
+export { DatasetLoader, DatasetRow } from './core/testdata/DatasetLoader';
+export { ConfigLoader, ConfigLoadOptions, defineConfig } from './core/config/ConfigLoader';
+export { EventBus, AgentEventMap, AgentEventName, AgentEventListener } from './core/events/EventBus';
+export { LogManager, Logger, LogContext } from './core/logging/LogManager';
 
 // 导出 LLM 提供商
 export { ILLMProvider, ProviderConfig } from './core/llm/ILLMProvider';
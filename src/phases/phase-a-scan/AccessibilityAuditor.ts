@@ -0,0 +1,467 @@
+import { Page } from "playwright";
+import { A11yViolation, AccessibilityAuditOptions } from "../../types/schemas";
+
+/**
+ * 检查键盘陷阱时最多按 Tab 的次数
+ */
+const MAX_TAB_PRESSES = 150;
+
+/**
+ * 可通过 Tab 聚焦的元素
+ */
+const TABBABLE_SELECTOR = [
+  "a[href]",
+  "area[href]",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "iframe",
+  "summary",
+  "audio[controls]",
+  "video[controls]",
+  "[tabindex]",
+  '[contenteditable]:not([contenteditable="false"])',
+].join(", ");
+
+/**
+ * 在页面内执行的审计规则（通过 evaluate 执行）
+ */
+function auditPage(options: {
+  disabledRules: string[];
+  tabbableSelector: string;
+}): A11yViolation[] {
+  const violations = new Map<string, A11yViolation>();
+
+  function report(
+    rule: string,
+    severity: A11yViolation["severity"],
+    description: string,
+    element: Element,
+    detail?: string,
+  ): void {
+    if (options.disabledRules.includes(rule)) return;
+    const violation = violations.get(rule) ?? {
+      rule,
+      severity,
+      description,
+      elements: [],
+    };
+    violation.elements.push({
+      selector: cssPath(element),
+      snippet: element.outerHTML.replace(/\s+/g, " ").substring(0, 120),
+      ...(detail && { detail }),
+    });
+    violations.set(rule, violation);
+  }
+
+  // 辅助函数：查询元素，并递归进入开放的 shadow root
+  function queryAll(root: Document | ShadowRoot, selector: string): Element[] {
+    const found = Array.from(root.querySelectorAll(selector));
+    for (const el of Array.from(root.querySelectorAll("*"))) {
+      if (el.shadowRoot) {
+        found.push(...queryAll(el.shadowRoot, selector));
+      }
+    }
+    return found;
+  }
+
+  // 辅助函数：生成 CSS 路径（与 ElementExtractor 相同，以稳定 id 为锚点）
+  function cssPath(element: Element): string {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const prefix =
+      root instanceof ShadowRoot ? cssPath(root.host) + " >> " : "";
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current && current !== document.documentElement) {
+      if (
+        current.id &&
+        /^[A-Za-z][\w-]*$/.test(current.id) &&
+        !/\d{3,}/.test(current.id)
+      ) {
+        segments.unshift("#" + CSS.escape(current.id));
+        break;
+      }
+
+      let segment = current.tagName.toLowerCase();
+      const siblings = (current.parentNode as ParentNode | null)?.children;
+      if (siblings) {
+        const sameTag = Array.from(siblings).filter(
+          (child) => child.tagName === current!.tagName,
+        );
+        if (sameTag.length > 1) {
+          segment += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+        }
+      }
+      segments.unshift(segment);
+
+      const path = segments.join(" > ");
+      if (root.querySelectorAll(path).length === 1) {
+        return prefix + path;
+      }
+      current = current.parentElement;
+    }
+
+    return prefix + segments.join(" > ");
+  }
+
+  function normalize(text: string | null | undefined): string {
+    return (text ?? "").replace(/\s+/g, " ").trim();
+  }
+
+  function isVisible(element: Element): boolean {
+    const rect = element.getBoundingClientRect();
+    const style = getComputedStyle(element);
+    return (
+      rect.width > 0 &&
+      rect.height > 0 &&
+      style.visibility !== "hidden" &&
+      style.display !== "none"
+    );
+  }
+
+  function isAriaHidden(element: Element): boolean {
+    return element.closest('[aria-hidden="true"]') !== null;
+  }
+
+  function isPresentational(element: Element): boolean {
+    const role = element.getAttribute("role");
+    return role === "presentation" || role === "none";
+  }
+
+  // 辅助函数：aria-label / aria-labelledby / title 指定的名称
+  function getAriaName(element: Element): string {
+    const ariaLabel = normalize(element.getAttribute("aria-label"));
+    if (ariaLabel) return ariaLabel;
+
+    const labelledBy = element.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      const root = element.getRootNode() as Document | ShadowRoot;
+      const name = normalize(
+        labelledBy
+          .split(/\s+/)
+          .map((id) => root.getElementById(id)?.textContent ?? "")
+          .join(" "),
+      );
+      if (name) return name;
+    }
+    return normalize(element.getAttribute("title"));
+  }
+
+  // 辅助函数：元素内容提供的名称（文本和图片的 alt）
+  function getContentName(element: Element): string {
+    const alts = Array.from(element.querySelectorAll("img[alt]")).map((img) =>
+      img.getAttribute("alt"),
+    );
+    return normalize([element.textContent, ...alts].join(" "));
+  }
+
+  function isTabbable(element: Element): boolean {
+    const tabindex = element.getAttribute("tabindex");
+    if (tabindex !== null && parseInt(tabindex, 10) < 0) return false;
+    if ((element as HTMLButtonElement).disabled) return false;
+    if (element instanceof HTMLInputElement && element.type === "hidden") {
+      return false;
+    }
+    return true;
+  }
+
+  // 图片替代文本
+  for (const img of queryAll(document, 'img, input[type="image"], area')) {
+    if (isAriaHidden(img) || isPresentational(img)) continue;
+    if (img.hasAttribute("alt") || getAriaName(img)) continue;
+    report("image-alt", "critical", "图片缺少替代文本 (alt)", img);
+  }
+
+  // 表单控件标签
+  const unlabeledTypes = ["hidden", "submit", "reset", "button", "image"];
+  for (const control of queryAll(document, "input, select, textarea")) {
+    if (
+      control instanceof HTMLInputElement &&
+      unlabeledTypes.includes(control.type)
+    ) {
+      continue;
+    }
+    if (isAriaHidden(control) || !isVisible(control)) continue;
+    const labels = (control as HTMLInputElement).labels;
+    const hasLabel =
+      labels &&
+      Array.from(labels).some((label) => normalize(label.textContent));
+    if (hasLabel || getAriaName(control)) continue;
+    report("label", "critical", "表单控件没有关联的标签", control);
+  }
+
+  // 按钮名称
+  for (const button of queryAll(
+    document,
+    'button, [role="button"], input[type="submit"], input[type="reset"], input[type="button"]',
+  )) {
+    if (isAriaHidden(button) || !isVisible(button)) continue;
+    const value =
+      button instanceof HTMLInputElement
+        ? normalize(button.value) ||
+          (button.type !== "button" ? button.type : "")
+        : "";
+    if (value || getAriaName(button) || getContentName(button)) continue;
+    report("button-name", "critical", "按钮没有可访问名称", button);
+  }
+
+  // 链接名称
+  for (const link of queryAll(document, "a[href]")) {
+    if (isAriaHidden(link) || !isVisible(link)) continue;
+    if (getAriaName(link) || getContentName(link)) continue;
+    report("link-name", "serious", "链接没有可访问名称", link);
+  }
+
+  // 颜色对比度（WCAG AA：普通文本 4.5:1，大号文本 3:1）
+  function parseColor(value: string): [number, number, number, number] | null {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match) return null;
+    const parts = match[1]!.split(/[\s,/]+/).filter((p) => p);
+    const [r, g, b] = parts.slice(0, 3).map((p) => parseFloat(p));
+    const a = parts[3] !== undefined ? parseFloat(parts[3]) : 1;
+    if ([r, g, b, a].some((n) => n === undefined || isNaN(n))) return null;
+    return [r!, g!, b!, a];
+  }
+
+  function blend(
+    top: [number, number, number, number],
+    bottom: [number, number, number],
+  ): [number, number, number] {
+    const a = top[3];
+    return [
+      top[0] * a + bottom[0] * (1 - a),
+      top[1] * a + bottom[1] * (1 - a),
+      top[2] * a + bottom[2] * (1 - a),
+    ];
+  }
+
+  // 辅助函数：逐层合成背景色，遇到背景图片时无法确定，返回 null
+  function getBackground(element: Element): [number, number, number] | null {
+    const layers: Array<[number, number, number, number]> = [];
+    for (
+      let current: Element | null = element;
+      current;
+      current =
+        current.parentElement ??
+        ((current.getRootNode() as ShadowRoot).host || null)
+    ) {
+      const style = getComputedStyle(current);
+      if (style.backgroundImage !== "none") return null;
+      const color = parseColor(style.backgroundColor);
+      if (color && color[3] > 0) {
+        layers.push(color);
+        if (color[3] >= 1) break;
+      }
+    }
+    return layers
+      .reverse()
+      .reduce<[number, number, number]>(
+        (bottom, layer) => blend(layer, bottom),
+        [255, 255, 255],
+      );
+  }
+
+  function luminance([r, g, b]: [number, number, number]): number {
+    const [lr, lg, lb] = [r, g, b].map((c) => {
+      const s = c / 255;
+      return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * lr! + 0.7152 * lg! + 0.0722 * lb!;
+  }
+
+  for (const element of queryAll(document, "*")) {
+    const hasText = Array.from(element.childNodes).some(
+      (node) => node.nodeType === Node.TEXT_NODE && normalize(node.textContent),
+    );
+    if (!hasText || !isVisible(element) || isAriaHidden(element)) continue;
+    if ((element as HTMLButtonElement).disabled) continue;
+
+    const style = getComputedStyle(element);
+    if (parseFloat(style.opacity) === 0) continue;
+    const background = getBackground(element);
+    const color = parseColor(style.color);
+    if (!background || !color) continue;
+
+    const foreground = blend(color, background);
+    const [light, dark] = [luminance(foreground), luminance(background)].sort(
+      (a, b) => b - a,
+    );
+    const ratio = (light! + 0.05) / (dark! + 0.05);
+    const size = parseFloat(style.fontSize);
+    const bold = parseInt(style.fontWeight, 10) >= 700;
+    const large = size >= 24 || (bold && size >= 18.66);
+    const required = large ? 3 : 4.5;
+    if (ratio < required) {
+      report(
+        "color-contrast",
+        "serious",
+        "文本与背景的对比度不足",
+        element,
+        `对比度 ${ratio.toFixed(2)}:1，要求 ${required}:1`,
+      );
+    }
+  }
+
+  // 标题层级（不应跳级，如 h2 之后直接出现 h4）
+  let previousLevel = 0;
+  for (const heading of queryAll(
+    document,
+    'h1, h2, h3, h4, h5, h6, [role="heading"]',
+  )) {
+    if (isAriaHidden(heading) || !isVisible(heading)) continue;
+    const level = /^h\d$/i.test(heading.tagName)
+      ? parseInt(heading.tagName.substring(1), 10)
+      : parseInt(heading.getAttribute("aria-level") ?? "2", 10);
+    if (previousLevel > 0 && level > previousLevel + 1) {
+      report(
+        "heading-order",
+        "moderate",
+        "标题层级跳级",
+        heading,
+        `h${previousLevel} 之后出现 h${level}`,
+      );
+    }
+    previousLevel = level;
+  }
+
+  // aria-hidden 区域内的可聚焦元素（屏幕阅读器无法感知，但键盘可以聚焦）
+  for (const element of queryAll(document, options.tabbableSelector)) {
+    if (isAriaHidden(element) && isTabbable(element)) {
+      report(
+        "aria-hidden-focus",
+        "serious",
+        "aria-hidden 区域内包含可聚焦元素",
+        element,
+      );
+    }
+  }
+
+  // 文档标题和语言
+  if (!normalize(document.title)) {
+    report(
+      "document-title",
+      "serious",
+      "页面缺少 <title>",
+      document.documentElement,
+    );
+  }
+  if (!normalize(document.documentElement.getAttribute("lang"))) {
+    report(
+      "html-has-lang",
+      "serious",
+      "<html> 缺少 lang 属性",
+      document.documentElement,
+    );
+  }
+
+  return Array.from(violations.values());
+}
+
+/**
+ * 无障碍审计
+ * 在扫描的页面上执行与 axe-core 同名的常用规则（图片替代文本、表单标签、
+ * 按钮和链接名称、颜色对比度、标题层级、aria-hidden 内的可聚焦元素、
+ * 文档标题和语言），并模拟 Tab 键检查键盘陷阱
+ */
+export class AccessibilityAuditor {
+  private disabledRules: string[];
+  private keyboard: boolean;
+
+  constructor(options: AccessibilityAuditOptions = {}) {
+    this.disabledRules = options.disabledRules ?? [];
+    this.keyboard = options.keyboard ?? true;
+  }
+
+  /**
+   * 审计页面，返回按规则归并的问题
+   */
+  async audit(page: Page): Promise<A11yViolation[]> {
+    const violations = await page.evaluate(auditPage, {
+      disabledRules: this.disabledRules,
+      tabbableSelector: TABBABLE_SELECTOR,
+    });
+
+    if (this.keyboard && !this.disabledRules.includes("keyboard-trap")) {
+      const trap = await this.checkKeyboardTrap(page).catch(() => null);
+      if (trap) {
+        violations.push(trap);
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * 从页面开头连续按 Tab：焦点按顺序经过所有元素后会回到 body，
+   * 按键次数超过可聚焦元素数量仍在少数元素间循环时判定为键盘陷阱
+   */
+  private async checkKeyboardTrap(page: Page): Promise<A11yViolation | null> {
+    // 包括开放 shadow root 中的元素
+    const tabbableCount = await page.evaluate((selector) => {
+      const count = (root: Document | ShadowRoot): number =>
+        root.querySelectorAll(selector).length +
+        Array.from(root.querySelectorAll("*"))
+          .map((el) => (el.shadowRoot ? count(el.shadowRoot) : 0))
+          .reduce((sum, n) => sum + n, 0);
+      return count(document);
+    }, TABBABLE_SELECTOR);
+    if (tabbableCount < 2) {
+      return null;
+    }
+
+    await page.evaluate(() =>
+      (document.activeElement as HTMLElement | null)?.blur(),
+    );
+
+    const visited: Array<{ selector: string; snippet: string }> = [];
+    const presses = Math.min(tabbableCount * 2 + 5, MAX_TAB_PRESSES);
+    try {
+      for (let i = 0; i < presses; i++) {
+        await page.keyboard.press("Tab");
+        const active = await page.evaluate(() => {
+          const element = document.activeElement;
+          if (!element || element === document.body) return null;
+          return {
+            tag: element.tagName.toLowerCase(),
+            selector: element.id
+              ? `#${CSS.escape(element.id)}`
+              : `${element.tagName.toLowerCase()}:nth-of-type(${
+                  Array.from(element.parentElement?.children ?? [])
+                    .filter((child) => child.tagName === element.tagName)
+                    .indexOf(element) + 1
+                })`,
+            snippet: element.outerHTML.replace(/\s+/g, " ").substring(0, 120),
+          };
+        });
+        // 焦点离开页面内容，没有陷阱
+        if (!active) return null;
+        // 焦点进入 iframe 后无法在主页面判断
+        if (active.tag === "iframe") return null;
+        visited.push(active);
+      }
+    } finally {
+      await page
+        .evaluate(() => (document.activeElement as HTMLElement | null)?.blur())
+        .catch(() => undefined);
+    }
+
+    // 陷阱所在的元素：最后一段按键中反复获得焦点的元素
+    const trapped = new Map(
+      visited
+        .slice(-tabbableCount)
+        .map((item) => [`${item.selector} ${item.snippet}`, item]),
+    );
+    return {
+      rule: "keyboard-trap",
+      severity: "serious",
+      description: "键盘焦点被困在部分元素中，无法用 Tab 离开",
+      elements: Array.from(trapped.values()).map((item) => ({
+        selector: item.selector,
+        snippet: item.snippet,
+        detail: `按 Tab ${presses} 次后焦点仍未离开`,
+      })),
+    };
+  }
+}
@@ -0,0 +1,216 @@
+import { CrawlPolicyOptions } from "../../types/schemas";
+import { globToRegExp } from "../../core/utils/glob";
+
+/**
+ * 默认的危险 URL（访问可能产生副作用），始终跳过
+ */
+const DEFAULT_DENYLIST = [
+  "logout",
+  "log-out",
+  "signout",
+  "sign-out",
+  "delete",
+  "remove",
+  "destroy",
+  "unsubscribe",
+].map((word) => `**/*${word}**`);
+
+/**
+ * 匹配 robots.txt 规则时使用的 User-agent
+ */
+const ROBOTS_USER_AGENT = "e2e-agents";
+
+/**
+ * robots.txt 规则
+ */
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  /** 规则路径长度，最长匹配优先 */
+  length: number;
+}
+
+/**
+ * 爬取策略
+ * 统一控制路由发现和页面扫描的范围：include/exclude、危险 URL、
+ * robots.txt Disallow、页面数和深度上限以及按主机的访问间隔
+ */
+export class CrawlPolicy {
+  readonly maxPages: number;
+  readonly maxDepth: number;
+  readonly respectRobots: boolean;
+
+  private include: Array<{ glob: string; regex: RegExp }>;
+  private exclude: Array<{ glob: string; regex: RegExp }>;
+  private denylist: Array<{ glob: string; regex: RegExp }>;
+  private delayMs: number;
+  private robotsRules: Map<string, RobotsRule[]> = new Map();
+  private lastVisit: Map<string, number> = new Map();
+
+  constructor(
+    options: CrawlPolicyOptions & {
+      maxPages?: number | undefined;
+      maxDepth?: number | undefined;
+    } = {},
+  ) {
+    const compile = (globs: string[]) =>
+      globs.map((glob) => ({ glob, regex: globToRegExp(glob) }));
+
+    this.maxPages = options.maxPages ?? 10;
+    this.maxDepth = options.maxDepth ?? 2;
+    this.respectRobots = options.respectRobots ?? true;
+    this.delayMs = options.delayMs ?? 500;
+    this.include = compile(options.include ?? []);
+    this.exclude = compile(options.exclude ?? []);
+    this.denylist = compile([...DEFAULT_DENYLIST, ...(options.denylist ?? [])]);
+  }
+
+  /**
+   * 是否允许访问该 URL
+   */
+  isAllowed(url: string): boolean {
+    return this.getBlockReason(url) === null;
+  }
+
+  /**
+   * 获取 URL 被跳过的原因，允许访问时返回 null
+   */
+  getBlockReason(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return "invalid URL";
+    }
+
+    const matches = (rule: { glob: string; regex: RegExp }) =>
+      rule.regex.test(
+        rule.glob.includes("://") ? parsed.href : parsed.pathname,
+      );
+
+    const denied = this.denylist.find(matches);
+    if (denied) {
+      return `denylist ${denied.glob}`;
+    }
+    if (this.include.length > 0 && !this.include.some(matches)) {
+      return "not included";
+    }
+    const excluded = this.exclude.find(matches);
+    if (excluded) {
+      return `excluded by ${excluded.glob}`;
+    }
+    if (this.respectRobots && this.isDisallowedByRobots(parsed)) {
+      return "robots.txt Disallow";
+    }
+    return null;
+  }
+
+  /**
+   * 按主机限速：距上次访问同一主机不足 delayMs 时等待
+   * 访问时间在等待前预留，并发调用时依次错开
+   */
+  async throttle(url: string): Promise<void> {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      return;
+    }
+
+    const now = Date.now();
+    const last = this.lastVisit.get(host);
+    const next = last === undefined ? now : Math.max(now, last + this.delayMs);
+    this.lastVisit.set(host, next);
+
+    if (next > now) {
+      await new Promise((resolve) => setTimeout(resolve, next - now));
+    }
+  }
+
+  /**
+   * 载入站点的 robots.txt
+   * 使用匹配 e2e-agents 的规则组，没有时使用 `User-agent: *`
+   */
+  setRobotsTxt(url: string, content: string): void {
+    const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+    let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+    // 当前规则组是否已出现 Allow/Disallow 行（包括空的 Disallow）
+    let seenRule = false;
+
+    for (const rawLine of content.split("\n")) {
+      // 空行结束当前规则组
+      if (!rawLine.trim()) {
+        current = null;
+        continue;
+      }
+
+      const line = rawLine.replace(/#.*$/, "").trim();
+      const separator = line.indexOf(":");
+      if (separator === -1) continue;
+
+      const field = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      if (field === "user-agent") {
+        // 规则之后出现的 User-agent 开始新的规则组
+        if (!current || seenRule) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+          seenRule = false;
+        }
+        current.agents.push(value.toLowerCase());
+      } else if ((field === "allow" || field === "disallow") && current) {
+        seenRule = true;
+        // 空的 Disallow 表示允许所有
+        if (!value) continue;
+        current.rules.push({
+          allow: field === "allow",
+          pattern: this.robotsPatternToRegExp(value),
+          length: value.length,
+        });
+      }
+    }
+
+    const group =
+      groups.find((g) =>
+        g.agents.some((agent) => agent === ROBOTS_USER_AGENT),
+      ) ?? groups.find((g) => g.agents.includes("*"));
+
+    this.robotsRules.set(new URL(url).host, group?.rules ?? []);
+  }
+
+  /**
+   * 按 robots.txt 规则判断是否禁止访问（最长匹配优先，长度相同时 Allow 优先）
+   */
+  private isDisallowedByRobots(url: URL): boolean {
+    const rules = this.robotsRules.get(url.host);
+    if (!rules) return false;
+
+    const path = `${url.pathname}${url.search}`;
+    let best: RobotsRule | null = null;
+    for (const rule of rules) {
+      if (!rule.pattern.test(path)) continue;
+      if (
+        !best ||
+        rule.length > best.length ||
+        (rule.length === best.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+
+    return best !== null && !best.allow;
+  }
+
+  /**
+   * 将 robots.txt 路径规则转换为正则（支持 * 和结尾的 $）
+   */
+  private robotsPatternToRegExp(pattern: string): RegExp {
+    const anchored = pattern.endsWith("$");
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${body}${anchored ? "$" : ""}`);
+  }
+}
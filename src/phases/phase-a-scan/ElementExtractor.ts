@@ -1,136 +1,805 @@
-import { Page } from "playwright";
-import { ElementInfo } from "../../types/schemas";
+import { Frame, Page } from "playwright";
+import {
+  ElementExtractionMode,
+  ElementInfo,
+  FormModel,
+  LocatorCandidate,
+} from "../../types/schemas";
+import { LocatorResolver } from "../../core/playwright/LocatorResolver";
+
+/**
+ * 页面内提取的元素（定位器候选尚未检查唯一性）
+ */
+type RawElement = Omit<ElementInfo, "locators"> & {
+  locators: Array<Omit<LocatorCandidate, "unique">>;
+};
+
+/**
+ * 生成 iframe 元素在其所在文档中的选择器（在页面内执行）
+ */
+function describeFrameElement(frame: Element): string {
+  const tag = frame.tagName.toLowerCase();
+  const candidates: string[] = [];
+
+  const name = frame.getAttribute("name");
+  if (name) candidates.push(`${tag}[name="${CSS.escape(name)}"]`);
+  if (frame.id) candidates.push(`${tag}#${CSS.escape(frame.id)}`);
+  const title = frame.getAttribute("title");
+  if (title) candidates.push(`${tag}[title="${CSS.escape(title)}"]`);
+  const src = frame.getAttribute("src");
+  if (src) candidates.push(`${tag}[src="${CSS.escape(src)}"]`);
+
+  const unique = candidates.find(
+    (selector) => document.querySelectorAll(selector).length === 1,
+  );
+  if (unique) return unique;
+
+  const index = Array.from(document.querySelectorAll(tag)).indexOf(frame);
+  return `${tag} >> nth=${Math.max(index, 0)}`;
+}
+
+/**
+ * 在页面内收集交互元素和表单模型（通过 evaluate 在各个 frame 中执行）
+ */
+function collectPage(mode: ElementExtractionMode): {
+  elements: RawElement[];
+  forms: FormModel[];
+} {
+  const results: any[] = [];
+
+  // 可操作的控件角色
+  const WIDGET_ROLES = [
+    "button",
+    "link",
+    "checkbox",
+    "switch",
+    "radio",
+    "tab",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "option",
+    "combobox",
+    "listbox",
+    "textbox",
+    "searchbox",
+    "slider",
+    "spinbutton",
+    "treeitem",
+  ];
+
+  // 地标角色
+  const LANDMARK_ROLES = [
+    "banner",
+    "complementary",
+    "contentinfo",
+    "form",
+    "main",
+    "navigation",
+    "region",
+    "search",
+  ];
+
+  // 选择所有可交互元素
+  const selectors = [
+    "button",
+    "a",
+    "input",
+    "textarea",
+    "select",
+    '[role="button"]',
+    '[role="link"]',
+    "[onclick]",
+    "form",
+  ];
+
+  const allElements =
+    mode === "accessibility"
+      ? queryAll(document, "*").filter(
+          (el) =>
+            el !== document.documentElement &&
+            el !== document.body &&
+            isActionable(el as HTMLElement),
+        )
+      : queryAll(document, selectors.join(", "));
+
+  allElements.forEach((el) => {
+    const rect = el.getBoundingClientRect();
+
+    // 只提取可见的元素
+    if (
+      rect.width > 0 &&
+      rect.height > 0 &&
+      (mode !== "accessibility" || !isAriaHidden(el))
+    ) {
+      const element = el as HTMLElement;
+
+      // 生成稳定的 CSS 选择器
+      const selector = generateCssPath(element);
+
+      // 提取属性
+      const attributes: Record<string, string> = {};
+      for (let i = 0; i < element.attributes.length; i++) {
+        const attr = element.attributes[i];
+        if (attr) {
+          attributes[attr.name] = attr.value!;
+        }
+      }
+
+      // 判断元素类型
+      const role = getRole(element);
+      const elementType = getElementType(element, role);
+      const accessibleName = getAccessibleName(element);
+      const states = getStates(element, role);
+      const landmark = getLandmark(element);
+
+      results.push({
+        selector,
+        locators: generateLocators(element, selector),
+        tagName: element.tagName.toLowerCase(),
+        text: element.textContent?.trim().substring(0, 100) || undefined,
+        attributes,
+        boundingBox: {
+          x: Math.round(rect.x),
+          y: Math.round(rect.y),
+          width: Math.round(rect.width),
+          height: Math.round(rect.height),
+        },
+        isInteractive: true,
+        elementType,
+        ...(role && { role }),
+        ...(accessibleName && { accessibleName }),
+        ...(Object.keys(states).length > 0 && { states }),
+        ...(landmark && { landmark }),
+      });
+    }
+  });
+
+  // 辅助函数：查询元素，并递归进入开放的 shadow root
+  function queryAll(root: Document | ShadowRoot, selector: string): Element[] {
+    const found = Array.from(root.querySelectorAll(selector));
+    for (const el of Array.from(root.querySelectorAll("*"))) {
+      if (el.shadowRoot) {
+        found.push(...queryAll(el.shadowRoot, selector));
+      }
+    }
+    return found;
+  }
+
+  // 辅助函数：规范化空白
+  function normalize(text: string | null | undefined): string {
+    return (text ?? "").replace(/\s+/g, " ").trim();
+  }
+
+  // 辅助函数：判断 id 是否稳定（排除框架生成的 id）
+  function isStableId(id: string): boolean {
+    return (
+      /^[A-Za-z][\w-]*$/.test(id) &&
+      !/\d{3,}/.test(id) &&
+      !/^(ember|react|radix|headlessui|mui|rc_|:)/i.test(id)
+    );
+  }
+
+  // 辅助函数：生成稳定的 CSS 路径
+  // 不使用 class（CSS Modules 等会生成哈希类名），以稳定 id 为锚点；
+  // shadow root 内的元素以 `宿主路径 >> 内部路径` 表示（Playwright 的选择器链会穿透 shadow root）
+  function generateCssPath(element: Element): string {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const prefix =
+      root instanceof ShadowRoot ? generateCssPath(root.host) + " >> " : "";
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current && current !== document.documentElement) {
+      const tag = current.tagName.toLowerCase();
+
+      if (current.id && isStableId(current.id)) {
+        segments.unshift("#" + CSS.escape(current.id));
+        break;
+      }
+
+      let segment = tag;
+      const name = current.getAttribute("name");
+      if (name) {
+        segment += `[name="${CSS.escape(name)}"]`;
+      }
+
+      const parent: Element | null = current.parentElement;
+      const siblings = (current.parentNode as ParentNode | null)?.children;
+      if (siblings) {
+        const sameTag = Array.from(siblings).filter(
+          (child) => child.tagName === current!.tagName,
+        );
+        if (sameTag.length > 1) {
+          segment += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+        }
+      }
+
+      segments.unshift(segment);
+
+      // 在所在的 document 或 shadow root 中已经唯一时停止
+      const path = segments.join(" > ");
+      if (root.querySelectorAll(path).length === 1) {
+        return prefix + path;
+      }
+
+      current = parent;
+    }
+
+    return prefix + segments.join(" > ");
+  }
+
+  // 辅助函数：生成 XPath
+  function generateXPath(element: Element): string {
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current && current.nodeType === Node.ELEMENT_NODE) {
+      if (current.id && isStableId(current.id)) {
+        segments.unshift(`//*[@id="${current.id}"]`);
+        return segments.join("/");
+      }
+
+      const tag = current.tagName.toLowerCase();
+      const parent: Element | null = current.parentElement;
+      let index = 1;
+      if (parent) {
+        const sameTag = Array.from(parent.children).filter(
+          (child) => child.tagName === current!.tagName,
+        );
+        index = sameTag.indexOf(current) + 1;
+      }
+      segments.unshift(`${tag}[${index}]`);
+      current = parent;
+    }
+
+    return "/" + segments.join("/");
+  }
+
+  // 辅助函数：获取 ARIA 角色（显式或隐式）
+  function getRole(element: HTMLElement): string | null {
+    const explicit = element.getAttribute("role");
+    if (explicit) {
+      return explicit.split(" ")[0] || null;
+    }
+
+    const tag = element.tagName.toLowerCase();
+    if (tag === "a" && element.hasAttribute("href")) return "link";
+    if (tag === "button" || tag === "summary") return "button";
+    if (tag === "option") return "option";
+    if (tag === "form") return "form";
+    if (tag === "nav") return "navigation";
+    if (tag === "main") return "main";
+    if (tag === "aside") return "complementary";
+    if (
+      (tag === "header" || tag === "footer") &&
+      !element.parentElement?.closest("article, aside, main, nav, section")
+    ) {
+      return tag === "header" ? "banner" : "contentinfo";
+    }
+    if (tag === "section" && getAriaName(element)) return "region";
+    if (element.isContentEditable) return "textbox";
+    if (tag === "textarea") return "textbox";
+    if (tag === "select") {
+      const select = element as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? "listbox" : "combobox";
+    }
+    if (tag === "input") {
+      const type = (element as HTMLInputElement).type;
+      if (["button", "submit", "reset", "image"].includes(type)) {
+        return "button";
+      }
+      if (type === "checkbox") return "checkbox";
+      if (type === "radio") return "radio";
+      if (type === "range") return "slider";
+      if (type === "number") return "spinbutton";
+      if (type === "search") return "searchbox";
+      if (["text", "email", "tel", "url", ""].includes(type)) {
+        return "textbox";
+      }
+    }
+    return null;
+  }
+
+  // 辅助函数：获取标签文本
+  function getLabelText(element: HTMLElement): string {
+    const labels = (element as HTMLInputElement).labels;
+    return labels && labels[0] ? normalize(labels[0].textContent) : "";
+  }
+
+  // 辅助函数：获取 aria-label / aria-labelledby 指定的名称
+  function getAriaName(element: HTMLElement): string {
+    const ariaLabel = element.getAttribute("aria-label");
+    if (ariaLabel) return normalize(ariaLabel);
+
+    const labelledBy = element.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      return normalize(
+        labelledBy
+          .split(/\s+/)
+          .map(
+            (id) =>
+              (element.getRootNode() as Document | ShadowRoot).getElementById(
+                id,
+              )?.textContent ?? "",
+          )
+          .join(" "),
+      );
+    }
+    return "";
+  }
+
+  // 辅助函数：获取可访问名称（简化的计算）
+  function getAccessibleName(element: HTMLElement): string {
+    const ariaName = getAriaName(element);
+    if (ariaName) return ariaName;
+
+    // 区域和可编辑区域的名称不取自内容
+    const tag = element.tagName.toLowerCase();
+    if (
+      ["form", "section", "nav", "main", "aside", "header", "footer"].includes(
+        tag,
+      )
+    ) {
+      return "";
+    }
+    if (element.isContentEditable) {
+      return normalize(element.title);
+    }
+
+    if (tag === "input" || tag === "textarea" || tag === "select") {
+      const type = (element as HTMLInputElement).type;
+      if (["button", "submit", "reset"].includes(type)) {
+        return normalize((element as HTMLInputElement).value);
+      }
+      return getLabelText(element) || normalize(element.title);
+    }
+
+    return (
+      normalize(element.textContent) ||
+      normalize(element.title) ||
+      normalize(element.getAttribute("alt"))
+    );
+  }
+
+  // 辅助函数：按稳定性顺序生成定位器候选
+  function generateLocators(element: HTMLElement, cssPath: string): any[] {
+    const candidates: any[] = [];
+
+    for (const attribute of [
+      "data-testid",
+      "data-test",
+      "data-cy",
+      "data-qa",
+    ]) {
+      const value = element.getAttribute(attribute);
+      if (value) {
+        candidates.push({ strategy: "testid", value, attribute });
+        break;
+      }
+    }
+
+    const role = getRole(element);
+    const name = getAccessibleName(element);
+    if (role && name && name.length <= 80) {
+      candidates.push({ strategy: "role", value: role, name });
+    }
+
+    const label = getLabelText(element);
+    if (label && label.length <= 80) {
+      candidates.push({ strategy: "label", value: label });
+    }
+
+    const placeholder = normalize(element.getAttribute("placeholder"));
+    if (placeholder) {
+      candidates.push({ strategy: "placeholder", value: placeholder });
+    }
+
+    const tag = element.tagName.toLowerCase();
+    const text = normalize(element.textContent);
+    if (
+      !["input", "textarea", "select", "form"].includes(tag) &&
+      text &&
+      text.length <= 50
+    ) {
+      candidates.push({ strategy: "text", value: text });
+    }
+
+    candidates.push({ strategy: "css", value: cssPath });
+    // XPath 不能穿透 shadow root
+    if (element.getRootNode() === document) {
+      candidates.push({ strategy: "xpath", value: generateXPath(element) });
+    }
+
+    return candidates;
+  }
+
+  // 辅助函数：判断元素是否被 aria-hidden 从无障碍树中移除
+  function isAriaHidden(element: Element): boolean {
+    return element.closest('[aria-hidden="true"]') !== null;
+  }
+
+  // 辅助函数：判断元素是否可操作（accessibility 模式）
+  // 无法读取 addEventListener 注册的监听器，以 cursor: pointer 作为点击手势的近似
+  function isActionable(element: HTMLElement): boolean {
+    const role = getRole(element);
+    if (role && WIDGET_ROLES.includes(role)) return true;
+    if (element.tagName === "FORM") return true;
+    if (element.hasAttribute("onclick")) return true;
+
+    const tabIndex = element.getAttribute("tabindex");
+    if (tabIndex !== null && Number(tabIndex) >= 0) return true;
+
+    // 只取指针手势的起点，避免把可点击容器内的每个子元素都算进来
+    const cursor = getComputedStyle(element).cursor;
+    const parent = element.parentElement;
+    return (
+      cursor === "pointer" &&
+      (!parent || getComputedStyle(parent).cursor !== "pointer")
+    );
+  }
+
+  // 辅助函数：读取 true/false/mixed 形式的 ARIA 状态
+  function getTristate(
+    element: HTMLElement,
+    attribute: string,
+  ): boolean | "mixed" | undefined {
+    const value = element.getAttribute(attribute);
+    if (value === "mixed") return "mixed";
+    if (value === "true") return true;
+    if (value === "false") return false;
+    return undefined;
+  }
+
+  // 辅助函数：获取元素状态（disabled、expanded、checked、selected、pressed）
+  function getStates(
+    element: HTMLElement,
+    role: string | null,
+  ): Record<string, boolean | "mixed"> {
+    const states: Record<string, boolean | "mixed"> = {};
+
+    if (
+      (element as HTMLInputElement).disabled ||
+      element.closest('[aria-disabled="true"]') !== null ||
+      element.closest("fieldset:disabled") !== null
+    ) {
+      states.disabled = true;
+    }
+
+    const expanded = getTristate(element, "aria-expanded");
+    if (typeof expanded === "boolean") states.expanded = expanded;
+    if (element.tagName === "DETAILS" || element.tagName === "SUMMARY") {
+      const details = element.closest("details");
+      if (details) states.expanded = details.open;
+    }
+
+    const input = element as HTMLInputElement;
+    if (
+      element.tagName === "INPUT" &&
+      (input.type === "checkbox" || input.type === "radio")
+    ) {
+      states.checked = input.indeterminate ? "mixed" : input.checked;
+    } else if (
+      role &&
+      [
+        "checkbox",
+        "switch",
+        "radio",
+        "menuitemcheckbox",
+        "menuitemradio",
+      ].includes(role)
+    ) {
+      states.checked = getTristate(element, "aria-checked") ?? false;
+    }
+
+    const selected = getTristate(element, "aria-selected");
+    if (typeof selected === "boolean") states.selected = selected;
+    if (element.tagName === "OPTION") {
+      states.selected = (element as HTMLOptionElement).selected;
+    }
+
+    const pressed = getTristate(element, "aria-pressed");
+    if (pressed !== undefined) states.pressed = pressed;
+
+    return states;
+  }
+
+  // 辅助函数：获取元素所在的地标区域
+  function getLandmark(
+    element: HTMLElement,
+  ): { role: string; name?: string } | null {
+    let current = element.parentElement;
+    while (current && current !== document.body) {
+      const role = getRole(current);
+      // 未命名的 form 不是地标
+      const name = getAriaName(current);
+      if (role && LANDMARK_ROLES.includes(role) && (role !== "form" || name)) {
+        return name ? { role, name } : { role };
+      }
+      current = current.parentElement;
+    }
+    return null;
+  }
+
+  // 辅助函数：判断元素类型
+  function getElementType(element: HTMLElement, role: string | null): string {
+    const tag = element.tagName.toLowerCase();
+
+    if (role === "checkbox" || role === "switch") {
+      return "checkbox";
+    }
+    if (role === "radio") {
+      return "radio";
+    }
+    if (role === "tab") {
+      return "tab";
+    }
+    if (role && /^menu/.test(role)) {
+      return "menu";
+    }
+    if (role === "combobox" || role === "listbox" || tag === "select") {
+      return "select";
+    }
+    if (tag === "textarea" || element.isContentEditable) {
+      return "textarea";
+    }
+    if (tag === "button" || role === "button") {
+      return "button";
+    }
+    if (tag === "a" || role === "link") {
+      return "link";
+    }
+    if (
+      tag === "input" ||
+      (role && ["textbox", "searchbox", "spinbutton", "slider"].includes(role))
+    ) {
+      return "input";
+    }
+    if (tag === "form") {
+      return "form";
+    }
+    if (tag === "img") {
+      return "image";
+    }
+    if (
+      ["p", "span", "div", "h1", "h2", "h3", "h4", "h5", "h6"].includes(tag)
+    ) {
+      return "text";
+    }
+
+    return "other";
+  }
+
+  // 辅助函数：提取表单模型（字段、约束、fieldset 和提交按钮）
+  function collectForm(form: HTMLFormElement): any {
+    const fields: any[] = [];
+    const radioGroups = new Map<string, any>();
+
+    for (const control of Array.from(form.elements)) {
+      const field = control as HTMLInputElement;
+      const tag = field.tagName.toLowerCase();
+      if (!["input", "textarea", "select"].includes(tag)) continue;
+
+      const type = tag === "input" ? field.type : tag;
+      if (["hidden", "submit", "button", "reset", "image"].includes(type)) {
+        continue;
+      }
+
+      const name = field.getAttribute("name") || field.id || "";
+      const label = getLabelText(field) || getAriaName(field);
+
+      // 同名 radio 合并为一个字段，取值记录在 options 中
+      if (type === "radio" && name) {
+        const option = { value: field.value, label: label || field.value };
+        const group = radioGroups.get(name);
+        if (group) {
+          group.options.push(option);
+          group.required = group.required || field.required;
+          continue;
+        }
+      }
+
+      const entry: any = {
+        name,
+        selector: generateCssPath(field),
+        type,
+        required: field.required,
+      };
+      if (label && type !== "radio") entry.label = label;
+
+      const placeholder = normalize(field.getAttribute("placeholder"));
+      if (placeholder) entry.placeholder = placeholder;
+
+      if (tag === "input") {
+        if (field.pattern) entry.pattern = field.pattern;
+        if (field.min) entry.min = field.min;
+        if (field.max) entry.max = field.max;
+      }
+      // 未设置时 minLength / maxLength 为 -1
+      if (tag !== "select") {
+        if (field.minLength >= 0) entry.minLength = field.minLength;
+        if (field.maxLength >= 0) entry.maxLength = field.maxLength;
+      } else {
+        entry.options = Array.from(
+          (field as unknown as HTMLSelectElement).options,
+        )
+          .slice(0, 50)
+          .map((option) => ({
+            value: option.value,
+            label: normalize(option.textContent),
+          }));
+      }
+
+      if (type === "radio" && name) {
+        entry.options = [{ value: field.value, label: label || field.value }];
+        radioGroups.set(name, entry);
+      }
+
+      const legend = field.closest("fieldset")?.querySelector("legend");
+      if (legend && normalize(legend.textContent)) {
+        entry.fieldset = normalize(legend.textContent);
+      }
+
+      fields.push(entry);
+    }
+
+    const fieldsets = Array.from(form.querySelectorAll("fieldset > legend"))
+      .map((legend) => normalize(legend.textContent))
+      .filter((legend) => legend);
+
+    // 提交按钮：表单内的提交按钮，或通过 form 属性关联的外部按钮
+    const submit =
+      form.querySelector(
+        'button[type="submit"], button:not([type]), input[type="submit"], input[type="image"]',
+      ) ??
+      (form.id
+        ? document.querySelector(
+            `button[form="${CSS.escape(form.id)}"], input[type="submit"][form="${CSS.escape(form.id)}"]`,
+          )
+        : null);
+    const submitText = submit ? getAccessibleName(submit as HTMLElement) : "";
+
+    // action / method 可能被同名控件遮盖，从属性读取
+    const name = form.getAttribute("name") || form.id;
+
+    return {
+      selector: generateCssPath(form),
+      ...(name && { name }),
+      action: new URL(form.getAttribute("action") ?? "", document.baseURI).href,
+      method: (form.getAttribute("method") || "get").toLowerCase(),
+      fields,
+      fieldsets,
+      ...(submit && {
+        submit: {
+          selector: generateCssPath(submit),
+          ...(submitText && { text: submitText }),
+        },
+      }),
+    };
+  }
+
+  const forms = queryAll(document, "form").map((form) =>
+    collectForm(form as HTMLFormElement),
+  );
+
+  return { elements: results, forms };
+}
 
 /**
  * 元素提取器
  * 从页面中提取可交互元素的信息
+ *
+ * accessibility 模式按无障碍树提取：所有具有控件角色的节点、contenteditable、
+ * 可聚焦 (tabindex) 或带点击手势的元素。Playwright 1.57 起移除了
+ * page.accessibility.snapshot()，角色、可访问名称和状态在页面内按与
+ * getByRole 相同的 ARIA 规则计算，生成的 role 定位器因此可以直接使用
  */
 export class ElementExtractor {
+  private mode: ElementExtractionMode;
+
+  constructor(mode: ElementExtractionMode = "selectors") {
+    this.mode = mode;
+  }
+
   /**
    * 提取页面中的所有交互元素
+   * 每个元素附带按稳定性排序的定位器候选，并在当前页面上检查唯一性
    */
   async extractElements(page: Page): Promise<ElementInfo[]> {
-    const elements = await page.evaluate(() => {
-      const results: any[] = [];
-
-      // 选择所有可交互元素
-      const selectors = [
-        "button",
-        "a",
-        "input",
-        "textarea",
-        "select",
-        '[role="button"]',
-        '[role="link"]',
-        "[onclick]",
-        "form",
-      ];
-
-      const allElements = document.querySelectorAll(selectors.join(", "));
-
-      allElements.forEach((el) => {
-        const rect = el.getBoundingClientRect();
-
-        // 只提取可见的元素
-        if (rect.width > 0 && rect.height > 0) {
-          const element = el as HTMLElement;
-
-          // 生成唯一的 CSS 选择器
-          const selector = generateSelector(element);
-
-          // 提取属性
-          const attributes: Record<string, string> = {};
-          for (let i = 0; i < element.attributes.length; i++) {
-            const attr = element.attributes[i];
-            if (attr) {
-              attributes[attr.name] = attr.value!;
-            }
-          }
-
-          // 判断元素类型
-          const elementType = getElementType(element);
-
-          results.push({
-            selector,
-            tagName: element.tagName.toLowerCase(),
-            text: element.textContent?.trim().substring(0, 100) || undefined,
-            attributes,
-            boundingBox: {
-              x: Math.round(rect.x),
-              y: Math.round(rect.y),
-              width: Math.round(rect.width),
-              height: Math.round(rect.height),
-            },
-            isInteractive: true,
-            elementType,
-          });
-        }
-      });
+    return (await this.extractPage(page)).elements;
+  }
 
-      // 辅助函数：生成选择器
-      function generateSelector(element: Element): string {
-        if (element.id) {
-          return "#" + element.id;
-        }
+  /**
+   * 提取页面中的交互元素和表单模型
+   */
+  async extractPage(
+    page: Page,
+  ): Promise<{ elements: ElementInfo[]; forms: FormModel[] }> {
+    return await this.extractFrames(page, true);
+  }
 
-        if (element.className && typeof element.className === "string") {
-          const classes = element.className.trim().split(/\s+/).join(".");
-          if (classes) {
-            return element.tagName.toLowerCase() + "." + classes;
-          }
-        }
+  /**
+   * 依次提取主页面和各 iframe（包括跨域 iframe）中的元素和表单
+   * @param checkLocators 是否检查定位器候选的唯一性
+   */
+  private async extractFrames(
+    page: Page,
+    checkLocators: boolean,
+  ): Promise<{ elements: ElementInfo[]; forms: FormModel[] }> {
+    const results: ElementInfo[] = [];
+    const forms: FormModel[] = [];
 
-        // 使用 nth-child
-        let path = element.tagName.toLowerCase();
-        const parent = element.parentElement;
-
-        if (parent) {
-          const siblings = Array.from(parent.children);
-          const index = siblings.indexOf(element) + 1;
-          path =
-            parent.tagName.toLowerCase() +
-            " > " +
-            path +
-            ":nth-child(" +
-            index +
-            ")";
-        }
+    for (const frame of page.frames()) {
+      const location = await this.locateFrame(frame);
+      if (!location) continue;
+
+      const collected = await frame
+        .evaluate(collectPage, this.mode)
+        .catch(() => ({ elements: [] as RawElement[], forms: [] }));
+      const framePath = location.framePath.length > 0 && {
+        framePath: location.framePath,
+      };
 
-        return path;
+      // 在所在 frame 中检查每个候选的唯一性，唯一匹配的候选排在前面（保持策略顺序）
+      for (const element of collected.elements) {
+        const checked = checkLocators
+          ? await LocatorResolver.checkUniqueness(frame, element.locators)
+          : element.locators.map((c) => ({ ...c, unique: false }));
+        results.push({
+          ...element,
+          locators: [
+            ...checked.filter((c) => c.unique),
+            ...checked.filter((c) => !c.unique),
+          ],
+          ...(element.boundingBox && {
+            boundingBox: {
+              ...element.boundingBox,
+              x: Math.round(element.boundingBox.x + location.offset.x),
+              y: Math.round(element.boundingBox.y + location.offset.y),
+            },
+          }),
+          ...framePath,
+        });
       }
 
-      // 辅助函数：判断元素类型
-      function getElementType(element: HTMLElement): string {
-        const tag = element.tagName.toLowerCase();
+      forms.push(...collected.forms.map((form) => ({ ...form, ...framePath })));
+    }
 
-        if (tag === "button" || element.getAttribute("role") === "button") {
-          return "button";
-        }
-        if (tag === "a") {
-          return "link";
-        }
-        if (tag === "input" || tag === "textarea" || tag === "select") {
-          return "input";
-        }
-        if (tag === "form") {
-          return "form";
-        }
-        if (tag === "img") {
-          return "image";
-        }
-        if (
-          ["p", "span", "div", "h1", "h2", "h3", "h4", "h5", "h6"].includes(tag)
-        ) {
-          return "text";
-        }
+    return { elements: results, forms };
+  }
 
-        return "other";
-      }
+  /**
+   * 计算 frame 的选择器路径和在主页面中的偏移
+   * 已分离或不可见的 iframe 返回 null
+   */
+  private async locateFrame(
+    frame: Frame,
+  ): Promise<{ framePath: string[]; offset: { x: number; y: number } } | null> {
+    const framePath: string[] = [];
+    let offset = { x: 0, y: 0 };
+    let current = frame;
 
-      return results;
-    });
+    try {
+      for (
+        let parent = current.parentFrame();
+        parent;
+        parent = current.parentFrame()
+      ) {
+        const element = await current.frameElement();
+        // 最内层 iframe 的位置即元素坐标相对主页面的偏移
+        if (current === frame) {
+          const box = await element.boundingBox();
+          if (!box) return null;
+          offset = { x: box.x, y: box.y };
+        }
+        framePath.unshift(await element.evaluate(describeFrameElement));
+        current = parent;
+      }
+    } catch {
+      return null;
+    }
 
-    return elements;
+    return { framePath, offset };
   }
 
   /**
@@ -138,7 +807,7 @@ export class ElementExtractor {
    */
   async extractElementsByType(
     page: Page,
-    type: "button" | "input" | "link" | "form",
+    type: ElementInfo["elementType"],
   ): Promise<ElementInfo[]> {
     const allElements = await this.extractElements(page);
     return allElements.filter((el) => el.elementType === type);
@@ -162,33 +831,7 @@ export class ElementExtractor {
   /**
    * 提取页面中的所有表单
    */
-  async extractForms(page: Page): Promise<
-    Array<{
-      action: string;
-      method: string;
-      fields: Array<{ name: string; type: string; required: boolean }>;
-    }>
-  > {
-    return await page.evaluate(() => {
-      const forms = Array.from(document.querySelectorAll("form"));
-      return forms.map((form) => {
-        const fields = Array.from(
-          form.querySelectorAll("input, textarea, select"),
-        ).map((field) => ({
-          name:
-            (field as HTMLInputElement).name ||
-            (field as HTMLInputElement).id ||
-            "",
-          type: (field as HTMLInputElement).type || field.tagName.toLowerCase(),
-          required: (field as HTMLInputElement).required || false,
-        }));
-
-        return {
-          action: (form as HTMLFormElement).action,
-          method: (form as HTMLFormElement).method,
-          fields,
-        };
-      });
-    });
+  async extractForms(page: Page): Promise<FormModel[]> {
+    return (await this.extractFrames(page, false)).forms;
   }
 }
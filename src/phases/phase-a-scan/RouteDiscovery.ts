@@ -1,4 +1,48 @@
 import { Page } from "playwright";
+import { LogManager, Logger } from "../../core/logging/LogManager";
+import { AuthManager } from "../../core/auth/AuthManager";
+import { ElementInfo, RouteDiscoveryOptions } from "../../types/schemas";
+import { ElementExtractor } from "./ElementExtractor";
+import { CrawlPolicy } from "./CrawlPolicy";
+
+/**
+ * 点击前排除的元素文本（可能产生副作用的操作）
+ */
+const UNSAFE_CLICK_TEXT =
+  /delete|remove|logout|log out|sign out|destroy|submit|save|send|approve|reject|confirm|pay|purchase|buy|删除|移除|退出|注销|提交|保存|发送|批准|审批|拒绝|确认|支付|购买/i;
+
+/**
+ * 可作为导航元素点击的 ARIA 角色
+ */
+const NAVIGATION_ROLES = ["link", "tab", "menuitem"];
+
+/**
+ * 路由链接组件的目标属性（Vue `to`、Angular `routerLink` 等）
+ */
+const ROUTER_LINK_ATTRIBUTES = ["to", "routerlink", "ng-reflect-router-link"];
+
+/**
+ * 在页面中挂钩 history API，记录客户端路由变化
+ * 完整的页面跳转会清除挂钩，需要重新安装
+ */
+function installHistoryHook(): void {
+  const w = window as any;
+  if (w.__e2eRouteHook) return;
+  w.__e2eRouteHook = true;
+  w.__e2eRouteChanges = [];
+
+  const record = () => w.__e2eRouteChanges.push(location.href);
+  for (const method of ["pushState", "replaceState"] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: any[]) {
+      const result = original.apply(this, args as any);
+      record();
+      return result;
+    };
+  }
+  window.addEventListener("popstate", record);
+  window.addEventListener("hashchange", record);
+}
 
 /**
  * 路由发现器
@@ -7,50 +51,99 @@ import { Page } from "playwright";
 export class RouteDiscovery {
   private visitedUrls: Set<string> = new Set();
   private baseUrl: string;
+  private auth: AuthManager | null;
+  private options: RouteDiscoveryOptions;
+  private policy: CrawlPolicy;
+  private elementExtractor = new ElementExtractor();
+  private logger: Logger = LogManager.getLogger("RouteDiscovery", {
+    phase: "scan",
+  });
 
-  constructor(baseUrl: string) {
+  /**
+   * @param options 发现模式和路由标识规则
+   * @param auth 认证管理器，提供时跳过登录页并在会话失效时重新登录
+   * @param policy 爬取策略，控制访问范围、页面数上限和访问间隔
+   */
+  constructor(
+    baseUrl: string,
+    options: RouteDiscoveryOptions = {},
+    auth: AuthManager | null = null,
+    policy: CrawlPolicy = new CrawlPolicy(),
+  ) {
+    this.options = {
+      ...options,
+      mode: options.mode ?? "links",
+      hashRoutes: options.hashRoutes ?? options.mode === "spa",
+    };
+    this.policy = policy;
     this.baseUrl = this.normalizeUrl(baseUrl);
+    this.auth = auth;
   }
 
   /**
    * 发现页面中的所有内部链接
+   * 发现的路由数达到爬取策略的 maxPages 时停止
    */
-  async discoverRoutes(page: Page, maxDepth: number = 2): Promise<string[]> {
+  async discoverRoutes(
+    page: Page,
+    maxDepth: number = this.policy.maxDepth,
+  ): Promise<string[]> {
     const routes: string[] = [];
     const toVisit: Array<{ url: string; depth: number }> = [
       { url: this.baseUrl, depth: 0 },
     ];
 
-    while (toVisit.length > 0) {
+    while (toVisit.length > 0 && routes.length < this.policy.maxPages) {
       const current = toVisit.shift();
       if (!current || current.depth > maxDepth) continue;
 
       // 跳过已访问的 URL
       if (this.visitedUrls.has(current.url)) continue;
 
+      // 跳过登录页，避免反复触发重新登录
+      if (this.auth?.isLoginUrl(current.url)) continue;
+
+      const blockReason = this.policy.getBlockReason(current.url);
+      if (blockReason) {
+        this.logger.debug(`Skip ${current.url}: ${blockReason}`);
+        continue;
+      }
+
       try {
+        await this.policy.throttle(current.url);
         await page.goto(current.url, {
           waitUntil: "networkidle",
           timeout: 30000,
         });
+        if (this.auth && (await this.auth.ensureSession())) {
+          await page.goto(current.url, {
+            waitUntil: "networkidle",
+            timeout: 30000,
+          });
+        }
         this.visitedUrls.add(current.url);
         routes.push(current.url);
 
         // 发现新链接
         const links = await this.extractInternalLinks(page);
 
+        // SPA 模式下点击导航元素，记录客户端路由变化
+        if (this.options.mode === "spa") {
+          links.push(...(await this.discoverClientRoutes(page, current.url)));
+        }
+
         for (const link of links) {
-          if (!this.visitedUrls.has(link) && current.depth < maxDepth) {
+          if (
+            !this.visitedUrls.has(link) &&
+            current.depth < maxDepth &&
+            this.policy.isAllowed(link)
+          ) {
             toVisit.push({ url: link, depth: current.depth + 1 });
           }
         }
-
-        // 添加延迟，避免过快请求
-        await this.delay(500);
       } catch (error) {
-        console.warn(
-          `Failed to visit ${current.url}:`,
-          (error as Error).message,
+        this.logger.warn(
+          `Failed to visit ${current.url}: ${(error as Error).message}`,
         );
       }
     }
@@ -58,6 +151,177 @@ export class RouteDiscovery {
     return routes;
   }
 
+  /**
+   * 点击页面中的导航元素，收集 pushState / replaceState / popstate 产生的路由
+   * 每次点击后回到原页面，保证后续元素的选择器仍然有效
+   */
+  private async discoverClientRoutes(
+    page: Page,
+    pageUrl: string,
+  ): Promise<string[]> {
+    const discovered = new Set<string>();
+    const maxClicks = this.options.maxClicksPerPage ?? 20;
+
+    const elements = await this.elementExtractor.extractElements(page);
+    const candidates = elements
+      .filter((el) => this.isSafeNavigationElement(el, pageUrl))
+      .slice(0, maxClicks);
+
+    await page.evaluate(installHistoryHook);
+
+    for (const element of candidates) {
+      try {
+        if (await this.submitsForm(page, element)) {
+          continue;
+        }
+        await page.click(element.selector, { timeout: 2000 });
+        await page
+          .waitForLoadState("networkidle", { timeout: 3000 })
+          .catch(() => {});
+
+        const changes: string[] =
+          (await page
+            .evaluate(() => (window as any).__e2eRouteChanges?.splice(0))
+            .catch(() => undefined)) ?? [];
+
+        for (const url of [...changes, page.url()]) {
+          const route = this.normalizeUrl(url);
+          if (this.isInternal(route) && route !== pageUrl) {
+            discovered.add(route);
+          }
+        }
+
+        // 回到原页面
+        if (this.normalizeUrl(page.url()) !== pageUrl) {
+          await this.policy.throttle(pageUrl);
+          await page.goto(pageUrl, {
+            waitUntil: "networkidle",
+            timeout: 30000,
+          });
+          await page.evaluate(installHistoryHook);
+        }
+      } catch (error) {
+        this.logger.debug(
+          `Click ${element.selector} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (discovered.size > 0) {
+      this.logger.debug(
+        `${pageUrl} 通过客户端路由发现 ${discovered.size} 个路由`,
+      );
+    }
+
+    return Array.from(discovered);
+  }
+
+  /**
+   * 判断元素是否为可安全点击的导航元素
+   * 带真实 href 的链接已通过链接提取覆盖，这里只处理无 href 的链接、标签页、菜单项和路由链接组件；
+   * 按钮只在声明 type="button" 时点击，目标地址被爬取策略拒绝的元素跳过
+   */
+  private isSafeNavigationElement(
+    element: ElementInfo,
+    pageUrl: string,
+  ): boolean {
+    // iframe 中的元素不参与路由发现
+    if (element.framePath) return false;
+
+    const role = element.role ?? element.attributes.role;
+    const isNavigation =
+      element.elementType === "link" ||
+      element.elementType === "tab" ||
+      element.tagName === "router-link" ||
+      ROUTER_LINK_ATTRIBUTES.some((name) => name in element.attributes) ||
+      (role !== undefined && NAVIGATION_ROLES.includes(role));
+    if (!isNavigation) return false;
+
+    // 未声明 type 的按钮在表单中会提交表单
+    if (
+      (element.tagName === "button" || element.tagName === "input") &&
+      element.attributes.type !== "button"
+    ) {
+      return false;
+    }
+
+    const href = element.attributes.href;
+    if (
+      element.tagName === "a" &&
+      href &&
+      href !== "#" &&
+      !href.startsWith("javascript:")
+    ) {
+      return false;
+    }
+
+    if (
+      element.attributes.type === "submit" ||
+      element.attributes.disabled !== undefined
+    ) {
+      return false;
+    }
+
+    const target = this.clickTarget(element, pageUrl);
+    if (target && !this.policy.isAllowed(target)) {
+      return false;
+    }
+
+    const label = `${element.text ?? ""} ${element.attributes["aria-label"] ?? ""}`;
+    return !UNSAFE_CLICK_TEXT.test(label);
+  }
+
+  /**
+   * 元素声明的目标地址（路由链接属性或 `#/path` 形式的 hash 路由），无法确定时返回 null
+   */
+  private clickTarget(element: ElementInfo, pageUrl: string): string | null {
+    const value =
+      ROUTER_LINK_ATTRIBUTES.map((name) => element.attributes[name]).find(
+        Boolean,
+      ) ?? element.attributes.href;
+    if (!value || value === "#" || value.startsWith("javascript:")) {
+      return null;
+    }
+    try {
+      // hash 路由按 hash 中的路径匹配
+      const path = value.startsWith("#/") ? value.substring(1) : value;
+      return new URL(path, pageUrl).href;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 元素是否为表单内的按钮（点击可能提交表单）
+   * 表单归属只能在页面中判断（包括通过 form 属性关联的外部按钮）
+   */
+  private async submitsForm(
+    page: Page,
+    element: ElementInfo,
+  ): Promise<boolean> {
+    if (element.tagName !== "button" && element.tagName !== "input") {
+      return false;
+    }
+    return await page
+      .locator(element.selector)
+      .first()
+      .evaluate(
+        (node) => node.closest("form") !== null || (node as any).form != null,
+      )
+      .catch(() => true);
+  }
+
+  /**
+   * 是否为同域名 URL
+   */
+  private isInternal(url: string): boolean {
+    try {
+      return new URL(url).hostname === new URL(this.baseUrl).hostname;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * 提取页面中的所有内部链接
    */
@@ -90,6 +354,7 @@ export class RouteDiscovery {
     const routes: string[] = [];
 
     try {
+      await this.policy.throttle(sitemapUrl);
       await page.goto(sitemapUrl, { timeout: 10000 });
 
       const urls = await page.evaluate(() => {
@@ -97,9 +362,14 @@ export class RouteDiscovery {
         return locs.map((loc) => (loc as HTMLElement).textContent || "");
       });
 
-      routes.push(...urls.filter((url) => url.startsWith(this.baseUrl)));
+      routes.push(
+        ...urls
+          .filter((url) => url.startsWith(this.baseUrl))
+          .map((url) => this.normalizeUrl(url))
+          .filter((url) => this.policy.isAllowed(url)),
+      );
     } catch (error) {
-      console.warn("Sitemap not found or not accessible");
+      this.logger.debug("Sitemap not found or not accessible");
     }
 
     return routes;
@@ -113,13 +383,22 @@ export class RouteDiscovery {
     const routes: string[] = [];
 
     try {
-      await page.goto(robotsUrl, { timeout: 10000 });
+      await this.policy.throttle(robotsUrl);
+      const response = await page.goto(robotsUrl, { timeout: 10000 });
+      if (!response?.ok()) {
+        throw new Error(`HTTP ${response?.status()}`);
+      }
 
       const content = await page.evaluate(
         () => document.body.textContent || "",
       );
 
-      // 提取 Sitemap 和 Allow 的路径
+      // Disallow 规则交给爬取策略
+      if (this.policy.respectRobots) {
+        this.policy.setRobotsTxt(robotsUrl, content);
+      }
+
+      // 提取 Sitemap 和 Allow 的路径（跳过通配规则）
       const lines = content.split("\n");
       for (const line of lines) {
         if (line.startsWith("Sitemap:")) {
@@ -127,38 +406,54 @@ export class RouteDiscovery {
           routes.push(sitemapUrl);
         } else if (line.startsWith("Allow:")) {
           const path = line.substring(6).trim();
-          if (path && path !== "/") {
-            routes.push(new URL(path, this.baseUrl).href);
+          if (path && path !== "/" && !/[*$]/.test(path)) {
+            const url = new URL(path, this.baseUrl).href;
+            if (this.policy.isAllowed(url)) {
+              routes.push(url);
+            }
           }
         }
       }
     } catch (error) {
-      console.warn("robots.txt not found or not accessible");
+      this.logger.debug("robots.txt not found or not accessible");
     }
 
     return routes;
   }
 
   /**
-   * 标准化 URL（移除查询参数和锚点）
+   * 标准化 URL
+   * 只保留 significantQueryParams 中的查询参数（按名称排序）；
+   * 开启 hashRoutes 时保留 #/ 或 #!/ 形式的 hash 路由，普通锚点始终移除
    */
   private normalizeUrl(url: string): string {
     try {
       const urlObj = new URL(url);
-      // 移除查询参数和锚点
-      return `${urlObj.protocol}//${urlObj.host}${urlObj.pathname}`;
+      let normalized = `${urlObj.protocol}//${urlObj.host}${urlObj.pathname}`;
+
+      const params = new URLSearchParams();
+      for (const name of [
+        ...(this.options.significantQueryParams ?? []),
+      ].sort()) {
+        for (const value of urlObj.searchParams.getAll(name)) {
+          params.append(name, value);
+        }
+      }
+      const query = params.toString();
+      if (query) {
+        normalized += `?${query}`;
+      }
+
+      if (this.options.hashRoutes && /^#!?\//.test(urlObj.hash)) {
+        normalized += urlObj.hash;
+      }
+
+      return normalized;
     } catch {
       return url;
     }
   }
 
-  /**
-   * 延迟函数
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   /**
    * 获取已访问的 URL 列表
    */
@@ -1,9 +1,36 @@
 import { v4 as uuidv4 } from 'uuid';
+import { Page, ConsoleMessage as ConsoleMessageEvent } from 'playwright';
 import { PlaywrightManager } from '../../core/playwright/PlaywrightManager';
 import { StorageManager } from '../../core/storage/StorageManager';
-import { ScanResult, NetworkRequest, ConsoleMessage, CritiqueResult } from '../../types/schemas';
+import { EventBus } from '../../core/events/EventBus';
+import { LogManager, Logger } from '../../core/logging/LogManager';
+import { AuthManager } from '../../core/auth/AuthManager';
+import { NetworkRecorder } from '../../core/network/NetworkRecorder';
+import { VisualBaselineStore } from '../../core/visual/VisualBaselineStore';
+import { PerformanceCollector } from '../../core/performance/PerformanceCollector';
+import { PerformanceBudgets } from '../../core/performance/PerformanceBudgets';
+import {
+  ScanResult,
+  NetworkRequest,
+  ConsoleMessage,
+  CritiqueResult,
+  ElementInfo,
+  RouteDiscoveryOptions,
+  ElementExtractionMode,
+  FormModel,
+  NetworkCaptureOptions,
+  Region,
+  VisualCheckResult,
+  AccessibilityAuditOptions,
+  A11yViolation,
+  PerformanceOptions,
+  PerformanceMetrics,
+} from '../../types/schemas';
+import { ScanValidator } from '../../core/self-critique/validators/ScanValidator';
 import { ElementExtractor } from './ElementExtractor';
+import { AccessibilityAuditor } from './AccessibilityAuditor';
 import { RouteDiscovery } from './RouteDiscovery';
+import { CrawlPolicy } from './CrawlPolicy';
 
 /**
  * 扫描代理 (Phase A)
@@ -12,46 +39,100 @@ import { RouteDiscovery } from './RouteDiscovery';
 export class ScanAgent {
   private playwright: PlaywrightManager;
   private storage: StorageManager;
+  private events: EventBus;
   private elementExtractor: ElementExtractor;
   private routeDiscovery: RouteDiscovery | null = null;
-
-  constructor(playwright: PlaywrightManager, storage: StorageManager) {
+  private auth: AuthManager | null = null;
+  private crawlPolicy: CrawlPolicy = new CrawlPolicy();
+  private networkOptions: NetworkCaptureOptions = {};
+  private visual: VisualBaselineStore | null = null;
+  private accessibilityAuditor: AccessibilityAuditor | null = new AccessibilityAuditor();
+  private performanceBudgets: PerformanceBudgets | null = new PerformanceBudgets();
+  private logger: Logger = LogManager.getLogger('ScanAgent', { phase: 'scan' });
+
+  constructor(
+    playwright: PlaywrightManager,
+    storage: StorageManager,
+    events: EventBus = new EventBus()
+  ) {
     this.playwright = playwright;
     this.storage = storage;
+    this.events = events;
     this.elementExtractor = new ElementExtractor();
   }
 
+  /**
+   * 设置认证管理器，扫描时会话失效会自动重新登录
+   */
+  setAuthManager(auth: AuthManager | null): void {
+    this.auth = auth;
+  }
+
+  /**
+   * 设置元素提取模式
+   */
+  setExtractionMode(mode: ElementExtractionMode): void {
+    this.elementExtractor = new ElementExtractor(mode);
+  }
+
+  /**
+   * 设置网络捕获参数（body 记录、脱敏和 HAR 导出）
+   */
+  setNetworkOptions(options: NetworkCaptureOptions): void {
+    this.networkOptions = options;
+  }
+
+  /**
+   * 设置视觉基线存储，扫描截图会与基线对比
+   */
+  setVisualBaselines(visual: VisualBaselineStore | null): void {
+    this.visual = visual;
+  }
+
+  /**
+   * 设置无障碍审计参数，enabled 为 false 时跳过审计
+   */
+  setAccessibilityOptions(options: AccessibilityAuditOptions): void {
+    this.accessibilityAuditor =
+      options.enabled === false ? null : new AccessibilityAuditor(options);
+  }
+
+  /**
+   * 设置性能采集参数，enabled 为 false 时不采集
+   */
+  setPerformanceOptions(options: PerformanceOptions): void {
+    this.performanceBudgets =
+      options.enabled === false ? null : new PerformanceBudgets(options.budgets);
+  }
+
+  /**
+   * 设置爬取策略，路由发现和批量扫描都受其约束
+   */
+  setCrawlPolicy(policy: CrawlPolicy): void {
+    this.crawlPolicy = policy;
+  }
+
   /**
    * 扫描单个页面
+   * 使用页面池中的独立页面，可与其他扫描并发执行
    */
   async scanPage(url: string): Promise<ScanResult> {
-    console.log(`\n[ScanAgent] 开始扫描页面: ${url}`);
+    return await this.playwright.withPage((page) => this.scanOnPage(url, page));
+  }
+
+  /**
+   * 在指定页面上扫描
+   * 网络和控制台监听器只在本次扫描期间挂载，页面归还到池中前移除
+   */
+  private async scanOnPage(url: string, page: Page): Promise<ScanResult> {
+    this.logger.info(`开始扫描页面: ${url}`);
 
     // 记录网络请求和控制台消息
-    const networkRequests: NetworkRequest[] = [];
+    const recorder = new NetworkRecorder(this.networkOptions);
     const consoleMessages: ConsoleMessage[] = [];
 
-    const page = this.playwright.getPage();
-
-    // 监听网络请求
-    page.on('request', (request) => {
-      networkRequests.push({
-        url: request.url(),
-        method: request.method(),
-        resourceType: request.resourceType(),
-        timestamp: new Date().toISOString(),
-      });
-    });
-
-    page.on('response', (response) => {
-      const request = networkRequests.find(r => r.url === response.url());
-      if (request) {
-        request.status = response.status();
-      }
-    });
-
     // 监听控制台消息
-    page.on('console', (msg) => {
+    const onConsole = (msg: ConsoleMessageEvent) => {
       const type = msg.type();
       if (['log', 'warn', 'error', 'info', 'debug'].includes(type)) {
         consoleMessages.push({
@@ -60,33 +141,81 @@ export class ScanAgent {
           timestamp: new Date().toISOString(),
         });
       }
-    });
+    };
 
-    // 导航到页面
-    await this.playwright.goto(url, { waitUntil: 'networkidle' });
+    recorder.attach(page);
+    page.on('console', onConsole);
 
-    // 等待页面稳定
-    await this.delay(1000);
+    let elements: ElementInfo[];
+    let forms: FormModel[];
+    let screenshot: Buffer;
+    let html: string;
+    let title = '';
+    let ignoreRegions: Region[] = [];
+    let accessibility: A11yViolation[] | undefined;
+    let performance: PerformanceMetrics | null = null;
 
-    // 提取元素
-    console.log('[ScanAgent] 提取页面元素...');
-    const elements = await this.elementExtractor.extractElements(page);
-    console.log(`[ScanAgent] 发现 ${elements.length} 个交互元素`);
+    if (this.performanceBudgets) {
+      await PerformanceCollector.install(page);
+    }
 
-    // 截图
-    console.log('[ScanAgent] 捕获截图...');
-    const screenshot = await this.playwright.screenshot({ fullPage: true });
+    try {
+      // 导航到页面
+      await this.crawlPolicy.throttle(url);
+      await page.goto(url, { waitUntil: 'networkidle' });
 
-    // 获取 HTML 快照
-    console.log('[ScanAgent] 保存 HTML 快照...');
-    const html = await this.playwright.getHTML();
+      // 会话失效时重新登录后再次打开页面
+      if (this.auth && (await this.auth.ensureSession())) {
+        await page.goto(url, { waitUntil: 'networkidle' });
+      }
+
+      // 等待页面稳定（网络空闲），超时后继续
+      await page
+        .waitForLoadState('networkidle', { timeout: 3000 })
+        .catch(() => {});
+
+      // 提取元素
+      this.logger.debug('提取页面元素...');
+      ({ elements, forms } = await this.elementExtractor.extractPage(page));
+      this.logger.info(`发现 ${elements.length} 个交互元素, ${forms.length} 个表单`);
+
+      // 截图
+      this.logger.debug('捕获截图...');
+      screenshot = await page.screenshot({ fullPage: true });
+      if (this.visual) {
+        ignoreRegions = await VisualBaselineStore.computeIgnoreRegions(
+          page,
+          this.visual.getIgnoreSelectors()
+        );
+      }
+
+      // 获取 HTML 快照
+      this.logger.debug('保存 HTML 快照...');
+      html = await page.content();
+      title = await page.title();
+
+      // 性能指标（在无障碍审计的键盘操作之前采集）
+      if (this.performanceBudgets) {
+        performance = await PerformanceCollector.collect(page);
+      }
+
+      // 无障碍审计（模拟键盘操作，放在截图和快照之后）
+      accessibility = await this.auditAccessibility(page);
+    } finally {
+      recorder.detach();
+      page.off('console', onConsole);
+    }
+
+    await recorder.flush();
+    const networkRequests: NetworkRequest[] = recorder.getEntries();
 
     // 生成时间戳
     const timestamp = new Date().toISOString();
     const timestampDir = timestamp.replace(/:/g, '-').split('.')[0] + 'Z';
 
-    // 保存截图
-    const screenshotFilename = `scan_${Date.now()}.png`;
+    // 保存截图（以结果 ID 命名，避免并发扫描时文件名冲突）
+    const id = uuidv4();
+    const screenshotFilename = `scan_${id}.png`;
     const screenshotPath = await this.storage.saveBinaryFile(
       'scan',
       timestampDir,
@@ -95,7 +224,7 @@ export class ScanAgent {
     );
 
     // 保存 HTML 快照
-    const htmlFilename = `scan_${Date.now()}.html`;
+    const htmlFilename = `scan_${id}.html`;
     const htmlPath = await this.storage.saveTextFile(
       'scan',
       timestampDir,
@@ -103,77 +232,142 @@ export class ScanAgent {
       html
     );
 
+    // 导出 HAR
+    const harPath =
+      this.networkOptions.har === false
+        ? undefined
+        : await this.storage.saveTextFile(
+            'scan',
+            timestampDir,
+            `scan_${id}.har`,
+            JSON.stringify(recorder.toHar(title || url), null, 2)
+          );
+
     // 创建扫描结果
+    // hash 路由和保留的查询参数也是路由的一部分
+    const { pathname, search, hash } = new URL(url);
+    const route = `${pathname}${search}${hash}`;
+
+    // 与视觉基线对比
+    const visual = await this.checkVisual(
+      route,
+      screenshot,
+      screenshotPath,
+      ignoreRegions
+    );
+
     const scanResult: ScanResult = {
-      id: uuidv4(),
+      id,
       url,
-      route: new URL(url).pathname,
+      route,
       timestamp,
       screenshot: screenshotPath,
       elements,
+      forms,
       networkRequests,
       console: consoleMessages,
       htmlSnapshot: htmlPath,
-      critique: this.generateBasicCritique(elements, networkRequests),
+      ...(harPath && { har: harPath }),
+      ...(visual && { visual }),
+      ...(accessibility && { accessibility }),
+      ...(performance && { performance }),
+      critique: this.generateBasicCritique(
+        elements,
+        networkRequests,
+        accessibility ?? []
+      ),
     };
+    scanResult.critique.issues.push(
+      ...this.checkPerformanceBudgets(route, performance)
+    );
 
     // 保存扫描结果
     await this.storage.savePhaseData('scan', scanResult);
 
-    console.log(`[ScanAgent] 扫描完成: ${url}`);
-    console.log(`  - 元素: ${elements.length}`);
-    console.log(`  - 网络请求: ${networkRequests.length}`);
-    console.log(`  - 控制台消息: ${consoleMessages.length}`);
+    this.events.emit('page:scanned', { scanResult });
+    this.events.emit('critique:produced', {
+      phase: 'scan',
+      subjectId: scanResult.id,
+      critique: scanResult.critique,
+    });
 
     return scanResult;
   }
 
   /**
    * 扫描多个页面
+   * 跳过爬取策略不允许的 URL，最多扫描 maxPages 个页面；
+   * 并发数由 PlaywrightManager 的页面池大小决定，每个结果扫描完成后立即保存
    */
   async scanPages(urls: string[]): Promise<ScanResult[]> {
-    const results: ScanResult[] = [];
+    const allowed = urls.filter((url) => {
+      const blockReason = this.crawlPolicy.getBlockReason(url);
+      if (blockReason) {
+        this.logger.info(`跳过 ${url}: ${blockReason}`);
+      }
+      return blockReason === null;
+    });
 
-    for (const url of urls) {
-      try {
-        const result = await this.scanPage(url);
-        results.push(result);
+    const maxPages = this.crawlPolicy.maxPages;
+    if (allowed.length > maxPages) {
+      this.logger.info(`发现 ${allowed.length} 个页面，超过上限 ${maxPages}，只扫描前 ${maxPages} 个`);
+    }
 
-        // 添加延迟，避免过快请求
-        await this.delay(1000);
-      } catch (error) {
-        console.error(`[ScanAgent] 扫描失败 ${url}:`, (error as Error).message);
+    // 按页面池大小分片并发扫描，结果按输入顺序返回
+    const queue = allowed.slice(0, maxPages).map((url, index) => ({ url, index }));
+    const results: Array<ScanResult | undefined> = new Array(queue.length);
+    const concurrency = Math.min(this.playwright.getConcurrency(), queue.length);
+
+    const worker = async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        try {
+          results[item.index] = await this.scanPage(item.url);
+        } catch (error) {
+          this.logger.error(`扫描失败 ${item.url}: ${(error as Error).message}`);
+        }
       }
-    }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
 
-    return results;
+    return results.filter((result): result is ScanResult => result !== undefined);
   }
 
   /**
    * 自动发现并扫描网站路由
+   * @param discovery 路由发现参数，spa 模式下同时发现客户端路由
    */
-  async scanWebsite(baseUrl: string, maxDepth: number = 2): Promise<ScanResult[]> {
-    console.log(`\n[ScanAgent] 开始扫描网站: ${baseUrl}`);
-    console.log(`[ScanAgent] 最大深度: ${maxDepth}`);
+  async scanWebsite(
+    baseUrl: string,
+    maxDepth: number = this.crawlPolicy.maxDepth,
+    discovery: RouteDiscoveryOptions = {}
+  ): Promise<ScanResult[]> {
+    this.logger.info(
+      `开始扫描网站: ${baseUrl} (最大深度: ${maxDepth}, 模式: ${discovery.mode ?? 'links'})`
+    );
 
     // 初始化路由发现
-    this.routeDiscovery = new RouteDiscovery(baseUrl);
+    this.routeDiscovery = new RouteDiscovery(
+      baseUrl,
+      discovery,
+      this.auth,
+      this.crawlPolicy
+    );
 
     const page = this.playwright.getPage();
 
-    // 尝试从 sitemap 和 robots.txt 发现路由
-    console.log('[ScanAgent] 尝试从 sitemap.xml 发现路由...');
-    const sitemapRoutes = await this.routeDiscovery.discoverFromSitemap(page);
-    console.log(`[ScanAgent] 从 sitemap 发现 ${sitemapRoutes.length} 个路由`);
-
-    console.log('[ScanAgent] 尝试从 robots.txt 发现路由...');
+    // 先读取 robots.txt，使其 Disallow 规则作用于后续的发现过程
+    this.logger.debug('尝试从 robots.txt 发现路由...');
     const robotsRoutes = await this.routeDiscovery.discoverFromRobots(page);
-    console.log(`[ScanAgent] 从 robots.txt 发现 ${robotsRoutes.length} 个路由`);
+    this.logger.info(`从 robots.txt 发现 ${robotsRoutes.length} 个路由`);
+
+    this.logger.debug('尝试从 sitemap.xml 发现路由...');
+    const sitemapRoutes = await this.routeDiscovery.discoverFromSitemap(page);
+    this.logger.info(`从 sitemap 发现 ${sitemapRoutes.length} 个路由`);
 
     // 爬取发现路由
-    console.log('[ScanAgent] 开始爬取发现路由...');
+    this.logger.debug('开始爬取发现路由...');
     const crawledRoutes = await this.routeDiscovery.discoverRoutes(page, maxDepth);
-    console.log(`[ScanAgent] 爬取发现 ${crawledRoutes.length} 个路由`);
+    this.logger.info(`爬取发现 ${crawledRoutes.length} 个路由`);
 
     // 合并去重
     const allRoutes = Array.from(new Set([
@@ -182,7 +376,7 @@ export class ScanAgent {
       ...crawledRoutes,
     ]));
 
-    console.log(`[ScanAgent] 总共发现 ${allRoutes.length} 个唯一路由`);
+    this.logger.info(`总共发现 ${allRoutes.length} 个唯一路由`);
 
     // 扫描所有路由
     return await this.scanPages(allRoutes);
@@ -193,7 +387,8 @@ export class ScanAgent {
    */
   private generateBasicCritique(
     elements: any[],
-    networkRequests: any[]
+    networkRequests: any[],
+    accessibility: A11yViolation[]
   ): CritiqueResult {
     // 简单的置信度计算
     const hasElements = elements.length > 0;
@@ -224,6 +419,8 @@ export class ScanAgent {
       });
     }
 
+    issues.push(...ScanValidator.validateAccessibility(accessibility));
+
     return {
       phaseId: 'scan',
       timestamp: new Date().toISOString(),
@@ -244,9 +441,89 @@ export class ScanAgent {
   }
 
   /**
-   * 延迟函数
+   * 执行无障碍审计，审计失败时只记录警告
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async auditAccessibility(
+    page: Page
+  ): Promise<A11yViolation[] | undefined> {
+    if (!this.accessibilityAuditor) {
+      return undefined;
+    }
+
+    try {
+      const violations = await this.accessibilityAuditor.audit(page);
+      if (violations.length > 0) {
+        this.logger.info(
+          `无障碍审计: ${violations.length} 类问题 (${violations.map(v => v.rule).join(', ')})`
+        );
+      }
+      return violations;
+    } catch (error) {
+      this.logger.warn(`无障碍审计失败: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 检查页面性能指标是否超出预算
+   */
+  private checkPerformanceBudgets(
+    route: string,
+    performance: PerformanceMetrics | null
+  ): CritiqueResult['issues'] {
+    if (!performance || !this.performanceBudgets) {
+      return [];
+    }
+
+    const violations = this.performanceBudgets.check(route, performance);
+    if (violations.length === 0) {
+      return [];
+    }
+
+    this.logger.warn(`性能预算超出: ${route} (${PerformanceBudgets.format(violations)})`);
+    return [
+      {
+        severity: 'medium',
+        description: `页面性能超出预算: ${route} (${PerformanceBudgets.format(violations)})`,
+        suggestion: '检查页面的资源体积、长任务和布局偏移',
+      },
+    ];
+  }
+
+  /**
+   * 将截图与视觉基线对比，对比失败时只记录警告
+   */
+  private async checkVisual(
+    route: string,
+    screenshot: Buffer,
+    screenshotPath: string,
+    ignoreRegions: Region[]
+  ): Promise<VisualCheckResult | undefined> {
+    if (!this.visual) {
+      return undefined;
+    }
+
+    try {
+      const result = await this.visual.check(
+        {
+          kind: 'scan',
+          name: route,
+          viewport: this.playwright.getViewportLabel(),
+          browser: this.playwright.getTarget().browser,
+        },
+        screenshot,
+        screenshotPath,
+        ignoreRegions
+      );
+      if (result.status === 'changed') {
+        this.logger.warn(
+          `页面截图与基线不一致: ${route} (${(result.diffRatio * 100).toFixed(2)}%)`
+        );
+      }
+      return result;
+    } catch (error) {
+      this.logger.warn(`视觉对比失败: ${(error as Error).message}`);
+      return undefined;
+    }
   }
 }
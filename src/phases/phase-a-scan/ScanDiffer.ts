@@ -0,0 +1,417 @@
+import { diff, Diff } from "deep-diff";
+import { StorageManager } from "../../core/storage/StorageManager";
+import { toPathTemplate } from "../../core/network/ApiInventory";
+import {
+  ElementInfo,
+  NetworkRequest,
+  ScanResult,
+  SOPWorkflow,
+} from "../../types/schemas";
+
+/**
+ * 参与对比的元素字段（位置、定位器候选变化不视为 UI 漂移）
+ */
+const COMPARED_FIELDS = [
+  "tagName",
+  "elementType",
+  "text",
+  "attributes",
+  "role",
+  "accessibleName",
+  "states",
+  "landmark",
+] as const;
+
+/**
+ * 元素摘要
+ */
+export interface ElementSummary {
+  selector: string;
+  framePath?: string[];
+  elementType: ElementInfo["elementType"];
+  text?: string;
+}
+
+/**
+ * 元素字段的变化
+ */
+export interface FieldChange {
+  /** 字段路径，如 `attributes.href` */
+  path: string;
+  kind: "added" | "removed" | "edited";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 失败的网络请求（状态码 >= 400 或请求失败）
+ */
+export interface FailingRequest {
+  method: string;
+  /** origin + 路径模板，如 `https://example.com/api/users/:id` */
+  path: string;
+  status?: number;
+  failure?: string;
+}
+
+/**
+ * 单个页面的差异
+ */
+export interface PageDiff {
+  route: string;
+  addedElements: ElementSummary[];
+  removedElements: ElementSummary[];
+  changedElements: Array<{ element: ElementSummary; changes: FieldChange[] }>;
+  newConsoleErrors: string[];
+  newFailingRequests: FailingRequest[];
+}
+
+/**
+ * 可能受 UI 变化影响的工作流
+ */
+export interface AtRiskWorkflow {
+  id: string;
+  name: string;
+  reasons: string[];
+}
+
+/**
+ * 两次扫描的差异报告
+ */
+export interface ScanDiffReport {
+  from: string;
+  to: string;
+  fromPages: number;
+  toPages: number;
+  addedRoutes: string[];
+  removedRoutes: string[];
+  /** 两次都扫描到且有变化的页面 */
+  pages: PageDiff[];
+  atRiskWorkflows: AtRiskWorkflow[];
+}
+
+/**
+ * 扫描差异对比
+ * 比较两个扫描时间戳的路由、可交互元素、控制台错误和失败请求，
+ * 并标记步骤引用了被移除或变化元素的工作流
+ *
+ * 扫描阶段每个页面单独保存，一次扫描可能跨越多个时间戳目录：
+ * `from` 快照包含 [from, to) 之间保存的结果，`to` 快照包含 to 及之后的结果，
+ * 同一路由出现多次时使用最新的结果
+ */
+export class ScanDiffer {
+  private storage: StorageManager;
+
+  constructor(storage: StorageManager) {
+    this.storage = storage;
+  }
+
+  /**
+   * 对比两个扫描时间戳
+   * @param from 较早的时间戳（listTimestamps 返回值）
+   * @param to 较晚的时间戳
+   */
+  async diff(from: string, to: string): Promise<ScanDiffReport> {
+    if (from >= to) {
+      throw new Error(`Scan timestamp ${from} must be earlier than ${to}`);
+    }
+
+    const timestamps = await this.storage.listTimestamps("scan");
+    for (const timestamp of [from, to]) {
+      if (!timestamps.includes(timestamp)) {
+        throw new Error(`Scan timestamp not found: ${timestamp}`);
+      }
+    }
+
+    const before = await this.loadSnapshot(
+      timestamps.filter((t) => t >= from && t < to),
+    );
+    const after = await this.loadSnapshot(timestamps.filter((t) => t >= to));
+
+    const addedRoutes = [...after.keys()].filter((r) => !before.has(r));
+    const removedRoutes = [...before.keys()].filter((r) => !after.has(r));
+
+    const pages: PageDiff[] = [];
+    for (const [route, current] of after) {
+      const previous = before.get(route);
+      if (!previous) continue;
+      const page = this.diffPage(route, previous, current);
+      if (
+        page.addedElements.length > 0 ||
+        page.removedElements.length > 0 ||
+        page.changedElements.length > 0 ||
+        page.newConsoleErrors.length > 0 ||
+        page.newFailingRequests.length > 0
+      ) {
+        pages.push(page);
+      }
+    }
+
+    const workflows =
+      await this.storage.loadLatestPhaseData<SOPWorkflow>("orchestrate");
+
+    return {
+      from,
+      to,
+      fromPages: before.size,
+      toPages: after.size,
+      addedRoutes: addedRoutes.sort(),
+      removedRoutes: removedRoutes.sort(),
+      pages,
+      atRiskWorkflows: this.findAtRiskWorkflows(
+        workflows,
+        removedRoutes,
+        pages,
+      ),
+    };
+  }
+
+  /**
+   * 保存差异报告到 diffs/{from}_{to}/scan_diff.json
+   */
+  async save(report: ScanDiffReport): Promise<string> {
+    return await this.storage.saveDiffFile(
+      `${report.from}_${report.to}`,
+      "scan_diff.json",
+      JSON.stringify(report, null, 2),
+    );
+  }
+
+  /**
+   * 按路由加载快照，同一路由取最新结果
+   * @param timestamps 最新的在前
+   */
+  private async loadSnapshot(
+    timestamps: string[],
+  ): Promise<Map<string, ScanResult>> {
+    const snapshot = new Map<string, ScanResult>();
+    for (const timestamp of timestamps) {
+      const results = await this.storage.loadPhaseDataByTimestamp<ScanResult>(
+        "scan",
+        timestamp,
+      );
+      for (const result of results) {
+        const existing = snapshot.get(result.route);
+        if (!existing || existing.timestamp < result.timestamp) {
+          snapshot.set(result.route, result);
+        }
+      }
+    }
+    return snapshot;
+  }
+
+  private diffPage(
+    route: string,
+    previous: ScanResult,
+    current: ScanResult,
+  ): PageDiff {
+    const before = this.indexElements(previous.elements);
+    const after = this.indexElements(current.elements);
+
+    const addedElements: ElementSummary[] = [];
+    const changedElements: PageDiff["changedElements"] = [];
+    for (const [key, element] of after) {
+      const old = before.get(key);
+      if (!old) {
+        addedElements.push(this.summarize(element));
+        continue;
+      }
+      const changes = this.diffElement(old, element);
+      if (changes.length > 0) {
+        changedElements.push({ element: this.summarize(element), changes });
+      }
+    }
+
+    const removedElements = [...before]
+      .filter(([key]) => !after.has(key))
+      .map(([, element]) => this.summarize(element));
+
+    const previousErrors = new Set(this.consoleErrors(previous));
+    const newConsoleErrors = [...new Set(this.consoleErrors(current))].filter(
+      (text) => !previousErrors.has(text),
+    );
+
+    const previousFailures = new Set(
+      this.failingRequests(previous.networkRequests).map((r) =>
+        this.failureKey(r),
+      ),
+    );
+    const newFailingRequests = this.failingRequests(
+      current.networkRequests,
+    ).filter((r) => !previousFailures.has(this.failureKey(r)));
+
+    return {
+      route,
+      addedElements,
+      removedElements,
+      changedElements,
+      newConsoleErrors,
+      newFailingRequests,
+    };
+  }
+
+  /**
+   * 可交互元素按 iframe 路径 + 选择器索引
+   */
+  private indexElements(elements: ElementInfo[]): Map<string, ElementInfo> {
+    const index = new Map<string, ElementInfo>();
+    for (const element of elements) {
+      if (!element.isInteractive) continue;
+      index.set(this.elementKey(element.selector, element.framePath), element);
+    }
+    return index;
+  }
+
+  private elementKey(selector: string, framePath: string[] = []): string {
+    return [...framePath, selector].join(" | ");
+  }
+
+  /**
+   * 使用 deep-diff 比较元素字段
+   */
+  private diffElement(before: ElementInfo, after: ElementInfo): FieldChange[] {
+    const pick = (element: ElementInfo) =>
+      Object.fromEntries(COMPARED_FIELDS.map((f) => [f, element[f]]));
+    const differences = diff(pick(before), pick(after)) ?? [];
+    return differences.map((d) => this.toFieldChange(d));
+  }
+
+  private toFieldChange(
+    difference: Diff<unknown, unknown>,
+    basePath: unknown[] = [],
+  ): FieldChange {
+    const path = [...basePath, ...(difference.path ?? [])];
+    switch (difference.kind) {
+      case "N":
+        return { path: path.join("."), kind: "added", after: difference.rhs };
+      case "D":
+        return {
+          path: path.join("."),
+          kind: "removed",
+          before: difference.lhs,
+        };
+      case "E":
+        return {
+          path: path.join("."),
+          kind: "edited",
+          before: difference.lhs,
+          after: difference.rhs,
+        };
+      case "A":
+        return this.toFieldChange(difference.item, [...path, difference.index]);
+    }
+  }
+
+  private summarize(element: ElementInfo): ElementSummary {
+    const text = element.accessibleName || element.text;
+    return {
+      selector: element.selector,
+      ...(element.framePath && { framePath: element.framePath }),
+      elementType: element.elementType,
+      ...(text && { text: text.substring(0, 80) }),
+    };
+  }
+
+  private consoleErrors(result: ScanResult): string[] {
+    return result.console
+      .filter((message) => message.type === "error")
+      .map((message) => message.text);
+  }
+
+  private failingRequests(requests: NetworkRequest[]): FailingRequest[] {
+    const failures = new Map<string, FailingRequest>();
+    for (const request of requests) {
+      const failed =
+        request.failure !== undefined ||
+        (request.status !== undefined && request.status >= 400);
+      if (!failed) continue;
+
+      let path = request.url;
+      try {
+        const url = new URL(request.url);
+        path = `${url.origin}${toPathTemplate(url.pathname)}`;
+      } catch {
+        // 无法解析的 URL 保持原样
+      }
+
+      const failure: FailingRequest = {
+        method: request.method.toUpperCase(),
+        path,
+        ...(request.status !== undefined && { status: request.status }),
+        ...(request.failure && { failure: request.failure }),
+      };
+      failures.set(this.failureKey(failure), failure);
+    }
+    return [...failures.values()];
+  }
+
+  private failureKey(request: FailingRequest): string {
+    return `${request.method} ${request.path} ${request.status ?? request.failure}`;
+  }
+
+  /**
+   * 查找可能失败的工作流：导航到被移除的路由，或操作被移除/变化的元素
+   */
+  private findAtRiskWorkflows(
+    workflows: SOPWorkflow[],
+    removedRoutes: string[],
+    pages: PageDiff[],
+  ): AtRiskWorkflow[] {
+    const removed = new Set<string>();
+    const changed = new Map<string, FieldChange[]>();
+    for (const page of pages) {
+      for (const element of page.removedElements) {
+        removed.add(this.elementKey(element.selector, element.framePath));
+      }
+      for (const { element, changes } of page.changedElements) {
+        changed.set(
+          this.elementKey(element.selector, element.framePath),
+          changes,
+        );
+      }
+    }
+
+    const atRisk: AtRiskWorkflow[] = [];
+    for (const workflow of workflows) {
+      const reasons: string[] = [];
+      for (const step of workflow.steps) {
+        const target = step.target;
+        if (step.action === "navigate" && target?.url) {
+          const route = this.routeOf(target.url);
+          if (route && removedRoutes.includes(route)) {
+            reasons.push(`步骤 ${step.stepNumber}: 路由 ${route} 已不存在`);
+          }
+        }
+        if (!target?.selector) continue;
+
+        const key = this.elementKey(target.selector, target.framePath);
+        if (removed.has(key)) {
+          reasons.push(
+            `步骤 ${step.stepNumber}: 元素 ${target.selector} 已移除`,
+          );
+        } else if (changed.has(key)) {
+          const fields = changed.get(key)!.map((c) => c.path);
+          reasons.push(
+            `步骤 ${step.stepNumber}: 元素 ${target.selector} 已变化 (${[...new Set(fields)].join(", ")})`,
+          );
+        }
+      }
+      if (reasons.length > 0) {
+        atRisk.push({ id: workflow.id, name: workflow.name, reasons });
+      }
+    }
+    return atRisk;
+  }
+
+  /**
+   * 与扫描结果相同的路由格式（路径 + 查询参数 + hash）
+   */
+  private routeOf(url: string): string | null {
+    try {
+      const { pathname, search, hash } = new URL(url);
+      return `${pathname}${search}${hash}`;
+    } catch {
+      return url.startsWith("/") ? url : null;
+    }
+  }
+}
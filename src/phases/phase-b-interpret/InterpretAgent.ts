@@ -2,12 +2,17 @@ import { v4 as uuidv4 } from 'uuid';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { LLMProviderManager } from '../../core/llm/LLMProviderManager';
 import { StorageManager } from '../../core/storage/StorageManager';
+import { EventBus } from '../../core/events/EventBus';
+import { LogManager, Logger } from '../../core/logging/LogManager';
+import { ApiInventory } from '../../core/network/ApiInventory';
 import {
   ScanResult,
   PageMetadata,
   BusinessFlow,
   DataDependency,
   CritiqueResult,
+  FormModel,
+  FormField,
 } from '../../types/schemas';
 
 /**
@@ -17,23 +22,40 @@ import {
 export class InterpretAgent {
   private llmManager: LLMProviderManager;
   private storage: StorageManager;
-
-  constructor(llmManager: LLMProviderManager, storage: StorageManager) {
+  private events: EventBus;
+  private apiInventory: ApiInventory | null = null;
+  private logger: Logger = LogManager.getLogger('InterpretAgent', {
+    phase: 'interpret',
+  });
+
+  constructor(
+    llmManager: LLMProviderManager,
+    storage: StorageManager,
+    events: EventBus = new EventBus()
+  ) {
     this.llmManager = llmManager;
     this.storage = storage;
+    this.events = events;
+  }
+
+  /**
+   * 设置站点的 API 接口清单，页面调用的接口会加入分析上下文
+   */
+  setApiInventory(inventory: ApiInventory | null): void {
+    this.apiInventory = inventory;
   }
 
   /**
    * 解读单个扫描结果
    */
   async interpret(scanResult: ScanResult): Promise<PageMetadata> {
-    console.log(`\n[InterpretAgent] 开始解读页面: ${scanResult.url}`);
+    this.logger.info(`开始解读页面: ${scanResult.url}`);
 
     // 准备上下文信息
     const context = this.prepareContext(scanResult);
 
     // 调用 LLM 进行分析
-    console.log('[InterpretAgent] 调用 LLM 分析页面...');
+    this.logger.debug('调用 LLM 分析页面...');
     const analysis = await this.analyzeWithLLM(context);
 
     // 解析 LLM 响应
@@ -53,7 +75,11 @@ export class InterpretAgent {
       businessFunctions: parsedAnalysis.businessFunctions,
 
       interactiveElements: scanResult.elements,
-      dataDependencies: parsedAnalysis.dataDependencies,
+      ...(scanResult.forms && { forms: scanResult.forms }),
+      dataDependencies: this.buildDataDependencies(
+        scanResult.forms ?? [],
+        parsedAnalysis.dataDependencies
+      ),
       businessFlows: parsedAnalysis.businessFlows,
 
       relatedPages: parsedAnalysis.relatedPages,
@@ -64,10 +90,17 @@ export class InterpretAgent {
     // 保存 metadata
     await this.storage.savePhaseData('interpret', metadata);
 
-    console.log(`[InterpretAgent] 解读完成: ${scanResult.url}`);
-    console.log(`  - 页面类型: ${metadata.pageType}`);
-    console.log(`  - 业务功能: ${metadata.businessFunctions.length}`);
-    console.log(`  - 业务流程: ${metadata.businessFlows.length}`);
+    this.events.emit('critique:produced', {
+      phase: 'interpret',
+      subjectId: metadata.id,
+      critique: metadata.critique,
+    });
+
+    this.logger.info(`解读完成: ${scanResult.url}`, {
+      pageType: metadata.pageType,
+      businessFunctions: metadata.businessFunctions.length,
+      businessFlows: metadata.businessFlows.length,
+    });
 
     return metadata;
   }
@@ -83,9 +116,8 @@ export class InterpretAgent {
         const metadata = await this.interpret(scanResult);
         metadataList.push(metadata);
       } catch (error) {
-        console.error(
-          `[InterpretAgent] 解读失败 ${scanResult.url}:`,
-          (error as Error).message
+        this.logger.error(
+          `解读失败 ${scanResult.url}: ${(error as Error).message}`
         );
       }
     }
@@ -101,7 +133,7 @@ export class InterpretAgent {
       .slice(0, 20)
       .map(
         (el) =>
-          `- ${el.elementType}: ${el.tagName}${el.text ? ` ("${el.text.substring(0, 30)}")` : ''}`
+          `- ${el.elementType}: ${el.tagName}${el.text ? ` ("${el.text.substring(0, 30)}")` : ''}${el.landmark ? ` [${el.landmark.role}]` : ''}`
       )
       .join('\n');
 
@@ -111,6 +143,18 @@ export class InterpretAgent {
       .map((el) => `- ${el.text || '无文本'}: ${el.attributes.href || ''}`)
       .join('\n');
 
+    const formsSummary = this.summarizeForms(scanResult.forms ?? []);
+
+    const endpoints =
+      this.apiInventory?.endpointsForRoute(scanResult.route) ?? [];
+    const apiSummary = endpoints
+      .slice(0, 15)
+      .map(
+        (endpoint) =>
+          `- ${endpoint.method} ${endpoint.pathTemplate} (${endpoint.statuses.join('/') || '无响应'})${endpoint.requestFields.length > 0 ? ` 请求字段: ${endpoint.requestFields.join(', ')}` : ''}`
+      )
+      .join('\n');
+
     return `
 URL: ${scanResult.url}
 路由: ${scanResult.route}
@@ -121,11 +165,19 @@ ${elementsSummary}
 链接 (前 10 个):
 ${linksSummary}
 
+表单 (字段约束取自 HTML 属性):
+${formsSummary || '无'}
+
+API 接口 (页面调用的 XHR/fetch):
+${apiSummary || '无'}
+
 元素统计:
 - 总计: ${scanResult.elements.length}
 - 按钮: ${scanResult.elements.filter((e) => e.elementType === 'button').length}
 - 链接: ${scanResult.elements.filter((e) => e.elementType === 'link').length}
-- 输入框: ${scanResult.elements.filter((e) => e.elementType === 'input').length}
+- 输入框: ${scanResult.elements.filter((e) => e.elementType === 'input' || e.elementType === 'textarea').length}
+- 选择控件: ${scanResult.elements.filter((e) => ['select', 'checkbox', 'radio'].includes(e.elementType)).length}
+- 标签页/菜单: ${scanResult.elements.filter((e) => e.elementType === 'tab' || e.elementType === 'menu').length}
 - 表单: ${scanResult.elements.filter((e) => e.elementType === 'form').length}
 
 网络请求: ${scanResult.networkRequests.length}
@@ -133,6 +185,119 @@ ${linksSummary}
 `.trim();
   }
 
+  /**
+   * 表单摘要：每个表单的字段、类型和约束
+   */
+  private summarizeForms(forms: FormModel[]): string {
+    return forms
+      .map((form) => {
+        const fields = form.fields.map((field) => {
+          const rules = this.toValidationRules(field);
+          const label = field.label ? ` "${field.label}"` : '';
+          return `  - ${field.name || field.selector}${label} (${field.type}${rules.length > 0 ? `, ${rules.join(', ')}` : ''})`;
+        });
+        const submit = form.submit
+          ? `  提交按钮: ${form.submit.text ?? form.submit.selector}`
+          : '  无提交按钮';
+        return [
+          `- ${form.name ?? form.selector} [${form.method.toUpperCase()} ${form.action}]`,
+          ...fields,
+          submit,
+        ].join('\n');
+      })
+      .join('\n');
+  }
+
+  /**
+   * 根据表单约束生成数据依赖，并合并 LLM 识别的字段间依赖和业务规则
+   */
+  private buildDataDependencies(
+    forms: FormModel[],
+    inferred: DataDependency[]
+  ): DataDependency[] {
+    const byName = new Map<string, DataDependency>();
+
+    for (const field of forms.flatMap((form) => form.fields)) {
+      if (!field.name || byName.has(field.name)) continue;
+      byName.set(field.name, {
+        fieldName: field.name,
+        dependsOn: [],
+        validationRules: this.toValidationRules(field),
+        dataType: this.toDataType(field.type),
+      });
+    }
+
+    for (const dependency of inferred) {
+      const existing = byName.get(dependency.fieldName);
+      if (!existing) {
+        byName.set(dependency.fieldName, dependency);
+        continue;
+      }
+      existing.dependsOn = [
+        ...new Set([...existing.dependsOn, ...(dependency.dependsOn ?? [])]),
+      ];
+      existing.validationRules = [
+        ...new Set([
+          ...existing.validationRules,
+          ...(dependency.validationRules ?? []),
+        ]),
+      ];
+    }
+
+    return Array.from(byName.values());
+  }
+
+  /**
+   * 将字段约束转换为验证规则描述
+   */
+  private toValidationRules(field: FormField): string[] {
+    const rules: string[] = [];
+    if (field.required) rules.push('required');
+    if (field.pattern) rules.push(`pattern: ${field.pattern}`);
+    if (field.min !== undefined) rules.push(`min: ${field.min}`);
+    if (field.max !== undefined) rules.push(`max: ${field.max}`);
+    if (field.minLength !== undefined) rules.push(`minLength: ${field.minLength}`);
+    if (field.maxLength !== undefined) rules.push(`maxLength: ${field.maxLength}`);
+    if (field.options && field.options.length > 0) {
+      rules.push(
+        `options: ${field.options
+          .slice(0, 10)
+          .map((option) => option.value)
+          .join(', ')}`
+      );
+    }
+    return rules;
+  }
+
+  /**
+   * 将字段类型映射为数据类型
+   */
+  private toDataType(type: string): DataDependency['dataType'] {
+    switch (type) {
+      case 'email':
+        return 'email';
+      case 'tel':
+        return 'phone';
+      case 'url':
+        return 'url';
+      case 'number':
+      case 'range':
+        return 'number';
+      case 'date':
+      case 'datetime-local':
+      case 'month':
+      case 'week':
+      case 'time':
+        return 'date';
+      case 'checkbox':
+        return 'boolean';
+      case 'file':
+        return 'file';
+      default:
+        return 'string';
+    }
+  }
+
   /**
    * 使用 LLM 分析页面
    */
@@ -182,7 +347,7 @@ ${linksSummary}
 注意:
 1. 仔细分析元素类型和文本，推断业务功能
 2. 识别可能的用户操作流程
-3. 如果是表单页面，识别字段之间的依赖关系
+3. 如果是表单页面，识别字段之间的依赖关系（字段类型和约束已从页面提取，dataDependencies 只需补充依赖关系和额外的业务规则）
 4. 保持分析的准确性和实用性`;
 
     const userPrompt = `请分析以下网页信息:\n\n${context}`;
@@ -238,8 +403,8 @@ ${linksSummary}
           : [],
       };
     } catch (error) {
-      console.warn('[InterpretAgent] 解析 LLM 响应失败，使用默认值');
-      console.warn('响应内容:', response);
+      this.logger.warn('解析 LLM 响应失败，使用默认值');
+      this.logger.debug(`响应内容: ${response}`);
 
       return {
         pageTitle: 'Unknown Page',
@@ -1,6 +1,14 @@
-import { PageMetadata, SOPWorkflow, SOPStep } from "../../types/schemas";
+import {
+  PageMetadata,
+  SOPWorkflow,
+  SOPStep,
+  FieldConstraintsSchema,
+} from "../../types/schemas";
 import { LLMProviderManager } from "../../core/llm/LLMProviderManager";
 import { StorageManager } from "../../core/storage/StorageManager";
+import { EventBus } from "../../core/events/EventBus";
+import { LogManager, Logger } from "../../core/logging/LogManager";
+import { TestDataGenerator } from "../../core/testdata/TestDataGenerator";
 import { SOPFormatter } from "./SOPFormatter";
 import { SOPParser } from "./SOPParser";
 import { SystemMessage, HumanMessage } from "@langchain/core/messages";
@@ -13,17 +21,26 @@ import * as crypto from "crypto";
 export class OrchestrateAgent {
   private llmManager: LLMProviderManager;
   private storage: StorageManager;
-
-  constructor(llmManager: LLMProviderManager, storage: StorageManager) {
+  private events: EventBus;
+  private logger: Logger = LogManager.getLogger("OrchestrateAgent", {
+    phase: "orchestrate",
+  });
+
+  constructor(
+    llmManager: LLMProviderManager,
+    storage: StorageManager,
+    events: EventBus = new EventBus(),
+  ) {
     this.llmManager = llmManager;
     this.storage = storage;
+    this.events = events;
   }
 
   /**
    * 编排工作流
    */
   async orchestrate(metadata: PageMetadata): Promise<SOPWorkflow> {
-    console.log(`开始为页面 "${metadata.pageTitle}" 编排工作流...`);
+    this.logger.info(`开始为页面 "${metadata.pageTitle}" 编排工作流...`);
 
     // 准备上下文
     const context = this.prepareContext(metadata);
@@ -47,7 +64,15 @@ export class OrchestrateAgent {
       markdown,
     );
 
-    console.log(`✓ 工作流编排完成: ${workflow.name}`);
+    this.events.emit("critique:produced", {
+      phase: "orchestrate",
+      subjectId: workflow.id,
+      critique: workflow.critique,
+    });
+
+    this.logger.info(`工作流编排完成: ${workflow.name}`, {
+      workflowId: workflow.id,
+    });
 
     return workflow;
   }
@@ -63,9 +88,8 @@ export class OrchestrateAgent {
         const workflow = await this.orchestrate(metadata);
         workflows.push(workflow);
       } catch (error) {
-        console.error(
-          `编排失败 for ${metadata.pageTitle}:`,
-          (error as Error).message,
+        this.logger.error(
+          `编排失败 for ${metadata.pageTitle}: ${(error as Error).message}`,
         );
       }
     }
@@ -107,8 +131,26 @@ export class OrchestrateAgent {
       sections.push(`共 ${metadata.interactiveElements.length} 个交互元素`);
       metadata.interactiveElements.slice(0, 10).forEach((el) => {
         sections.push(
-          `- ${el.elementType}: ${el.selector} - "${el.text?.substring(0, 50) ?? ""}"`,
+          `- ${el.elementType}: ${el.selector} - "${el.text?.substring(0, 50) ?? ""}"${el.framePath ? ` (iframe: ${el.framePath.join(" > ")})` : ""}`,
+        );
+      });
+      sections.push("");
+    }
+
+    if (metadata.forms && metadata.forms.length > 0) {
+      sections.push(`## 表单`);
+      metadata.forms.forEach((form) => {
+        sections.push(
+          `### ${form.name ?? form.selector} (${form.method.toUpperCase()} ${form.action})`,
         );
+        form.fields.forEach((field) => {
+          sections.push(
+            `- ${field.selector}: ${field.label ?? field.name} (${field.type}${field.required ? ", 必填" : ""})`,
+          );
+        });
+        if (form.submit) {
+          sections.push(`- 提交: ${form.submit.selector}`);
+        }
       });
       sections.push("");
     }
@@ -137,8 +179,10 @@ export class OrchestrateAgent {
 1. 返回完整的 JSON 格式工作流
 2. 每个步骤必须包含: stepNumber, action, description, target
 3. action 类型: navigate, click, input, select, wait, verify, screenshot, extract, conditional, loop
-4. 为每个步骤设计合理的验证条件
+4. 为每个步骤设计合理的验证条件 (validation.type: exists/visible/enabled/checked/text/value/count/attribute/css/url/request/noConsoleErrors/custom)
 5. 考虑错误处理策略
+6. conditional 步骤用 condition 定义条件 (type: exists/visible/text/url/variable) 和 then/else 步骤范围 ({ "from": 起始编号, "to": 结束编号 })，loop 步骤用 loop 定义循环 (type: count/list/elements, as: 循环变量名) 和 steps 范围，范围内的步骤只由控制步骤执行
+7. successCriteria 的 check 使用与 validation 相同的格式（可附带 target），在所有步骤执行完后检查
 
 请返回 JSON 格式，不要包含任何其他文字。
 
@@ -152,13 +196,19 @@ JSON Schema:
       "action": "navigate",
       "description": "步骤描述",
       "target": { "url": "目标URL" },
-      "validation": { "expectedUrl": "预期URL" }
+      "validation": { "type": "url", "expected": "预期URL" }
     }
   ],
   "requiredInputs": [],
   "preconditions": [],
   "postconditions": [],
-  "successCriteria": []
+  "successCriteria": [
+    {
+      "description": "成功标准描述",
+      "validation": "判定方式说明",
+      "check": { "type": "url", "expected": "/success" }
+    }
+  ]
 }`;
 
     const userPrompt = `请为以下页面生成测试工作流：
@@ -206,7 +256,7 @@ ${context}
           `Auto-generated workflow for ${_metadata.pageTitle}`,
         metadataIds: [_metadata.id],
         timestamp: new Date().toISOString(),
-        steps: parsed.steps || [],
+        steps: this.enrichTargets(parsed.steps || [], _metadata),
         requiredInputs: parsed.requiredInputs || [],
         successCriteria: parsed.successCriteria || [
           {
@@ -239,19 +289,74 @@ ${context}
       // 验证工作流
       const validation = SOPParser.validate(workflow);
       if (!validation.isValid) {
-        console.warn("Workflow validation warnings:", validation.errors);
+        this.logger.warn("Workflow validation warnings", {
+          errors: validation.errors,
+        });
       }
 
       return workflow;
     } catch (error) {
-      console.error("Failed to parse workflow:", error);
-      console.error("LLM Response:", llmResponse);
+      this.logger.error(
+        `Failed to parse workflow: ${(error as Error).message}`,
+      );
+      this.logger.debug(`LLM Response: ${llmResponse}`);
 
       // 返回默认的基础工作流
       return this.createDefaultWorkflow(_metadata);
     }
   }
 
+  /**
+   * 为目标选择器对应扫描元素的步骤附加定位器候选和 iframe 路径，
+   * 对应表单字段的步骤附加字段约束，页面上没有对应字段时使用解读阶段的数据依赖规则
+   */
+  private enrichTargets(steps: SOPStep[], metadata: PageMetadata): SOPStep[] {
+    const elementsBySelector = new Map(
+      metadata.interactiveElements.map((el) => [el.selector, el]),
+    );
+    const fieldsBySelector = new Map(
+      (metadata.forms ?? []).flatMap((form) =>
+        form.fields.map((field) => [field.selector, field] as const),
+      ),
+    );
+    const dependencies = new Map(
+      metadata.dataDependencies.map((dep) => [dep.fieldName, dep]),
+    );
+
+    return steps.map((step) => {
+      const selector = step.target?.selector;
+      const element = selector ? elementsBySelector.get(selector) : undefined;
+      const field = selector ? fieldsBySelector.get(selector) : undefined;
+      const dependency =
+        step.action === "input" && step.data?.field
+          ? dependencies.get(step.data.field)
+          : undefined;
+      if (!element && !field && !dependency) {
+        return step;
+      }
+
+      const locators = step.target?.locators ?? element?.locators;
+      const framePath = step.target?.framePath ?? element?.framePath;
+      // 只保留约束字段（去掉 name、selector、label 等）
+      const constraints =
+        step.target?.constraints ??
+        (field
+          ? FieldConstraintsSchema.parse(field)
+          : dependency &&
+            TestDataGenerator.constraintsFromDependency(dependency));
+
+      return {
+        ...step,
+        target: {
+          ...step.target,
+          ...(locators && locators.length > 0 && { locators }),
+          ...(framePath && { framePath }),
+          ...(constraints && { constraints }),
+        },
+      };
+    });
+  }
+
   /**
    * 创建默认工作流（当 LLM 解析失败时）
    */
@@ -297,6 +402,11 @@ ${context}
         {
           description: "Page loaded successfully",
           validation: "page.title === metadata.pageTitle",
+          check: {
+            type: "custom",
+            expression: "document.title",
+            expected: metadata.pageTitle,
+          },
         },
       ],
       estimatedDuration: 15000,
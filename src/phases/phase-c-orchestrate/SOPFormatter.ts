@@ -1,4 +1,10 @@
-import { SOPWorkflow, SOPStep } from "../../types/schemas";
+import {
+  SOPWorkflow,
+  SOPStep,
+  StepCondition,
+  StepLoop,
+  StepRange,
+} from "../../types/schemas";
 
 /**
  * SOP 格式化器
@@ -20,6 +26,14 @@ export class SOPFormatter {
     lines.push(`> **ID**: \`${workflow.id}\``);
     lines.push(`> **Description**: ${workflow.description}`);
     lines.push(`> **Complexity**: ${workflow.complexity}`);
+    if (workflow.fixtures) {
+      lines.push(
+        `> **Fixtures**: \`${workflow.fixtures.har}\` (${workflow.fixtures.mode ?? "replay-passthrough"})`,
+      );
+    }
+    if (workflow.dataset) {
+      lines.push(`> **Dataset**: \`${JSON.stringify(workflow.dataset)}\``);
+    }
     lines.push("");
 
     // 所需输入
@@ -60,6 +74,14 @@ export class SOPFormatter {
         lines.push(`**Validation**: ${this.formatValidation(step.validation)}`);
       }
 
+      if (step.condition) {
+        lines.push(`**Condition**: ${this.formatCondition(step.condition)}`);
+      }
+
+      if (step.loop) {
+        lines.push(`**Loop**: ${this.formatLoop(step.loop)}`);
+      }
+
       if (step.errorHandling) {
         lines.push(`**Error Handling**:`);
         lines.push(`- Strategy: ${step.errorHandling.strategy}`);
@@ -83,6 +105,8 @@ export class SOPFormatter {
             data: step.data,
             validation: step.validation,
             errorHandling: step.errorHandling,
+            condition: step.condition,
+            loop: step.loop,
           },
           null,
           2,
@@ -99,6 +123,9 @@ export class SOPFormatter {
       workflow.successCriteria.forEach((criterion, index) => {
         lines.push(`${index + 1}. ${criterion.description}`);
         lines.push(`   Validation: ${criterion.validation}`);
+        if (criterion.check) {
+          lines.push(`   Check: \`${JSON.stringify(criterion.check)}\``);
+        }
       });
       lines.push("");
     }
@@ -113,7 +140,10 @@ export class SOPFormatter {
     if (!target) return "-";
 
     if ("selector" in target) {
-      return `\`${target.selector}\``;
+      const frame = target.framePath
+        ? ` (iframe: \`${target.framePath.join(" > ")}\`)`
+        : "";
+      return `\`${target.selector}\`${frame}`;
     }
     if ("url" in target) {
       return `\`${target.url}\``;
@@ -158,6 +188,51 @@ export class SOPFormatter {
     return parts.join(", ");
   }
 
+  /**
+   * 格式化条件，如 `url contains "/cart" → then steps 4-5, else steps 6-7`
+   */
+  private static formatCondition(condition: StepCondition): string {
+    let test: string;
+    if (condition.type === "variable") {
+      test =
+        condition.value === undefined
+          ? `variable \`${condition.variable}\` is truthy`
+          : `variable \`${condition.variable}\` equals ${JSON.stringify(condition.value)}`;
+    } else if (condition.type === "text" || condition.type === "url") {
+      test = `${condition.type} contains ${JSON.stringify(condition.value)}`;
+    } else {
+      test = `target ${condition.type}`;
+    }
+
+    const branches = [`then ${this.formatRange(condition.then)}`];
+    if (condition.else) {
+      branches.push(`else ${this.formatRange(condition.else)}`);
+    }
+    return `${condition.negate ? "not " : ""}${test} → ${branches.join(", ")}`;
+  }
+
+  /**
+   * 格式化循环，如 `each element of target as \`row\` → steps 4-6`
+   */
+  private static formatLoop(loop: StepLoop): string {
+    const name = `\`${loop.as ?? "item"}\``;
+    let source: string;
+    if (loop.type === "count") {
+      source = `${loop.count ?? 0} times as ${name}`;
+    } else if (loop.type === "list") {
+      source = `each item of \`${loop.variable}\` as ${name}`;
+    } else {
+      source = `each element of target as ${name}`;
+    }
+    return `${source} → ${this.formatRange(loop.steps)}`;
+  }
+
+  private static formatRange(range: StepRange): string {
+    return range.from === range.to
+      ? `step ${range.from}`
+      : `steps ${range.from}-${range.to}`;
+  }
+
   /**
    * 生成简化版 Markdown (用于快速预览)
    */
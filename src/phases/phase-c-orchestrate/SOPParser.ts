@@ -1,4 +1,15 @@
-import { SOPWorkflow, SOPStep, SOPWorkflowSchema } from "../../types/schemas";
+import {
+  SOPWorkflow,
+  SOPStep,
+  SOPWorkflowSchema,
+  NetworkFixturesSchema,
+  DatasetBindingSchema,
+  StepRange,
+  SuccessCriterion,
+} from "../../types/schemas";
+import { LogManager } from "../../core/logging/LogManager";
+
+const logger = LogManager.getLogger("SOPParser", { phase: "orchestrate" });
 
 /**
  * SOP 解析器
@@ -14,8 +25,8 @@ export class SOPParser {
     const metadata: any = {};
     const steps: SOPStep[] = [];
     const requiredInputs: any[] = [];
-    const successCriteria: Array<{ description: string; validation: string }> =
-      [];
+    const successCriteria: SuccessCriterion[] = [];
+    let stepDescription = "";
 
     // 解析标题
     const titleMatch = lines[0]?.match(/^#\s+SOP:\s+(.+)$/);
@@ -42,6 +53,25 @@ export class SOPParser {
             metadata.description = value;
           } else if (key === "Complexity") {
             metadata.complexity = value;
+          } else if (key === "Fixtures") {
+            const fixturesMatch = value?.match(/^`(.+)`\s+\((.+)\)$/);
+            const fixtures = NetworkFixturesSchema.safeParse({
+              har: fixturesMatch?.[1],
+              mode: fixturesMatch?.[2],
+            });
+            if (fixtures.success) {
+              metadata.fixtures = fixtures.data;
+            } else {
+              logger.warn(`Invalid fixtures metadata: ${value}`);
+            }
+          } else if (key === "Dataset") {
+            try {
+              metadata.dataset = DatasetBindingSchema.parse(
+                JSON.parse(value?.match(/^`(.+)`$/)?.[1] ?? ""),
+              );
+            } catch {
+              logger.warn(`Invalid dataset metadata: ${value}`);
+            }
           }
         }
         continue;
@@ -62,9 +92,23 @@ export class SOPParser {
           i++;
           const validationLine = lines[i]?.trim() ?? "";
           const validationMatch = validationLine.match(/Validation:\s+(.+)$/);
+          // 可选的 Check 行为机器可检查的断言
+          const checkMatch = lines[i + 1]?.trim().match(/^Check:\s+`(.+)`$/);
+          let check: SuccessCriterion["check"];
+          if (checkMatch?.[1]) {
+            i++;
+            try {
+              check = JSON.parse(checkMatch[1]);
+            } catch (error) {
+              logger.warn(
+                `Failed to parse success criterion check: ${(error as Error).message}`,
+              );
+            }
+          }
           successCriteria.push({
             description,
             validation: validationMatch?.[1] ?? "",
+            ...(check && { check }),
           });
         }
       } else if (currentSection === "Required Inputs") {
@@ -87,7 +131,8 @@ export class SOPParser {
         // 检测步骤标题
         const stepMatch = line.match(/^###\s+Step\s+(\d+):\s+(.+)$/);
         if (stepMatch) {
-          // 开始新步骤，但先不添加到数组
+          // 开始新步骤，描述只在标题中，解析 JSON 时补上
+          stepDescription = stepMatch[2] ?? "";
           continue;
         }
 
@@ -102,9 +147,11 @@ export class SOPParser {
 
           try {
             const stepData = JSON.parse(jsonContent);
-            steps.push(stepData);
+            steps.push({ description: stepDescription, ...stepData });
           } catch (error) {
-            console.warn("Failed to parse step JSON:", error);
+            logger.warn(
+              `Failed to parse step JSON: ${(error as Error).message}`,
+            );
           }
         }
       }
@@ -123,6 +170,8 @@ export class SOPParser {
       estimatedDuration: 0, // 需要后续计算
       complexity: metadata.complexity || "medium",
       tags: [],
+      ...(metadata.fixtures && { fixtures: metadata.fixtures }),
+      ...(metadata.dataset && { dataset: metadata.dataset }),
       critique: {
         phaseId: "orchestrate",
         timestamp: new Date().toISOString(),
@@ -146,7 +195,7 @@ export class SOPParser {
     try {
       return SOPWorkflowSchema.parse(workflow);
     } catch (error) {
-      console.error("Workflow validation failed:", error);
+      logger.error(`Workflow validation failed: ${(error as Error).message}`);
       throw new Error(`Invalid workflow structure: ${error}`);
     }
   }
@@ -203,6 +252,41 @@ export class SOPParser {
       }
     });
 
+    // 检查控制步骤的范围
+    const numbers = new Set(stepNumbers);
+    workflow.steps.forEach((step) => {
+      if (step.action === "conditional" && !step.condition) {
+        errors.push(`Step ${step.stepNumber} missing condition`);
+      }
+      if (step.action === "loop" && !step.loop) {
+        errors.push(`Step ${step.stepNumber} missing loop`);
+      }
+
+      const ranges = [
+        step.condition?.then,
+        step.condition?.else,
+        step.loop?.steps,
+      ].filter((range) => range !== undefined);
+      for (const range of ranges) {
+        if (
+          range.from > range.to ||
+          !numbers.has(range.from) ||
+          !numbers.has(range.to)
+        ) {
+          errors.push(
+            `Step ${step.stepNumber} has invalid step range ${range.from}-${range.to}`,
+          );
+        } else if (
+          step.stepNumber >= range.from &&
+          step.stepNumber <= range.to
+        ) {
+          errors.push(
+            `Step ${step.stepNumber} step range ${range.from}-${range.to} contains itself`,
+          );
+        }
+      }
+    });
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -218,9 +302,27 @@ export class SOPParser {
 
     workflows.forEach((workflow) => {
       workflow.steps.forEach((step) => {
+        // 控制步骤的范围随步骤编号一起平移
+        const offset = stepNumber - step.stepNumber;
+        const shift = (range: StepRange) => ({
+          from: range.from + offset,
+          to: range.to + offset,
+        });
         allSteps.push({
           ...step,
           stepNumber: stepNumber++,
+          ...(step.condition && {
+            condition: {
+              ...step.condition,
+              then: shift(step.condition.then),
+              ...(step.condition.else && {
+                else: shift(step.condition.else),
+              }),
+            },
+          }),
+          ...(step.loop && {
+            loop: { ...step.loop, steps: shift(step.loop.steps) },
+          }),
         });
       });
     });
@@ -2,10 +2,27 @@ import {
   SOPWorkflow,
   ExecutionResult,
   ExecutionState,
+  ExecutionTarget,
+  PhaseOptions,
+  NetworkCaptureOptions,
+  NetworkFixtureMode,
+  Region,
+  VisualCheckResult,
+  PerformanceOptions,
+  TestDataOptions,
+  DatasetBinding,
+  DatasetSummary,
 } from "../../types/schemas";
 import { PlaywrightManager } from "../../core/playwright/PlaywrightManager";
 import { StorageManager } from "../../core/storage/StorageManager";
+import { EventBus } from "../../core/events/EventBus";
+import { LogManager, Logger } from "../../core/logging/LogManager";
+import { AuthManager } from "../../core/auth/AuthManager";
+import { NetworkFixtureStore } from "../../core/network/NetworkFixtureStore";
+import { VisualBaselineStore } from "../../core/visual/VisualBaselineStore";
+import { DatasetLoader, DatasetRow } from "../../core/testdata/DatasetLoader";
 import { WorkflowExecutor } from "./WorkflowExecutor";
+import { AssertionPlugin } from "./StepValidator";
 import * as crypto from "crypto";
 
 /**
@@ -15,105 +32,494 @@ import * as crypto from "crypto";
 export class ExecuteAgent {
   private playwright: PlaywrightManager;
   private storage: StorageManager;
-
-  constructor(playwright: PlaywrightManager, storage: StorageManager) {
+  private events: EventBus;
+  private auth: AuthManager | null = null;
+  private networkOptions: NetworkCaptureOptions = {};
+  private visual: VisualBaselineStore | null = null;
+  private performanceOptions: PerformanceOptions = {};
+  private assertions: Record<string, AssertionPlugin> = {};
+  private testDataOptions: TestDataOptions = {};
+  private logger: Logger = LogManager.getLogger("ExecuteAgent", {
+    phase: "execute",
+  });
+
+  constructor(
+    playwright: PlaywrightManager,
+    storage: StorageManager,
+    events: EventBus = new EventBus(),
+  ) {
     this.playwright = playwright;
     this.storage = storage;
+    this.events = events;
+  }
+
+  /**
+   * 设置认证管理器，执行中会话失效时重新登录并重跑工作流
+   */
+  setAuthManager(auth: AuthManager | null): void {
+    this.auth = auth;
+  }
+
+  /**
+   * 设置网络捕获参数，执行期间的请求导出为 HAR
+   */
+  setNetworkOptions(options: NetworkCaptureOptions): void {
+    this.networkOptions = options;
+  }
+
+  /**
+   * 设置视觉基线存储，步骤截图会与基线对比
+   */
+  setVisualBaselines(visual: VisualBaselineStore | null): void {
+    this.visual = visual;
+  }
+
+  /**
+   * 设置性能采集参数（步骤的性能指标和预算）
+   */
+  setPerformanceOptions(options: PerformanceOptions): void {
+    this.performanceOptions = options;
+  }
+
+  /**
+   * 设置 custom 验证可引用的断言插件
+   */
+  setAssertions(assertions: Record<string, AssertionPlugin>): void {
+    this.assertions = assertions;
+  }
+
+  /**
+   * 设置 faker 测试数据的种子和语言
+   */
+  setTestDataOptions(options: TestDataOptions): void {
+    this.testDataOptions = options;
   }
 
   /**
    * 执行工作流
+   * @param target 执行环境，未指定时使用默认的浏览器配置
    */
   async execute(
     workflow: SOPWorkflow,
     userInputs?: Record<string, any>,
+    target?: ExecutionTarget,
   ): Promise<ExecutionResult> {
-    console.log(`开始执行工作流: ${workflow.name}`);
+    const playwright = this.playwrightFor(target);
+    try {
+      return await this.run(workflow, userInputs, playwright);
+    } finally {
+      await this.release(playwright);
+    }
+  }
 
-    // 创建执行器
-    const executor = new WorkflowExecutor(this.playwright);
+  /**
+   * 执行工作流，数据驱动执行时在结果中记录数据行
+   */
+  private async run(
+    workflow: SOPWorkflow,
+    userInputs: Record<string, any> | undefined,
+    playwright: PlaywrightManager,
+    dataset?: ExecutionResult["dataset"],
+  ): Promise<ExecutionResult> {
+    const auth = this.auth?.forPlaywright(playwright) ?? null;
+    let executor = this.createExecutor(playwright, workflow);
 
     // 执行工作流
-    const result = await executor.executeWorkflow(workflow, userInputs);
+    let result = await this.runWithLogFile(executor, workflow, userInputs);
 
-    // 获取最终状态
-    const finalState = executor.getExecutionState();
+    // 执行中会话失效：重新登录后重跑一次
+    if (auth && (await auth.ensureSession())) {
+      this.logger.warn(`会话失效，重新登录后重跑工作流 ${workflow.name}`, {
+        workflowId: workflow.id,
+      });
+      executor = this.createExecutor(playwright, workflow);
+      result = await this.runWithLogFile(executor, workflow, userInputs);
+    }
+    result = {
+      ...result,
+      target: playwright.getTarget(),
+      ...(dataset && { dataset }),
+    };
 
-    // 保存执行结果和状态
-    await this.saveExecutionResults(result, finalState);
+    // 保存执行结果、最终状态和 HAR
+    result = await this.saveExecutionResults(workflow, result, executor);
 
-    console.log(`✓ 工作流执行完成，状态: ${result.status}`);
+    this.publishResult(workflow, result);
 
     return result;
   }
 
+  /**
+   * 在浏览器矩阵的每个执行环境中执行同一工作流
+   */
+  async executeMatrix(
+    workflow: SOPWorkflow,
+    targets: ExecutionTarget[],
+    userInputs?: Record<string, any>,
+  ): Promise<ExecutionResult[]> {
+    return await this.executeBatch(
+      [workflow],
+      userInputs ? new Map([[workflow.id, userInputs]]) : undefined,
+      { matrix: targets },
+    );
+  }
+
   /**
    * 批量执行多个工作流
+   * 指定 matrix 时每个工作流在所有执行环境中各执行一次，
+   * 绑定数据集的工作流按数据集的每行各执行一次；
+   * 每个执行环境只启动一个浏览器，在工作流、数据行和重试间复用，该环境执行完后关闭
    */
   async executeBatch(
     workflows: SOPWorkflow[],
     userInputsMap?: Map<string, Record<string, any>>,
+    options?: PhaseOptions["execute"],
   ): Promise<ExecutionResult[]> {
     const results: ExecutionResult[] = [];
+    const retryAttempts = options?.retryAttempts ?? 0;
+    const targets: Array<ExecutionTarget | undefined> = options?.matrix?.length
+      ? options.matrix
+      : [undefined];
 
-    for (const workflow of workflows) {
+    for (const target of targets) {
+      const playwright = this.playwrightFor(target);
       try {
-        const userInputs = userInputsMap?.get(workflow.id);
-        const result = await this.execute(workflow, userInputs);
-        results.push(result);
+        for (const original of workflows) {
+          const workflow = this.withFixtureMode(original, options?.fixtureMode);
+          const userInputs = userInputsMap?.get(workflow.id);
+          if (workflow.dataset) {
+            results.push(
+              ...(await this.executeDataset(
+                workflow,
+                workflow.dataset,
+                userInputs,
+                playwright,
+                retryAttempts,
+              )),
+            );
+          } else {
+            results.push(
+              await this.executeWithRetry(
+                workflow,
+                userInputs,
+                playwright,
+                retryAttempts,
+              ),
+            );
+          }
+        }
+      } finally {
+        await this.release(playwright);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 按数据集的每行执行一次工作流，某行失败不影响其余行
+   * 执行完后写入汇总（dataset_<工作流ID>.md/.json）
+   */
+  private async executeDataset(
+    workflow: SOPWorkflow,
+    binding: DatasetBinding,
+    userInputs: Record<string, any> | undefined,
+    playwright: PlaywrightManager,
+    retryAttempts: number,
+  ): Promise<ExecutionResult[]> {
+    const target = playwright.getTarget();
+    let rows: DatasetRow[];
+    try {
+      rows = await DatasetLoader.load(binding);
+    } catch (error) {
+      return [
+        this.failedResult(
+          workflow,
+          target,
+          new Error(
+            `加载数据集失败 ${binding.path}: ${(error as Error).message}`,
+          ),
+        ),
+      ];
+    }
+    this.logger.info(
+      `数据驱动执行工作流 ${workflow.name}: ${rows.length} 行 (${binding.path})`,
+      { workflowId: workflow.id },
+    );
+
+    const results: ExecutionResult[] = [];
+    for (const row of rows) {
+      const dataset = { path: binding.path, row: row.row };
+      let inputs: Record<string, any>;
+      try {
+        inputs = {
+          ...userInputs,
+          ...DatasetLoader.toInputs(workflow, binding, row),
+        };
       } catch (error) {
-        console.error(
-          `执行工作流失败 ${workflow.name}:`,
-          (error as Error).message,
+        results.push(this.failedResult(workflow, target, error, dataset));
+        continue;
+      }
+      results.push(
+        await this.executeWithRetry(
+          workflow,
+          inputs,
+          playwright,
+          retryAttempts,
+          dataset,
+        ),
+      );
+    }
+
+    await this.saveDatasetSummary(workflow, binding, results, target);
+    return results;
+  }
+
+  /**
+   * 执行工作流，失败时整体重试；执行抛出异常时返回失败结果
+   */
+  private async executeWithRetry(
+    workflow: SOPWorkflow,
+    userInputs: Record<string, any> | undefined,
+    playwright: PlaywrightManager,
+    retryAttempts: number,
+    dataset?: ExecutionResult["dataset"],
+  ): Promise<ExecutionResult> {
+    try {
+      let result = await this.run(workflow, userInputs, playwright, dataset);
+
+      // 失败的工作流整体重试
+      for (
+        let attempt = 1;
+        attempt <= retryAttempts && result.status === "failure";
+        attempt++
+      ) {
+        this.logger.warn(
+          `重试工作流 ${workflow.name} (${attempt}/${retryAttempts})`,
+          { workflowId: workflow.id },
         );
+        result = await this.run(workflow, userInputs, playwright, dataset);
+      }
+
+      return result;
+    } catch (error) {
+      return this.failedResult(
+        workflow,
+        playwright.getTarget(),
+        error,
+        dataset,
+      );
+    }
+  }
+
+  /**
+   * 执行环境对应的浏览器管理器，指定执行环境时使用独立的浏览器实例
+   */
+  private playwrightFor(target?: ExecutionTarget): PlaywrightManager {
+    return target ? this.playwright.withTarget(target) : this.playwright;
+  }
+
+  /**
+   * 关闭为执行环境单独启动的浏览器（默认浏览器由外部管理）
+   */
+  private async release(playwright: PlaywrightManager): Promise<void> {
+    if (playwright === this.playwright) {
+      return;
+    }
+    try {
+      await playwright.cleanup();
+    } catch (error) {
+      this.logger.warn(`关闭浏览器失败: ${(error as Error).message}`);
+    }
+  }
 
-        // 创建失败结果
-        results.push({
-          id: crypto.randomUUID(),
-          workflowId: workflow.id,
-          executionStateId: crypto.randomUUID(),
-          timestamp: new Date().toISOString(),
-          status: "failure",
-          duration: 0,
-          stepResults: [],
-          screenshots: [],
-          logs: [(error as Error).message],
-          finalState: {
-            id: crypto.randomUUID(),
-            workflowId: workflow.id,
-            timestamp: new Date().toISOString(),
-            variables: {},
-            currentStepNumber: 0,
-            completedSteps: [],
-            failedSteps: [],
+  /**
+   * 记录执行异常并创建失败结果
+   * 失败原因写入该次执行的日志文件
+   */
+  private failedResult(
+    workflow: SOPWorkflow,
+    target: ExecutionTarget,
+    error: unknown,
+    dataset?: ExecutionResult["dataset"],
+  ): ExecutionResult {
+    const executionId = crypto.randomUUID();
+    const logPath = this.storage.getLogFilePath(
+      `execution_${executionId}.jsonl`,
+    );
+    const removeOutput = LogManager.addFileOutput(logPath, {
+      executionId,
+    });
+    this.logger.error(
+      `执行工作流失败 ${workflow.name}: ${(error as Error).message}`,
+      { workflowId: workflow.id, executionId },
+    );
+    removeOutput();
+
+    const failedResult: ExecutionResult = {
+      id: crypto.randomUUID(),
+      workflowId: workflow.id,
+      executionStateId: executionId,
+      timestamp: new Date().toISOString(),
+      status: "failure",
+      duration: 0,
+      stepResults: [],
+      screenshots: [],
+      logs: [logPath],
+      target,
+      ...(dataset && { dataset }),
+      finalState: {
+        id: executionId,
+        workflowId: workflow.id,
+        timestamp: new Date().toISOString(),
+        variables: {},
+        currentStepNumber: 0,
+        completedSteps: [],
+        failedSteps: [],
+      },
+      critique: {
+        phaseId: "execute",
+        timestamp: new Date().toISOString(),
+        confidence: {
+          overall: 0,
+          dimensions: {
+            completeness: 0,
+            accuracy: 0,
+            feasibility: 0,
+            coverage: 0,
           },
-          critique: {
-            phaseId: "execute",
-            timestamp: new Date().toISOString(),
-            confidence: {
-              overall: 0,
-              dimensions: {
-                completeness: 0,
-                accuracy: 0,
-                feasibility: 0,
-                coverage: 0,
-              },
-              reasoning: "Execution failed with exception",
-              humanReviewRequired: true,
-            },
-            issues: [
-              {
-                severity: "critical",
-                description: (error as Error).message,
-              },
-            ],
-            autoCorrections: [],
+          reasoning: "Execution failed with exception",
+          humanReviewRequired: true,
+        },
+        issues: [
+          {
+            severity: "critical",
+            description: (error as Error).message,
           },
-        });
-      }
+        ],
+        autoCorrections: [],
+      },
+    };
+    this.publishResult(workflow, failedResult);
+    return failedResult;
+  }
+
+  /**
+   * 汇总数据驱动执行的结果并保存为 JSON 和 Markdown
+   */
+  private async saveDatasetSummary(
+    workflow: SOPWorkflow,
+    binding: DatasetBinding,
+    results: ExecutionResult[],
+    target: ExecutionTarget,
+  ): Promise<DatasetSummary> {
+    const passed = results.filter((r) => r.status === "success").length;
+    const summary: DatasetSummary = {
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      dataset: binding.path,
+      timestamp: new Date().toISOString(),
+      target,
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      duration: results.reduce((sum, r) => sum + r.duration, 0),
+      rows: results.map((r) => {
+        const error =
+          r.stepResults.find((s) => s.error)?.error ??
+          r.critique.issues[0]?.description;
+        return {
+          row: r.dataset?.row ?? 0,
+          executionId: r.id,
+          status: r.status,
+          duration: r.duration,
+          ...(r.status !== "success" && error && { error }),
+        };
+      }),
+    };
+
+    const timestampDir = summary.timestamp.replace(/:/g, "-");
+    await this.storage.saveTextFile(
+      "execute",
+      timestampDir,
+      `dataset_${workflow.id}.json`,
+      JSON.stringify(summary, null, 2),
+    );
+    const reportPath = await this.storage.saveTextFile(
+      "execute",
+      timestampDir,
+      `dataset_${workflow.id}.md`,
+      this.generateDatasetReport(summary),
+    );
+    this.logger.info(
+      `数据驱动执行完成 ${workflow.name}: ${passed}/${results.length} 行通过，汇总: ${reportPath}`,
+      { workflowId: workflow.id },
+    );
+
+    return summary;
+  }
+
+  /**
+   * 生成数据驱动执行的汇总报告
+   */
+  generateDatasetReport(summary: DatasetSummary): string {
+    const lines: string[] = [];
+
+    lines.push(`# 数据驱动执行汇总`);
+    lines.push("");
+    lines.push(`**工作流**: ${summary.workflowName} (${summary.workflowId})`);
+    lines.push(`**数据集**: ${summary.dataset}`);
+    lines.push(`**执行时间**: ${summary.timestamp}`);
+    lines.push(
+      `**通过**: ${summary.passed}/${summary.total}，失败: ${summary.failed}`,
+    );
+    lines.push(`**总时长**: ${summary.duration}ms`);
+    lines.push("");
+
+    lines.push(`| 行 | 状态 | 持续时长 | 执行ID | 错误 |`);
+    lines.push(`|----|------|----------|--------|------|`);
+    summary.rows.forEach((row) => {
+      lines.push(
+        `| ${row.row} | ${row.status} | ${row.duration}ms | ${row.executionId} | ${row.error ?? "-"} |`,
+      );
+    });
+
+    return lines.join("\n");
+  }
+
+  /**
+   * 执行工作流并将本次执行的日志写入独立的 JSON Lines 文件
+   * 结果的 logs 字段指向该文件
+   */
+  private async runWithLogFile(
+    executor: WorkflowExecutor,
+    workflow: SOPWorkflow,
+    userInputs?: Record<string, any>,
+  ): Promise<ExecutionResult> {
+    const executionId = executor.getExecutionState().id;
+    const logPath = this.storage.getLogFilePath(
+      `execution_${executionId}.jsonl`,
+    );
+    const removeOutput = LogManager.addFileOutput(logPath, { executionId });
+
+    try {
+      const result = await executor.executeWorkflow(workflow, userInputs);
+      return { ...result, logs: [...result.logs, logPath] };
+    } finally {
+      removeOutput();
     }
+  }
 
-    return results;
+  /**
+   * 发布执行结果事件
+   */
+  private publishResult(workflow: SOPWorkflow, result: ExecutionResult): void {
+    this.events.emit("workflow:executed", { workflow, result });
+    this.events.emit("critique:produced", {
+      phase: "execute",
+      subjectId: result.id,
+      critique: result.critique,
+    });
   }
 
   /**
@@ -124,10 +530,12 @@ export class ExecuteAgent {
     executionState: ExecutionState,
     fromStep: number,
   ): Promise<ExecutionResult> {
-    console.log(`恢复执行工作流 ${workflow.name} 从步骤 ${fromStep}`);
+    this.logger.info(`恢复执行工作流 ${workflow.name} 从步骤 ${fromStep}`, {
+      workflowId: workflow.id,
+    });
 
     // 创建执行器
-    const executor = new WorkflowExecutor(this.playwright);
+    const executor = this.createExecutor(this.playwright, workflow);
 
     // 过滤出需要执行的步骤
     const stepsToExecute = workflow.steps.filter(
@@ -140,55 +548,184 @@ export class ExecuteAgent {
     };
 
     // 执行剩余步骤
-    const result = await executor.executeWorkflow(
+    let result = await this.runWithLogFile(
+      executor,
       partialWorkflow,
       executionState.variables,
     );
 
     // 保存结果
-    await this.saveExecutionResults(result, executor.getExecutionState());
+    result = await this.saveExecutionResults(workflow, result, executor);
+
+    this.publishResult(workflow, result);
 
     return result;
   }
 
   /**
-   * 保存执行结果和状态
+   * 创建使用当前网络捕获参数的执行器
+   * 录制网络 fixture 时总是记录 XHR/fetch 的 body，并保留未脱敏、未截断的响应体
    */
-  private async saveExecutionResults(
+  private createExecutor(
+    playwright: PlaywrightManager,
+    workflow: SOPWorkflow,
+  ): WorkflowExecutor {
+    const executor = new WorkflowExecutor(
+      playwright,
+      this.events,
+      workflow.fixtures?.mode === "record"
+        ? { ...this.networkOptions, captureBodies: true, keepRawBodies: true }
+        : this.networkOptions,
+    );
+    if (this.visual) {
+      executor.setIgnoreSelectors(this.visual.getIgnoreSelectors());
+    }
+    executor.setPerformanceOptions(this.performanceOptions);
+    executor.setAssertions(this.assertions);
+    executor.setTestDataOptions(this.testDataOptions);
+    return executor;
+  }
+
+  /**
+   * 用配置中的模式覆盖工作流引用的网络 fixture 模式
+   */
+  private withFixtureMode(
+    workflow: SOPWorkflow,
+    mode?: NetworkFixtureMode,
+  ): SOPWorkflow {
+    if (!mode || !workflow.fixtures) {
+      return workflow;
+    }
+    return { ...workflow, fixtures: { ...workflow.fixtures, mode } };
+  }
+
+  /**
+   * 将步骤截图与视觉基线对比，对比失败时只记录警告
+   */
+  private async checkVisual(
+    workflow: SOPWorkflow,
     result: ExecutionResult,
-    state: ExecutionState,
-  ): Promise<void> {
-    // 保存执行结果
-    await this.storage.savePhaseData("execute", result);
+    stepNumber: number,
+    screenshot: Buffer,
+    screenshotPath: string,
+    ignoreRegions: Region[],
+  ): Promise<VisualCheckResult | null> {
+    if (!this.visual) {
+      return null;
+    }
 
-    // 保存执行状态
-    const stateFilename = `state_${state.id}.json`;
+    try {
+      const check = await this.visual.check(
+        {
+          kind: "workflow",
+          name: workflow.name,
+          step: stepNumber,
+          viewport: result.target?.device ?? this.playwright.getViewportLabel(),
+          browser:
+            result.target?.browser ?? this.playwright.getTarget().browser,
+        },
+        screenshot,
+        screenshotPath,
+        ignoreRegions,
+      );
+      if (check.status === "changed") {
+        this.logger.warn(
+          `步骤 ${stepNumber} 截图与基线不一致 (${(check.diffRatio * 100).toFixed(2)}%)`,
+          { workflowId: workflow.id },
+        );
+      }
+      return check;
+    } catch (error) {
+      this.logger.warn(`视觉对比失败: ${(error as Error).message}`, {
+        workflowId: workflow.id,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 保存执行结果、状态、HAR 和截图
+   * @returns 附带 HAR 文件路径和视觉对比结果的执行结果
+   */
+  private async saveExecutionResults(
+    workflow: SOPWorkflow,
+    result: ExecutionResult,
+    executor: WorkflowExecutor,
+  ): Promise<ExecutionResult> {
+    const state = executor.getExecutionState();
     const timestampDir = new Date().toISOString().replace(/:/g, "-");
-    await this.storage.saveTextFile(
-      "execute",
-      timestampDir,
-      stateFilename,
-      JSON.stringify(state, null, 2),
-    );
 
-    // 保存截图（如果有）
+    // 导出 HAR
+    if (this.networkOptions.har !== false) {
+      const harPath = await this.storage.saveTextFile(
+        "execute",
+        timestampDir,
+        `execution_${result.id}.har`,
+        JSON.stringify(executor.getHar(workflow.name), null, 2),
+      );
+      result = { ...result, har: harPath };
+    }
+
+    // 录制网络 fixture
+    if (workflow.fixtures?.mode === "record") {
+      const fixturePath = await NetworkFixtureStore.save(
+        workflow.fixtures,
+        executor.getFixtureHar(workflow.name),
+      );
+      this.logger.info(`已录制网络 fixture: ${fixturePath}`, {
+        workflowId: workflow.id,
+      });
+    }
+
+    // 保存截图（如果有），并与视觉基线对比
+    const visual: VisualCheckResult[] = [];
     for (const stepResult of result.stepResults) {
       if (stepResult.screenshot) {
-        const screenshotFilename = `step_${stepResult.stepNumber}_screenshot.png`;
+        const screenshotFilename =
+          WorkflowExecutor.screenshotFilename(stepResult);
         const base64Data = stepResult.screenshot.replace(
           /^data:image\/\w+;base64,/,
           "",
         );
         const buffer = Buffer.from(base64Data, "base64");
 
-        await this.storage.saveBinaryFile(
+        const screenshotPath = await this.storage.saveBinaryFile(
           "execute",
           timestampDir,
           screenshotFilename,
           buffer,
         );
+
+        const check = await this.checkVisual(
+          workflow,
+          result,
+          stepResult.stepNumber,
+          buffer,
+          screenshotPath,
+          executor.getIgnoreRegions(stepResult.stepNumber),
+        );
+        if (check) {
+          visual.push(check);
+        }
       }
     }
+    if (visual.length > 0) {
+      result = { ...result, visual };
+    }
+
+    // 保存执行结果
+    await this.storage.savePhaseData("execute", result);
+
+    // 保存执行状态
+    const stateFilename = `state_${state.id}.json`;
+    await this.storage.saveTextFile(
+      "execute",
+      timestampDir,
+      stateFilename,
+      JSON.stringify(state, null, 2),
+    );
+
+    return result;
   }
 
   /**
@@ -204,6 +741,9 @@ export class ExecuteAgent {
     lines.push(`**状态**: ${result.status}`);
     lines.push(`**执行时间**: ${result.timestamp}`);
     lines.push(`**持续时长**: ${result.duration}ms`);
+    if (result.dataset) {
+      lines.push(`**数据行**: ${result.dataset.path} #${result.dataset.row}`);
+    }
     lines.push("");
 
     lines.push(`## 步骤结果`);
@@ -213,13 +753,28 @@ export class ExecuteAgent {
 
     result.stepResults.forEach((stepResult) => {
       const error = stepResult.error ?? "-";
+      const iteration = stepResult.iteration?.length
+        ? ` (#${stepResult.iteration.join(".")})`
+        : "";
       lines.push(
-        `| ${stepResult.stepNumber} | ${stepResult.status} | ${stepResult.duration}ms | ${error} |`,
+        `| ${stepResult.stepNumber}${iteration} | ${stepResult.status} | ${stepResult.duration}ms | ${error} |`,
       );
     });
 
     lines.push("");
 
+    if (result.successCriteria?.length) {
+      lines.push(`## 成功标准`);
+      lines.push("");
+      result.successCriteria.forEach((criterion) => {
+        const detail = criterion.result?.message
+          ? ` - ${criterion.result.message}`
+          : "";
+        lines.push(`- [${criterion.status}] ${criterion.description}${detail}`);
+      });
+      lines.push("");
+    }
+
     if (result.logs.length > 0) {
       lines.push(`## 日志`);
       lines.push("");
@@ -0,0 +1,394 @@
+import { Locator, Page } from "playwright";
+import {
+  ComparisonOperator,
+  NetworkRequest,
+  StepValidation,
+  ValidationResult,
+} from "../../types/schemas";
+
+/**
+ * 断言插件的输入
+ */
+export interface AssertionContext {
+  page: Page;
+  /** 步骤的目标元素，未指定 target 时为 null */
+  locator: Locator | null;
+  validation: StepValidation;
+  variables: Record<string, any>;
+}
+
+/**
+ * 断言插件的结果：是否通过，或附带实际值和说明
+ */
+export type AssertionOutcome =
+  boolean | { passed: boolean; actual?: unknown; message?: string };
+
+/**
+ * 断言插件（配置文件 assertions 中注册，custom 验证通过 assertion 名称引用）
+ */
+export type AssertionPlugin = (
+  context: AssertionContext,
+) => AssertionOutcome | Promise<AssertionOutcome>;
+
+/**
+ * 验证时可用的步骤上下文
+ */
+export interface ValidationScope {
+  page: Page;
+  locator: Locator | null;
+  variables: Record<string, any>;
+  /** 步骤期间发出的请求 */
+  requests: () => Promise<NetworkRequest[]>;
+  /** 步骤期间新增的控制台错误 */
+  consoleErrors: () => string[];
+}
+
+/**
+ * 一次检查的结果
+ */
+interface Outcome {
+  actual: unknown;
+  expected: unknown;
+  passed: boolean;
+  message?: string;
+}
+
+/**
+ * 重复检查的间隔（毫秒）
+ */
+const POLL_INTERVAL = 250;
+
+/**
+ * 步骤验证器
+ * 检查步骤的验证条件并给出期望值与实际值，指定 timeout 时在超时前重复检查
+ */
+export class StepValidator {
+  private assertions: Record<string, AssertionPlugin>;
+
+  constructor(assertions: Record<string, AssertionPlugin> = {}) {
+    this.assertions = assertions;
+  }
+
+  /**
+   * 执行验证
+   */
+  async validate(
+    validation: StepValidation,
+    scope: ValidationScope,
+  ): Promise<ValidationResult> {
+    const deadline = Date.now() + (validation.timeout ?? 0);
+    let result = await this.check(validation, scope);
+    while (!result.passed && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+      result = await this.check(validation, scope);
+    }
+    return result;
+  }
+
+  /**
+   * 检查一次，出错时视为未通过
+   */
+  private async check(
+    validation: StepValidation,
+    scope: ValidationScope,
+  ): Promise<ValidationResult> {
+    const operator =
+      validation.operator ?? StepValidator.defaultOperator(validation.type);
+
+    try {
+      const { actual, expected, passed, message } = await this.evaluate(
+        validation,
+        operator,
+        scope,
+      );
+      return {
+        type: validation.type,
+        passed,
+        operator,
+        expected,
+        actual,
+        ...(!passed && {
+          message:
+            message ??
+            `${validation.type} validation failed: expected ${operator} ${StepValidator.format(expected)}, got ${StepValidator.format(actual)}`,
+        }),
+      };
+    } catch (error) {
+      return {
+        type: validation.type,
+        passed: false,
+        operator,
+        expected: validation.expected,
+        actual: null,
+        message: `${validation.type} validation failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  private async evaluate(
+    validation: StepValidation,
+    operator: ComparisonOperator,
+    scope: ValidationScope,
+  ): Promise<Outcome> {
+    const element = scope.locator ?? scope.page.locator("body");
+    const compare = (actual: unknown, expected: unknown) => ({
+      actual,
+      expected,
+      passed: StepValidator.compare(actual, expected, operator),
+    });
+
+    switch (validation.type) {
+      case "exists":
+        return compare(
+          (await element.count()) > 0,
+          validation.expected ?? true,
+        );
+      case "visible":
+        return compare(
+          await element.first().isVisible(),
+          validation.expected ?? true,
+        );
+      case "enabled":
+        return compare(
+          await element.first().isEnabled(),
+          validation.expected ?? true,
+        );
+      case "checked":
+        return compare(
+          await element.first().isChecked(),
+          validation.expected ?? true,
+        );
+      case "text":
+        return compare(
+          (await element.first().textContent()) ?? "",
+          validation.expected,
+        );
+      case "value":
+        return compare(await element.first().inputValue(), validation.expected);
+      case "count":
+        return compare(await element.count(), validation.expected);
+      case "url":
+        return compare(scope.page.url(), validation.expected);
+      case "attribute": {
+        const name = this.requireName(validation);
+        const actual = await element.first().getAttribute(name);
+        // 未指定期望值时只检查属性存在
+        return validation.expected === undefined
+          ? { actual, expected: "(present)", passed: actual !== null }
+          : compare(actual, validation.expected);
+      }
+      case "css": {
+        const name = this.requireName(validation);
+        const actual = await element
+          .first()
+          .evaluate(
+            (node, property) =>
+              getComputedStyle(node).getPropertyValue(property),
+            name,
+          );
+        return compare(actual, validation.expected);
+      }
+      case "request":
+        return await this.checkRequest(validation, operator, scope);
+      case "variable": {
+        const name = this.requireName(validation);
+        const actual = StepValidator.readVariable(scope.variables, name);
+        // 未指定期望值时要求变量为真
+        return validation.expected === undefined
+          ? { actual, expected: "(truthy)", passed: Boolean(actual) }
+          : compare(actual, validation.expected);
+      }
+      case "noConsoleErrors": {
+        const errors = scope.consoleErrors();
+        return { actual: errors, expected: [], passed: errors.length === 0 };
+      }
+      case "custom":
+        return await this.checkCustom(validation, operator, scope);
+    }
+  }
+
+  /**
+   * 步骤期间是否发出了匹配的请求
+   */
+  private async checkRequest(
+    validation: StepValidation,
+    operator: ComparisonOperator,
+    scope: ValidationScope,
+  ): Promise<Outcome> {
+    const expected = validation.request ?? {};
+    const made = validation.expected !== false;
+    const matches = (await scope.requests())
+      .filter(
+        (r) =>
+          (!expected.method ||
+            r.method.toUpperCase() === expected.method.toUpperCase()) &&
+          (!expected.url ||
+            StepValidator.compare(r.url, expected.url, operator)) &&
+          (expected.status === undefined || r.status === expected.status),
+      )
+      .map((r) => ({
+        method: r.method,
+        url: r.url,
+        ...(r.status !== undefined && { status: r.status }),
+      }));
+
+    return {
+      actual: matches,
+      expected: made ? expected : { not: expected },
+      passed: matches.length > 0 === made,
+    };
+  }
+
+  /**
+   * 断言插件或页面内表达式
+   * 表达式在目标元素所在的 frame 中执行，只能访问页面和 `element`
+   */
+  private async checkCustom(
+    validation: StepValidation,
+    operator: ComparisonOperator,
+    scope: ValidationScope,
+  ): Promise<Outcome> {
+    let actual: unknown;
+
+    if (validation.assertion) {
+      const plugin = this.assertions[validation.assertion];
+      if (!plugin) {
+        throw new Error(`Unknown assertion: ${validation.assertion}`);
+      }
+      const outcome = await plugin({
+        page: scope.page,
+        locator: scope.locator,
+        validation,
+        variables: scope.variables,
+      });
+      if (typeof outcome === "boolean") {
+        return { actual: outcome, expected: true, passed: outcome };
+      }
+      return {
+        actual: outcome.actual ?? outcome.passed,
+        expected: validation.expected ?? true,
+        passed: outcome.passed,
+        ...(outcome.message && { message: outcome.message }),
+      };
+    }
+
+    if (!validation.expression) {
+      throw new Error("No expression or assertion specified");
+    }
+
+    if (scope.locator) {
+      const element = await scope.locator.first().elementHandle();
+      if (!element) {
+        throw new Error("Target element not found");
+      }
+      const frame = (await element.ownerFrame()) ?? scope.page.mainFrame();
+      const fn = await frame.evaluateHandle(
+        `(element) => (${validation.expression})`,
+      );
+      try {
+        actual = await element.evaluate(
+          (node, f) => (f as unknown as (node: Element) => unknown)(node),
+          fn,
+        );
+      } finally {
+        await fn.dispose();
+        await element.dispose();
+      }
+    } else {
+      actual = await scope.page.evaluate(`(${validation.expression})`);
+    }
+
+    // 未指定期望值时要求表达式结果为真
+    return validation.expected === undefined
+      ? { actual, expected: "(truthy)", passed: Boolean(actual) }
+      : {
+          actual,
+          expected: validation.expected,
+          passed: StepValidator.compare(actual, validation.expected, operator),
+        };
+  }
+
+  private requireName(validation: StepValidation): string {
+    if (!validation.name) {
+      throw new Error(`No ${validation.type} name specified`);
+    }
+    return validation.name;
+  }
+
+  /**
+   * 读取状态变量，支持 `row.text` 形式的属性路径
+   */
+  static readVariable(variables: Record<string, any>, path: string): any {
+    if (path in variables) {
+      return variables[path];
+    }
+    return path
+      .split(".")
+      .reduce<any>(
+        (value, key) =>
+          value === undefined || value === null ? value : value[key],
+        variables,
+      );
+  }
+
+  /**
+   * 各验证类型的默认比较方式
+   */
+  static defaultOperator(type: StepValidation["type"]): ComparisonOperator {
+    return type === "text" || type === "url" || type === "request"
+      ? "contains"
+      : "equals";
+  }
+
+  /**
+   * 按比较方式比较实际值和期望值
+   * equals 对基本类型按字符串比较（LLM 生成的期望值常为字符串）
+   */
+  static compare(
+    actual: unknown,
+    expected: unknown,
+    operator: ComparisonOperator,
+  ): boolean {
+    switch (operator) {
+      case "equals":
+        return this.equals(actual, expected);
+      case "notEquals":
+        return !this.equals(actual, expected);
+      case "contains":
+        return String(actual ?? "").includes(String(expected ?? ""));
+      case "matches":
+        return this.toRegExp(String(expected)).test(String(actual ?? ""));
+      case "gt":
+        return Number(actual) > Number(expected);
+      case "gte":
+        return Number(actual) >= Number(expected);
+      case "lt":
+        return Number(actual) < Number(expected);
+      case "lte":
+        return Number(actual) <= Number(expected);
+    }
+  }
+
+  private static equals(actual: unknown, expected: unknown): boolean {
+    const primitive = (value: unknown) =>
+      value === null || typeof value !== "object";
+    if (primitive(actual) && primitive(expected)) {
+      return String(actual) === String(expected);
+    }
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  }
+
+  /**
+   * 解析正则表达式，支持 `/pattern/flags` 写法
+   */
+  private static toRegExp(pattern: string): RegExp {
+    const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    return literal
+      ? new RegExp(literal[1] ?? "", literal[2])
+      : new RegExp(pattern);
+  }
+
+  private static format(value: unknown): string {
+    return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+  }
+}
@@ -3,10 +3,38 @@ import {
   SOPStep,
   ExecutionState,
   ExecutionResult,
+  Region,
+  PerformanceMetrics,
+  PerformanceOptions,
+  CritiqueResult,
+  TestDataOptions,
+  StepCondition,
+  StepRange,
+  StepValidation,
+  ValidationResult,
 } from "../../types/schemas";
 import { PlaywrightManager } from "../../core/playwright/PlaywrightManager";
-import { Page } from "playwright";
-import { faker } from "@faker-js/faker";
+import {
+  LocatorResolver,
+  LocatorRoot,
+} from "../../core/playwright/LocatorResolver";
+import {
+  Har,
+  NetworkRecorder,
+  NetworkRecorderOptions,
+} from "../../core/network/NetworkRecorder";
+import { NetworkFixtureStore } from "../../core/network/NetworkFixtureStore";
+import { VisualBaselineStore } from "../../core/visual/VisualBaselineStore";
+import {
+  PerformanceCollector,
+  PerformanceMark,
+} from "../../core/performance/PerformanceCollector";
+import { PerformanceBudgets } from "../../core/performance/PerformanceBudgets";
+import { TestDataGenerator } from "../../core/testdata/TestDataGenerator";
+import { EventBus } from "../../core/events/EventBus";
+import { AssertionPlugin, StepValidator } from "./StepValidator";
+import { LogManager, Logger } from "../../core/logging/LogManager";
+import { ConsoleMessage, Locator, Page } from "playwright";
 import * as crypto from "crypto";
 
 /**
@@ -15,14 +43,106 @@ import * as crypto from "crypto";
  */
 export class WorkflowExecutor {
   private playwright: PlaywrightManager;
+  private events: EventBus;
   private executionState: ExecutionState;
   private currentPage: Page | null = null;
-
-  constructor(playwright: PlaywrightManager) {
+  private recorder: NetworkRecorder;
+  private fixtures: NetworkFixtureStore | null = null;
+  private unrouteFixtures: (() => Promise<void>) | null = null;
+  private ignoreSelectors: string[] = [];
+  private ignoreRegions: Map<number, Region[]> = new Map();
+  private performanceBudgets: PerformanceBudgets | null =
+    new PerformanceBudgets();
+  private performanceIssues: CritiqueResult["issues"] = [];
+  private workflowSteps: SOPStep[] = [];
+  private stepResults: ExecutionResult["stepResults"] = [];
+  private aborted = false;
+  private iterations: number[] = [];
+  private loopElements: Map<string, Locator> = new Map();
+  private validator: StepValidator = new StepValidator();
+  private testDataOptions: TestDataOptions = {};
+  private testData: TestDataGenerator = new TestDataGenerator();
+  private consoleErrors: string[] = [];
+  private consolePage: Page | null = null;
+  private requestMark = 0;
+  private consoleMark = 0;
+  private onConsole = (message: ConsoleMessage) => {
+    if (message.type() === "error") {
+      this.consoleErrors.push(message.text());
+    }
+  };
+  private onPageError = (error: Error) => {
+    this.consoleErrors.push(error.message);
+  };
+  private logger: Logger = LogManager.getLogger("WorkflowExecutor", {
+    phase: "execute",
+  });
+  private runLogger: Logger = this.logger;
+
+  constructor(
+    playwright: PlaywrightManager,
+    events: EventBus = new EventBus(),
+    networkOptions: NetworkRecorderOptions = {},
+  ) {
     this.playwright = playwright;
+    this.events = events;
+    this.recorder = new NetworkRecorder(networkOptions);
     this.executionState = this.createInitialState();
   }
 
+  /**
+   * 设置截图时需要计算区域的忽略选择器（视觉对比使用）
+   */
+  setIgnoreSelectors(selectors: string[]): void {
+    this.ignoreSelectors = selectors;
+  }
+
+  /**
+   * 设置性能采集参数，enabled 为 false 时不采集步骤的性能指标
+   */
+  setPerformanceOptions(options: PerformanceOptions): void {
+    this.performanceBudgets =
+      options.enabled === false
+        ? null
+        : new PerformanceBudgets(options.budgets);
+  }
+
+  /**
+   * 设置测试数据生成参数（faker 种子和语言）
+   */
+  setTestDataOptions(options: TestDataOptions): void {
+    this.testDataOptions = options;
+  }
+
+  /**
+   * 设置 custom 验证可引用的断言插件
+   */
+  setAssertions(assertions: Record<string, AssertionPlugin>): void {
+    this.validator = new StepValidator(assertions);
+  }
+
+  /**
+   * 步骤截图的文件名，循环体内的步骤附加迭代序号
+   */
+  static screenshotFilename(
+    stepResult: Pick<
+      ExecutionResult["stepResults"][number],
+      "stepNumber" | "iteration"
+    >,
+  ): string {
+    const iteration = stepResult.iteration?.length
+      ? `_${stepResult.iteration.join("_")}`
+      : "";
+    return `step_${stepResult.stepNumber}${iteration}_screenshot.png`;
+  }
+
+  /**
+   * 获取步骤截图中的忽略区域
+   */
+  getIgnoreRegions(stepNumber: number): Region[] {
+    return this.ignoreRegions.get(stepNumber) ?? [];
+  }
+
   /**
    * 执行完整工作流
    */
@@ -32,98 +152,99 @@ export class WorkflowExecutor {
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
     const stepResults: ExecutionResult["stepResults"] = [];
+    this.performanceIssues = [];
 
-    console.log(`开始执行工作流: ${workflow.name}`);
+    const logger = this.logger.child({
+      workflowId: workflow.id,
+      executionId: this.executionState.id,
+    });
+    logger.info(`开始执行工作流: ${workflow.name}`);
 
     try {
       // 初始化浏览器
       await this.playwright.initialize();
       this.currentPage = await this.playwright.newPage();
+      this.recorder.attach(this.playwright.getPage());
+      this.consoleErrors = [];
+      this.consolePage = this.playwright.getPage();
+      this.consolePage.on("console", this.onConsole);
+      this.consolePage.on("pageerror", this.onPageError);
+      if (this.performanceBudgets) {
+        await PerformanceCollector.install(this.playwright.getPage());
+      }
 
-      // 更新执行状态
+      // 回放网络 fixture（record 模式由 ExecuteAgent 在执行后写入 fixture）
+      if (workflow.fixtures && workflow.fixtures.mode !== "record") {
+        this.fixtures = await NetworkFixtureStore.load(workflow.fixtures);
+        this.unrouteFixtures = await this.playwright.routeFixtures(
+          this.fixtures,
+        );
+        logger.info(
+          `使用网络 fixture (${this.fixtures.mode}): ${this.fixtures.harPath}`,
+        );
+      }
+
+      // 未配置种子时沿用输入中的 fakerSeed（恢复执行时），否则随机生成
+      this.testData = new TestDataGenerator({
+        ...this.testDataOptions,
+        ...(this.testDataOptions.seed === undefined &&
+          typeof userInputs?.fakerSeed === "number" && {
+            seed: userInputs.fakerSeed,
+          }),
+      });
+      logger.info(
+        `测试数据种子: ${this.testData.seed} (${this.testData.locale})`,
+      );
+
+      // 更新执行状态，记录种子和语言以便复现生成的数据
       this.executionState = {
         ...this.executionState,
         workflowId: workflow.id,
         variables: {
           ...this.executionState.variables,
           ...userInputs,
+          fakerSeed: this.testData.seed,
+          fakerLocale: this.testData.locale,
         },
       };
 
-      // 执行每个步骤
-      for (const step of workflow.steps) {
-        console.log(`  执行步骤 ${step.stepNumber}: ${step.description}`);
-
-        const stepStartTime = Date.now();
-        const stepResult = await this.executeStep(step);
-        const stepDuration = Date.now() - stepStartTime;
-
-        stepResults.push({
-          stepNumber: step.stepNumber,
-          status: stepResult.success ? "success" : "failure",
-          duration: stepDuration,
-          output: stepResult.output,
-          error: stepResult.error,
-          screenshot: stepResult.screenshot,
-        });
-
-        // 如果步骤失败，检查错误处理策略
-        if (!stepResult.success) {
-          const errorHandling = step.errorHandling;
-
-          if (errorHandling?.strategy === "abort") {
-            console.error(`  步骤 ${step.stepNumber} 失败，中止执行`);
-            break;
-          } else if (errorHandling?.strategy === "retry") {
-            // 重试逻辑
-            const maxRetries = errorHandling.maxRetries ?? 3;
-            let retryCount = 0;
-            let retrySuccess = false;
-
-            while (retryCount < maxRetries && !retrySuccess) {
-              retryCount++;
-              console.log(
-                `  重试步骤 ${step.stepNumber} (${retryCount}/${maxRetries})`,
-              );
-              const retryResult = await this.executeStep(step);
-              retrySuccess = retryResult.success;
-
-              if (retrySuccess) {
-                const lastResult = stepResults[stepResults.length - 1];
-                if (lastResult) {
-                  lastResult.status = "success";
-                  lastResult.output = retryResult.output;
-                }
-                break;
-              }
-            }
-
-            if (!retrySuccess) {
-              console.error(`  步骤 ${step.stepNumber} 重试失败`);
-              break;
-            }
-          } else if (errorHandling?.strategy === "skip") {
-            console.warn(`  步骤 ${step.stepNumber} 失败，跳过继续执行`);
-            const lastResult = stepResults[stepResults.length - 1];
-            if (lastResult) {
-              lastResult.status = "skipped";
-            }
-            continue;
-          }
-        }
+      // 执行每个步骤（控制步骤范围内的步骤由控制步骤执行）
+      this.workflowSteps = workflow.steps;
+      this.stepResults = stepResults;
+      this.runLogger = logger;
+      this.aborted = false;
+      await this.runSteps(workflow.steps);
 
-        // 更新当前步骤
-        this.executionState.currentStepNumber = step.stepNumber;
-      }
+      // 步骤都执行完后检查成功标准，未通过时整个执行视为失败
+      const successCriteria = await this.checkSuccessCriteria(workflow);
+      const criteriaFailed = successCriteria.some((c) => c.status === "failed");
 
       const duration = Date.now() - startTime;
-      const allSuccess = stepResults.every((r) => r.status === "success");
-      const anyFailure = stepResults.some((r) => r.status === "failure");
+
+      // 严格回放时出现 fixture 之外的请求，说明 fixture 已过期
+      const fixtureReport = this.fixtures?.getReport();
+      const fixtureViolation =
+        fixtureReport?.mode === "replay-strict" &&
+        fixtureReport.unmatched.length > 0;
+      if (fixtureReport && fixtureReport.unmatched.length > 0) {
+        logger.warn(
+          `${fixtureReport.unmatched.length} 个请求未匹配网络 fixture`,
+        );
+      }
+
+      const allSuccess =
+        stepResults.every((r) => r.status === "success") &&
+        !fixtureViolation &&
+        !criteriaFailed;
+      const anyFailure =
+        stepResults.some((r) => r.status === "failure") ||
+        fixtureViolation ||
+        criteriaFailed;
 
       // 收集截图路径
       const screenshots = stepResults
         .filter((r) => r.screenshot)
-        .map((r) => `step_${r.stepNumber}_screenshot.png`);
+        .map((r) => WorkflowExecutor.screenshotFilename(r));
 
       const result: ExecutionResult = {
         id: crypto.randomUUID(),
@@ -133,8 +254,10 @@ export class WorkflowExecutor {
         status: allSuccess ? "success" : anyFailure ? "failure" : "partial",
         duration,
         stepResults,
+        ...(successCriteria.length > 0 && { successCriteria }),
         screenshots,
         logs: [],
+        ...(fixtureReport && { fixtures: fixtureReport }),
         finalState: this.executionState,
         critique: {
           phaseId: "execute",
@@ -142,11 +265,12 @@ export class WorkflowExecutor {
           confidence: {
             overall: allSuccess ? 0.9 : anyFailure ? 0.3 : 0.6,
             dimensions: {
-              completeness:
-                stepResults.length === workflow.steps.length ? 1 : 0.5,
+              completeness: this.aborted ? 0.5 : 1,
               accuracy: allSuccess ? 1 : 0.5,
               feasibility: 1,
-              coverage: stepResults.length / workflow.steps.length,
+              coverage:
+                new Set(stepResults.map((r) => r.stepNumber)).size /
+                workflow.steps.length,
             },
             reasoning: allSuccess
               ? "All steps completed successfully"
@@ -155,21 +279,38 @@ export class WorkflowExecutor {
                 : "Partial completion",
             humanReviewRequired: anyFailure,
           },
-          issues: stepResults
-            .filter((r) => r.error)
-            .map((r) => ({
-              severity: "high" as const,
-              description: `Step ${r.stepNumber} failed: ${r.error}`,
-            })),
+          issues: [
+            ...stepResults
+              .filter((r) => r.error)
+              .map((r) => ({
+                severity: "high" as const,
+                description: `Step ${r.stepNumber} failed: ${r.error}`,
+              })),
+            ...successCriteria
+              .filter((c) => c.status === "failed")
+              .map((c) => ({
+                severity: "high" as const,
+                description: `Success criterion not met: ${c.description}${c.result?.message ? ` (${c.result.message})` : ""}`,
+              })),
+            ...this.performanceIssues,
+            ...(fixtureViolation
+              ? [
+                  {
+                    severity: "high" as const,
+                    description: `${fixtureReport.unmatched.length} requests not found in network fixture ${fixtureReport.har}`,
+                  },
+                ]
+              : []),
+          ],
           autoCorrections: [],
         },
       };
 
-      console.log(`✓ 工作流执行完成: ${result.status}`);
+      logger.info(`工作流执行完成: ${result.status}`, { duration });
       return result;
     } catch (error) {
       const duration = Date.now() - startTime;
-      console.error("工作流执行失败:", (error as Error).message);
+      logger.error(`工作流执行失败: ${(error as Error).message}`);
 
       return {
         id: crypto.randomUUID(),
@@ -180,7 +321,7 @@ export class WorkflowExecutor {
         duration,
         stepResults,
         screenshots: [],
-        logs: [(error as Error).message],
+        logs: [],
         finalState: this.executionState,
         critique: {
           phaseId: "execute",
@@ -211,6 +352,233 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * 按顺序执行步骤
+   * 属于其中控制步骤（conditional/loop）范围的步骤跳过，由控制步骤执行
+   */
+  private async runSteps(steps: SOPStep[]): Promise<void> {
+    const nested = new Set<number>();
+    for (const step of steps) {
+      for (const range of this.controlRanges(step)) {
+        this.stepsInRange(step, range).forEach((s) => nested.add(s.stepNumber));
+      }
+    }
+
+    for (const step of steps) {
+      if (this.aborted) {
+        return;
+      }
+      if (!nested.has(step.stepNumber)) {
+        await this.runStep(step);
+      }
+    }
+  }
+
+  /**
+   * 执行一个步骤并记录结果，失败时按错误处理策略重试、跳过或中止
+   */
+  private async runStep(step: SOPStep): Promise<void> {
+    const stepLogger = this.runLogger.child({ stepNumber: step.stepNumber });
+    stepLogger.info(`执行步骤 ${step.stepNumber}: ${step.description}`);
+
+    // 控制步骤的耗时包含循环体，性能指标由循环体内的步骤各自采集
+    const isControl = this.controlRanges(step).length > 0;
+    const mark =
+      this.performanceBudgets && !isControl
+        ? await PerformanceCollector.mark(this.playwright.getPage())
+        : null;
+    const iteration = [...this.iterations];
+    if (step.action !== "verify") {
+      this.requestMark = this.recorder.getEntries().length;
+      this.consoleMark = this.consoleErrors.length;
+    }
+    // 控制步骤的结果排在其范围内步骤的结果之前
+    const index = this.stepResults.length;
+    const stepStartTime = Date.now();
+    const stepResult = await this.executeStep(step);
+    const stepDuration = Date.now() - stepStartTime;
+    const performance = isControl
+      ? undefined
+      : await this.collectStepPerformance(step.stepNumber, mark);
+
+    const result: ExecutionResult["stepResults"][number] = {
+      stepNumber: step.stepNumber,
+      status: stepResult.success ? "success" : "failure",
+      duration: stepDuration,
+      output: stepResult.output,
+      error: stepResult.error,
+      screenshot: stepResult.screenshot,
+      ...(performance && { performance }),
+      ...(stepResult.validation && { validation: stepResult.validation }),
+      ...(iteration.length > 0 && { iteration }),
+    };
+    this.stepResults.splice(index, 0, result);
+
+    // 如果步骤失败，检查错误处理策略
+    if (!stepResult.success) {
+      stepLogger.error(`步骤 ${step.stepNumber} 失败: ${stepResult.error}`);
+      this.events.emit("step:failed", {
+        workflowId: this.executionState.workflowId,
+        step,
+        error: stepResult.error ?? "Unknown error",
+      });
+
+      const errorHandling = step.errorHandling;
+
+      if (errorHandling?.strategy === "abort") {
+        stepLogger.error(`步骤 ${step.stepNumber} 失败，中止执行`);
+        this.aborted = true;
+        return;
+      } else if (errorHandling?.strategy === "retry") {
+        // 重试逻辑
+        const maxRetries = errorHandling.maxRetries ?? 3;
+        let retryCount = 0;
+        let retrySuccess = false;
+
+        while (retryCount < maxRetries && !retrySuccess) {
+          retryCount++;
+          stepLogger.warn(
+            `重试步骤 ${step.stepNumber} (${retryCount}/${maxRetries})`,
+          );
+          const retryResult = await this.executeStep(step);
+          retrySuccess = retryResult.success;
+
+          if (retryResult.validation) {
+            result.validation = retryResult.validation;
+          }
+          if (retrySuccess) {
+            result.status = "success";
+            result.output = retryResult.output;
+            break;
+          }
+        }
+
+        if (!retrySuccess) {
+          stepLogger.error(`步骤 ${step.stepNumber} 重试失败`);
+          this.aborted = true;
+          return;
+        }
+      } else if (errorHandling?.strategy === "skip") {
+        stepLogger.warn(`步骤 ${step.stepNumber} 失败，跳过继续执行`);
+        result.status = "skipped";
+        return;
+      }
+    }
+
+    // 更新当前步骤
+    this.executionState.currentStepNumber = step.stepNumber;
+  }
+
+  /**
+   * 控制步骤的步骤范围，普通步骤返回空数组
+   */
+  private controlRanges(step: SOPStep): StepRange[] {
+    if (step.action === "conditional" && step.condition) {
+      return [
+        step.condition.then,
+        ...(step.condition.else ? [step.condition.else] : []),
+      ];
+    }
+    if (step.action === "loop" && step.loop) {
+      return [step.loop.steps];
+    }
+    return [];
+  }
+
+  /**
+   * 范围内的步骤（不包含控制步骤本身）
+   */
+  private stepsInRange(step: SOPStep, range: StepRange): SOPStep[] {
+    return this.workflowSteps.filter(
+      (s) =>
+        s !== step && s.stepNumber >= range.from && s.stepNumber <= range.to,
+    );
+  }
+
+  /**
+   * 检查工作流的成功标准，没有 check 的标准记为 skipped
+   * 请求和控制台错误覆盖整个执行过程
+   */
+  private async checkSuccessCriteria(
+    workflow: SOPWorkflow,
+  ): Promise<NonNullable<ExecutionResult["successCriteria"]>> {
+    const results: NonNullable<ExecutionResult["successCriteria"]> = [];
+    this.requestMark = 0;
+    this.consoleMark = 0;
+
+    for (const criterion of workflow.successCriteria) {
+      if (!criterion.check) {
+        results.push({ description: criterion.description, status: "skipped" });
+        continue;
+      }
+
+      const { target, ...validation } = criterion.check;
+      const step: SOPStep = {
+        stepNumber: 0,
+        action: "verify",
+        description: criterion.description,
+        ...(target && { target }),
+      };
+      let result: ValidationResult;
+      try {
+        result = await this.validateStep(step, validation);
+      } catch (error) {
+        result = {
+          type: validation.type,
+          passed: false,
+          expected: validation.expected,
+          actual: null,
+          message: (error as Error).message,
+        };
+      }
+
+      if (!result.passed) {
+        this.runLogger.warn(
+          `成功标准未通过: ${criterion.description} (${result.message})`,
+        );
+      }
+      results.push({
+        description: criterion.description,
+        status: result.passed ? "passed" : "failed",
+        result,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * 步骤执行后采集性能指标，超出所在路由的预算时记录问题
+   */
+  private async collectStepPerformance(
+    stepNumber: number,
+    mark: PerformanceMark | null,
+  ): Promise<PerformanceMetrics | undefined> {
+    if (!this.performanceBudgets) {
+      return undefined;
+    }
+
+    const page = this.playwright.getPage();
+    if (page.url() === "about:blank") {
+      return undefined;
+    }
+    const performance = await PerformanceCollector.collect(page, mark);
+    if (!performance) {
+      return undefined;
+    }
+
+    const { pathname, search, hash } = new URL(page.url());
+    const route = `${pathname}${search}${hash}`;
+    const violations = this.performanceBudgets.check(route, performance);
+    if (violations.length > 0) {
+      this.performanceIssues.push({
+        severity: "medium",
+        description: `Step ${stepNumber} exceeded performance budget on ${route}: ${PerformanceBudgets.format(violations)}`,
+      });
+    }
+    return performance;
+  }
+
   /**
    * 执行单个步骤
    */
@@ -219,6 +587,7 @@ export class WorkflowExecutor {
     output?: any;
     error?: string;
     screenshot?: string;
+    validation?: ValidationResult;
   }> {
     if (!this.currentPage) {
       return {
@@ -245,6 +614,10 @@ export class WorkflowExecutor {
           return await this.executeScreenshot(step);
         case "extract":
           return await this.executeExtract(step);
+        case "conditional":
+          return await this.executeConditional(step);
+        case "loop":
+          return await this.executeLoop(step);
         default:
           return {
             success: false,
@@ -266,6 +639,7 @@ export class WorkflowExecutor {
     success: boolean;
     output?: any;
     error?: string;
+    validation?: ValidationResult;
   }> {
     if (!step.target?.url) {
       return { success: false, error: "No URL specified" };
@@ -274,14 +648,23 @@ export class WorkflowExecutor {
     await this.playwright.goto(step.target.url);
 
     // 验证
+    let validation: ValidationResult | undefined;
     if (step.validation) {
-      const validationResult = await this.validateStep(step);
-      if (!validationResult.success) {
-        return validationResult;
+      validation = await this.validateStep(step, step.validation);
+      if (!validation.passed) {
+        return {
+          success: false,
+          ...(validation.message && { error: validation.message }),
+          validation,
+        };
       }
     }
 
-    return { success: true, output: { url: step.target.url } };
+    return {
+      success: true,
+      output: { url: step.target.url },
+      ...(validation && { validation }),
+    };
   }
 
   /**
@@ -292,13 +675,14 @@ export class WorkflowExecutor {
     output?: any;
     error?: string;
   }> {
-    if (!step.target?.selector) {
+    if (!this.hasTarget(step)) {
       return { success: false, error: "No selector specified" };
     }
 
-    await this.playwright.click(step.target.selector);
+    const locator = await this.locate(step);
+    await locator.first().click();
 
-    return { success: true, output: { selector: step.target.selector } };
+    return { success: true, output: { selector: step.target?.selector } };
   }
 
   /**
@@ -309,7 +693,7 @@ export class WorkflowExecutor {
     output?: any;
     error?: string;
   }> {
-    if (!step.target?.selector) {
+    if (!this.hasTarget(step)) {
       return { success: false, error: "No selector specified" };
     }
 
@@ -321,22 +705,37 @@ export class WorkflowExecutor {
       const fieldName = step.data.field ?? "value";
       value = this.executionState.variables[fieldName] ?? "";
     } else if (step.data?.source === "faker") {
-      // 使用 faker 生成
-      value = this.generateFakerValue(step.data.fakerMethod ?? "name");
+      // 使用 faker 生成，未指定方法时按字段约束生成
+      value = this.testData.generate(
+        step.data.fakerMethod,
+        step.target?.constraints,
+      );
+      // 未指定字段名的生成值按步骤编号记录
+      if (!step.data.field) {
+        this.executionState.variables[`step${step.stepNumber}`] = value;
+      }
+    } else if (step.data?.source === "state") {
+      // 从状态变量（包括循环变量）获取，如 `row.text`
+      const state = this.getVariable(step.data.field ?? "value");
+      value = state === undefined || state === null ? "" : String(state);
     } else if (step.data?.source === "constant") {
       value = step.data.value ?? "";
     } else {
-      value = step.target.value ?? "";
+      value = step.target?.value ?? "";
     }
 
-    await this.playwright.fill(step.target.selector, value);
+    const locator = await this.locate(step);
+    await locator.first().fill(value);
 
     // 保存到状态
-    if (step.data?.field) {
+    if (step.data?.field && step.data.source !== "state") {
       this.executionState.variables[step.data.field] = value;
     }
 
-    return { success: true, output: { selector: step.target.selector, value } };
+    return {
+      success: true,
+      output: { selector: step.target?.selector, value },
+    };
   }
 
   /**
@@ -347,18 +746,12 @@ export class WorkflowExecutor {
     output?: any;
     error?: string;
   }> {
-    if (!step.target?.selector || !step.target.value) {
+    if (!this.hasTarget(step) || !step.target?.value) {
       return { success: false, error: "No selector or value specified" };
     }
 
-    if (!this.currentPage) {
-      return { success: false, error: "No active page" };
-    }
-
-    await this.currentPage.selectOption(
-      step.target.selector,
-      step.target.value,
-    );
+    const locator = await this.locate(step);
+    await locator.first().selectOption(step.target.value);
 
     return {
       success: true,
@@ -376,11 +769,10 @@ export class WorkflowExecutor {
   }> {
     const timeout = _step.validation?.timeout ?? 5000;
 
-    if (_step.target?.selector) {
+    if (this.hasTarget(_step)) {
       // 等待元素
-      await this.currentPage?.waitForSelector(_step.target.selector, {
-        timeout,
-      });
+      const locator = await this.locate(_step);
+      await locator.first().waitFor({ timeout });
     } else {
       // 简单延迟
       await new Promise((resolve) => setTimeout(resolve, timeout));
@@ -396,19 +788,38 @@ export class WorkflowExecutor {
     success: boolean;
     output?: any;
     error?: string;
+    validation?: ValidationResult;
   }> {
-    return await this.validateStep(step);
+    if (!step.validation) {
+      return { success: true };
+    }
+
+    const validation = await this.validateStep(step, step.validation);
+    return {
+      success: validation.passed,
+      ...(validation.message && { error: validation.message }),
+      validation,
+    };
   }
 
   /**
    * 执行截图
    */
-  private async executeScreenshot(_step: SOPStep): Promise<{
+  private async executeScreenshot(step: SOPStep): Promise<{
     success: boolean;
     output?: any;
     screenshot?: string;
   }> {
     const screenshot = await this.playwright.screenshot({ fullPage: true });
+    if (this.ignoreSelectors.length > 0) {
+      this.ignoreRegions.set(
+        step.stepNumber,
+        await VisualBaselineStore.computeIgnoreRegions(
+          this.playwright.getPage(),
+          this.ignoreSelectors,
+        ),
+      );
+    }
     const base64 = screenshot.toString("base64");
 
     return {
@@ -425,11 +836,12 @@ export class WorkflowExecutor {
     output?: any;
     error?: string;
   }> {
-    if (!step.target?.selector || !this.currentPage) {
+    if (!this.hasTarget(step)) {
       return { success: false, error: "No selector specified" };
     }
 
-    const text = await this.currentPage.textContent(step.target.selector);
+    const locator = await this.locate(step);
+    const text = await locator.first().textContent();
 
     // 保存到状态
     if (step.data?.field) {
@@ -440,110 +852,237 @@ export class WorkflowExecutor {
   }
 
   /**
-   * 验证步骤结果
+   * 执行条件分支：条件成立时执行 then 范围，否则执行 else 范围
    */
-  private async validateStep(step: SOPStep): Promise<{
+  private async executeConditional(step: SOPStep): Promise<{
     success: boolean;
     output?: any;
     error?: string;
   }> {
-    if (!step.validation || !this.currentPage) {
-      return { success: true };
+    if (!step.condition) {
+      return { success: false, error: "No condition specified" };
     }
 
-    try {
-      switch (step.validation.type) {
-        case "exists": {
-          const selector = step.target?.selector ?? "body";
-          const element = await this.currentPage.$(selector);
-          const exists = element !== null;
-
-          if (exists !== step.validation.expected) {
-            return {
-              success: false,
-              error: `Element ${selector} existence check failed`,
-            };
-          }
-          break;
-        }
+    const matched = await this.evaluateCondition(step, step.condition);
+    const range = matched ? step.condition.then : step.condition.else;
+    this.runLogger.info(
+      `步骤 ${step.stepNumber} 条件${matched ? "成立" : "不成立"}`,
+    );
+    if (range) {
+      await this.runSteps(this.stepsInRange(step, range));
+    }
 
-        case "visible": {
-          const selector = step.target?.selector ?? "body";
-          const isVisible = await this.currentPage.isVisible(selector);
+    return {
+      success: true,
+      output: { matched, branch: matched ? "then" : "else" },
+    };
+  }
 
-          if (isVisible !== step.validation.expected) {
-            return {
-              success: false,
-              error: `Element ${selector} visibility check failed`,
-            };
-          }
-          break;
-        }
+  /**
+   * 计算条件是否成立
+   */
+  private async evaluateCondition(
+    step: SOPStep,
+    condition: StepCondition,
+  ): Promise<boolean> {
+    let matched: boolean;
+
+    switch (condition.type) {
+      case "exists":
+        matched = (await (await this.locate(step)).count()) > 0;
+        break;
+      case "visible":
+        matched = await (await this.locate(step)).first().isVisible();
+        break;
+      case "text": {
+        const locator = this.hasTarget(step)
+          ? (await this.locate(step)).first()
+          : this.playwright.getPage().locator("body");
+        const text = (await locator.textContent()) ?? "";
+        matched = text.includes(String(condition.value ?? ""));
+        break;
+      }
+      case "url":
+        matched = this.playwright
+          .getPage()
+          .url()
+          .includes(String(condition.value ?? ""));
+        break;
+      case "variable": {
+        const value = this.getVariable(condition.variable ?? "");
+        matched =
+          condition.value === undefined
+            ? Boolean(value)
+            : String(value) === String(condition.value);
+        break;
+      }
+    }
 
-        case "text": {
-          const selector = step.target?.selector ?? "body";
-          const text = await this.currentPage.textContent(selector);
-          const expectedText = String(step.validation.expected);
+    return condition.negate ? !matched : matched;
+  }
 
-          if (!text?.includes(expectedText)) {
-            return {
-              success: false,
-              error: `Text validation failed: expected "${expectedText}", got "${text}"`,
-            };
-          }
-          break;
+  /**
+   * 执行循环：每次迭代设置循环变量后执行循环体范围
+   * elements 循环的循环变量为 `{ index, text }`，循环体可用 target.within 在当前元素内定位
+   */
+  private async executeLoop(step: SOPStep): Promise<{
+    success: boolean;
+    output?: any;
+    error?: string;
+  }> {
+    const loop = step.loop;
+    if (!loop) {
+      return { success: false, error: "No loop specified" };
+    }
+
+    const name = loop.as ?? "item";
+    let items: unknown[];
+    let elements: Locator | null = null;
+
+    switch (loop.type) {
+      case "count":
+        items = Array.from({ length: loop.count ?? 0 }, (_, i) => i);
+        break;
+      case "list": {
+        const list = this.getVariable(loop.variable ?? "");
+        if (!Array.isArray(list)) {
+          return {
+            success: false,
+            error: `Loop variable ${loop.variable} is not a list`,
+          };
+        }
+        items = list;
+        break;
+      }
+      case "elements": {
+        if (!this.hasTarget(step)) {
+          return { success: false, error: "No selector specified" };
         }
+        const root = this.scope(step);
+        const candidate = step.target?.locators?.[0];
+        elements = step.target?.selector
+          ? root.locator(step.target.selector)
+          : LocatorResolver.toLocator(root, candidate!);
+        items = Array.from({ length: await elements.count() }, (_, i) => i);
+        break;
+      }
+    }
 
-        case "value": {
-          const selector = step.target?.selector ?? "";
-          const value = await this.currentPage.inputValue(selector);
+    const maxIterations = loop.maxIterations ?? 100;
+    if (items.length > maxIterations) {
+      this.runLogger.warn(
+        `步骤 ${step.stepNumber} 循环 ${items.length} 次超过上限，只执行 ${maxIterations} 次`,
+      );
+    }
 
-          if (value !== step.validation.expected) {
-            return {
-              success: false,
-              error: `Value validation failed: expected "${step.validation.expected}", got "${value}"`,
-            };
-          }
-          break;
+    const body = this.stepsInRange(step, loop.steps);
+    let iterations = 0;
+    try {
+      for (
+        let i = 0;
+        i < Math.min(items.length, maxIterations) && !this.aborted;
+        i++
+      ) {
+        let value = items[i];
+        if (elements) {
+          const element = elements.nth(i);
+          this.loopElements.set(name, element);
+          value = {
+            index: i,
+            text: ((await element.textContent()) ?? "").trim(),
+          };
         }
+        this.executionState.variables[name] = value;
+        this.executionState.variables[`${name}Index`] = i;
+
+        this.iterations.push(i);
+        try {
+          await this.runSteps(body);
+        } finally {
+          this.iterations.pop();
+        }
+        iterations++;
       }
-
-      return { success: true };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Validation failed: ${(error as Error).message}`,
-      };
+    } finally {
+      this.loopElements.delete(name);
     }
+
+    return { success: true, output: { iterations, total: items.length } };
   }
 
   /**
-   * 生成 Faker 值
+   * 读取状态变量，支持 `row.text` 形式的属性路径
    */
-  private generateFakerValue(method: string): string {
-    const parts = method.split(".");
+  private getVariable(path: string): any {
+    return StepValidator.readVariable(this.executionState.variables, path);
+  }
 
-    if (parts.length === 1) {
-      // 简单方法
-      switch (method) {
-        case "name":
-          return faker.person.fullName();
-        case "email":
-          return faker.internet.email();
-        case "phone":
-          return faker.phone.number();
-        case "address":
-          return faker.location.streetAddress();
-        case "company":
-          return faker.company.name();
-        default:
-          return faker.lorem.word();
+  /**
+   * 验证步骤结果
+   * 请求和控制台错误取自当前操作步骤开始之后（verify 步骤沿用上一个操作步骤的起点）
+   */
+  private async validateStep(
+    step: SOPStep,
+    validation: StepValidation,
+  ): Promise<ValidationResult> {
+    const page = this.playwright.getPage();
+    const locator = this.hasTarget(step) ? await this.locate(step) : null;
+
+    return await this.validator.validate(validation, {
+      page,
+      locator,
+      variables: this.executionState.variables,
+      requests: async () => {
+        await this.recorder.flush();
+        return this.recorder.getEntries().slice(this.requestMark);
+      },
+      consoleErrors: () => this.consoleErrors.slice(this.consoleMark),
+    });
+  }
+
+  /**
+   * 步骤是否指定了目标元素（选择器或定位器候选）
+   */
+  private hasTarget(step: SOPStep): boolean {
+    return Boolean(step.target?.selector || step.target?.locators?.length);
+  }
+
+  /**
+   * 定位步骤的目标元素
+   * 在 framePath 指定的 iframe 中按顺序尝试扫描阶段生成的定位器候选，
+   * 都不可用时回退到 selector；返回的 Locator 可能匹配多个元素（供 count 验证和循环使用），
+   * 单元素操作使用 `.first()`
+   */
+  private async locate(step: SOPStep): Promise<Locator> {
+    const { locator, candidate, ambiguous } = await LocatorResolver.resolve(
+      this.scope(step),
+      step.target?.locators,
+      step.target?.selector,
+    );
+    if (ambiguous && candidate) {
+      this.runLogger.warn(
+        `步骤 ${step.stepNumber} 的定位器候选都不唯一，使用匹配多个元素的 ${candidate.strategy} 候选: ${candidate.value}`,
+      );
+    }
+    return locator;
+  }
+
+  /**
+   * 目标的查找范围：target.within 指定的循环元素，或 framePath 指定的 iframe
+   */
+  private scope(step: SOPStep): LocatorRoot {
+    const within = step.target?.within;
+    if (within) {
+      const element = this.loopElements.get(within);
+      if (!element) {
+        throw new Error(`Loop variable ${within} is not an element`);
       }
-    } else {
-      // 复杂方法，如 "person.firstName"
-      // 这里简化处理
-      return faker.person.fullName();
+      return element;
     }
+    return LocatorResolver.frameScope(
+      this.playwright.getPage(),
+      step.target?.framePath,
+    );
   }
 
   /**
@@ -572,10 +1111,40 @@ export class WorkflowExecutor {
     return { ...this.executionState };
   }
 
+  /**
+   * 获取执行期间记录的网络请求（HAR 格式）
+   */
+  getHar(title: string): Har {
+    return this.recorder.toHar(title);
+  }
+
+  /**
+   * 获取录制网络 fixture 用的 HAR（响应体为完整的原始内容）
+   */
+  getFixtureHar(title: string): Har {
+    return this.recorder.toFixtureHar(title);
+  }
+
   /**
    * 清理资源
    */
   private async cleanup(): Promise<void> {
+    if (this.unrouteFixtures) {
+      await this.unrouteFixtures();
+      this.unrouteFixtures = null;
+    }
+    this.recorder.detach();
+    await this.recorder.flush();
+    // 浏览器启动失败时没有挂载过监听器
+    if (this.consolePage) {
+      try {
+        this.consolePage.off("console", this.onConsole);
+        this.consolePage.off("pageerror", this.onPageError);
+      } catch {
+        // 页面已关闭
+      }
+      this.consolePage = null;
+    }
     if (this.currentPage) {
       await this.currentPage.close().catch(() => {});
       this.currentPage = null;
@@ -2,9 +2,11 @@ import {
   SOPWorkflow,
   PageMetadata,
   DerivedTestCase,
+  PhaseOptions,
 } from "../../types/schemas";
 import { LLMProviderManager } from "../../core/llm/LLMProviderManager";
 import { StorageManager } from "../../core/storage/StorageManager";
+import { LogManager, Logger } from "../../core/logging/LogManager";
 import { ErrorPatternLibrary } from "./level1/ErrorPatternLibrary";
 import { MutationEngine } from "./level2/MutationEngine";
 import { SystemMessage, HumanMessage } from "@langchain/core/messages";
@@ -17,6 +19,9 @@ import * as crypto from "crypto";
 export class DeriveAgent {
   private llmManager: LLMProviderManager;
   private storage: StorageManager;
+  private logger: Logger = LogManager.getLogger("DeriveAgent", {
+    phase: "derive",
+  });
 
   constructor(llmManager: LLMProviderManager, storage: StorageManager) {
     this.llmManager = llmManager;
@@ -29,42 +34,39 @@ export class DeriveAgent {
   async derive(
     workflow: SOPWorkflow,
     metadata?: PageMetadata,
-    options?: {
-      level1Count?: number;
-      level2Count?: number;
-      level3Count?: number;
-    },
+    options?: PhaseOptions["derive"],
   ): Promise<DerivedTestCase[]> {
-    console.log(`开始为工作流 "${workflow.name}" 派生测试用例...`);
+    const logger = this.logger.child({ workflowId: workflow.id });
+    logger.info(`开始为工作流 "${workflow.name}" 派生测试用例...`);
 
     const allTestCases: DerivedTestCase[] = [];
 
     // Level 1: 错误模式库
-    console.log("  Level 1: 应用错误模式库...");
+    logger.debug("Level 1: 应用错误模式库...");
     const level1Cases = ErrorPatternLibrary.generateAll(workflow);
     const level1Selected = level1Cases.slice(0, options?.level1Count ?? 10);
     allTestCases.push(...level1Selected);
-    console.log(`    生成 ${level1Selected.length} 个错误模式测试`);
+    logger.info(`Level 1 生成 ${level1Selected.length} 个错误模式测试`);
 
     // Level 2: 变异引擎
-    console.log("  Level 2: 应用变异引擎...");
+    logger.debug("Level 2: 应用变异引擎...");
     const level2Cases = MutationEngine.generateAll(
       workflow,
       options?.level2Count ?? 5,
     );
     allTestCases.push(...level2Cases);
-    console.log(`    生成 ${level2Cases.length} 个变异测试`);
+    logger.info(`Level 2 生成 ${level2Cases.length} 个变异测试`);
 
     // Level 3: LLM 推理边界情况
     if (metadata) {
-      console.log("  Level 3: LLM 推理边界情况...");
+      logger.debug("Level 3: LLM 推理边界情况...");
       const level3Cases = await this.generateLLMEdgeCases(
         workflow,
         metadata,
         options?.level3Count ?? 3,
       );
       allTestCases.push(...level3Cases);
-      console.log(`    生成 ${level3Cases.length} 个 LLM 推理测试`);
+      logger.info(`Level 3 生成 ${level3Cases.length} 个 LLM 推理测试`);
     }
 
     // 保存派生测试用例
@@ -72,7 +74,7 @@ export class DeriveAgent {
       await this.storage.savePhaseData("derive", testCase);
     }
 
-    console.log(`✓ 总共生成 ${allTestCases.length} 个派生测试用例`);
+    logger.info(`总共生成 ${allTestCases.length} 个派生测试用例`);
 
     return allTestCases;
   }
@@ -130,7 +132,9 @@ ${workflow.steps.map((s) => `${s.stepNumber}. ${s.action}: ${s.description}`).jo
         .slice(0, count)
         .map((scenario) => this.createLLMTestCase(workflow, scenario));
     } catch (error) {
-      console.error("LLM edge case generation failed:", error);
+      this.logger.error(
+        `LLM edge case generation failed: ${(error as Error).message}`,
+      );
       return [];
     }
   }
@@ -159,7 +163,9 @@ ${workflow.steps.map((s) => `${s.stepNumber}. ${s.action}: ${s.description}`).jo
       const parsed = JSON.parse(jsonContent);
       return Array.isArray(parsed) ? parsed : [parsed];
     } catch (error) {
-      console.warn("Failed to parse LLM response:", error);
+      this.logger.warn(
+        `Failed to parse LLM response: ${(error as Error).message}`,
+      );
       return [];
     }
   }
@@ -232,18 +238,19 @@ ${workflow.steps.map((s) => `${s.stepNumber}. ${s.action}: ${s.description}`).jo
   async deriveBatch(
     workflows: SOPWorkflow[],
     metadataMap?: Map<string, PageMetadata>,
+    options?: PhaseOptions["derive"],
   ): Promise<Map<string, DerivedTestCase[]>> {
     const results = new Map<string, DerivedTestCase[]>();
 
     for (const workflow of workflows) {
       try {
         const metadata = metadataMap?.get(workflow.id);
-        const testCases = await this.derive(workflow, metadata);
+        const testCases = await this.derive(workflow, metadata, options);
         results.set(workflow.id, testCases);
       } catch (error) {
-        console.error(
-          `派生失败 for ${workflow.name}:`,
-          (error as Error).message,
+        this.logger.error(
+          `派生失败 for ${workflow.name}: ${(error as Error).message}`,
+          { workflowId: workflow.id },
         );
         results.set(workflow.id, []);
       }
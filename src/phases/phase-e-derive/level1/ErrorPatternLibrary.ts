@@ -7,33 +7,63 @@ import { SOPWorkflow, DerivedTestCase } from "../../../types/schemas";
 export class ErrorPatternLibrary {
   /**
    * 生成边界值测试
+   * 步骤带有字段约束时按 maxLength / minLength / min / max 生成边界值
    */
   static generateBoundaryValueTests(workflow: SOPWorkflow): DerivedTestCase[] {
     const testCases: DerivedTestCase[] = [];
 
     workflow.steps.forEach((step) => {
+      const constraints = step.target?.constraints;
+
       if (step.action === "input" && step.target?.selector) {
-        // 空字符串
-        testCases.push(
-          this.createTestCase(workflow, step.stepNumber, {
-            mutationType: "boundary_value",
-            description: "测试空字符串输入",
-            originalValue: step.data?.value,
-            mutatedValue: "",
-            expectedBehavior: "应显示'必填字段'错误或阻止提交",
-          }),
-        );
+        // 空字符串（已知为非必填字段时，空值是合法输入）
+        if (!constraints || constraints.required) {
+          testCases.push(
+            this.createTestCase(workflow, step.stepNumber, {
+              mutationType: "boundary_value",
+              description: "测试空字符串输入",
+              originalValue: step.data?.value,
+              mutatedValue: "",
+              expectedBehavior: "应显示'必填字段'错误或阻止提交",
+            }),
+          );
+        }
 
         // 超长字符串
-        testCases.push(
-          this.createTestCase(workflow, step.stepNumber, {
-            mutationType: "boundary_value",
-            description: "测试超长字符串",
-            originalValue: step.data?.value,
-            mutatedValue: "A".repeat(10000),
-            expectedBehavior: "应限制输入长度或显示错误",
-          }),
-        );
+        if (constraints?.maxLength !== undefined) {
+          testCases.push(
+            this.createTestCase(workflow, step.stepNumber, {
+              mutationType: "boundary_value",
+              description: `测试超过最大长度 (maxLength=${constraints.maxLength})`,
+              originalValue: step.data?.value,
+              mutatedValue: "A".repeat(constraints.maxLength + 1),
+              expectedBehavior: `应截断到 ${constraints.maxLength} 个字符或显示长度错误`,
+            }),
+          );
+        } else {
+          testCases.push(
+            this.createTestCase(workflow, step.stepNumber, {
+              mutationType: "boundary_value",
+              description: "测试超长字符串",
+              originalValue: step.data?.value,
+              mutatedValue: "A".repeat(10000),
+              expectedBehavior: "应限制输入长度或显示错误",
+            }),
+          );
+        }
+
+        // 低于最小长度
+        if (constraints?.minLength !== undefined && constraints.minLength > 1) {
+          testCases.push(
+            this.createTestCase(workflow, step.stepNumber, {
+              mutationType: "boundary_value",
+              description: `测试低于最小长度 (minLength=${constraints.minLength})`,
+              originalValue: step.data?.value,
+              mutatedValue: "A".repeat(constraints.minLength - 1),
+              expectedBehavior: "应显示最小长度错误或阻止提交",
+            }),
+          );
+        }
 
         // 特殊字符
         testCases.push(
@@ -48,28 +78,55 @@ export class ErrorPatternLibrary {
       }
 
       // 数字边界值
-      if (
-        step.action === "input" &&
-        step.data?.fakerMethod?.includes("number")
-      ) {
+      const isNumeric = constraints
+        ? constraints.type === "number" || constraints.type === "range"
+        : step.data?.fakerMethod?.includes("number");
+      if (step.action === "input" && isNumeric) {
+        const min = this.toNumber(constraints?.min);
+        const max = this.toNumber(constraints?.max);
+
         testCases.push(
-          this.createTestCase(workflow, step.stepNumber, {
-            mutationType: "boundary_value",
-            description: "测试负数",
-            originalValue: step.data?.value,
-            mutatedValue: -1,
-            expectedBehavior: "应拒绝负数或显示错误",
-          }),
+          this.createTestCase(
+            workflow,
+            step.stepNumber,
+            min !== undefined
+              ? {
+                  mutationType: "boundary_value",
+                  description: `测试低于最小值 (min=${min})`,
+                  originalValue: step.data?.value,
+                  mutatedValue: min - 1,
+                  expectedBehavior: `应拒绝小于 ${min} 的值`,
+                }
+              : {
+                  mutationType: "boundary_value",
+                  description: "测试负数",
+                  originalValue: step.data?.value,
+                  mutatedValue: -1,
+                  expectedBehavior: "应拒绝负数或显示错误",
+                },
+          ),
         );
 
         testCases.push(
-          this.createTestCase(workflow, step.stepNumber, {
-            mutationType: "boundary_value",
-            description: "测试超大数字",
-            originalValue: step.data?.value,
-            mutatedValue: Number.MAX_SAFE_INTEGER,
-            expectedBehavior: "应处理或限制超大数字",
-          }),
+          this.createTestCase(
+            workflow,
+            step.stepNumber,
+            max !== undefined
+              ? {
+                  mutationType: "boundary_value",
+                  description: `测试超过最大值 (max=${max})`,
+                  originalValue: step.data?.value,
+                  mutatedValue: max + 1,
+                  expectedBehavior: `应拒绝大于 ${max} 的值`,
+                }
+              : {
+                  mutationType: "boundary_value",
+                  description: "测试超大数字",
+                  originalValue: step.data?.value,
+                  mutatedValue: Number.MAX_SAFE_INTEGER,
+                  expectedBehavior: "应处理或限制超大数字",
+                },
+          ),
         );
       }
     });
@@ -79,6 +136,7 @@ export class ErrorPatternLibrary {
 
   /**
    * 生成无效输入测试
+   * 优先按字段约束的 type / pattern 判断，没有约束时按选择器和 faker 方法推断
    */
   static generateInvalidInputTests(workflow: SOPWorkflow): DerivedTestCase[] {
     const testCases: DerivedTestCase[] = [];
@@ -86,10 +144,15 @@ export class ErrorPatternLibrary {
     workflow.steps.forEach((step) => {
       if (step.action === "input" && step.target?.selector) {
         const selector = step.target.selector;
+        const constraints = step.target.constraints;
+        const isType = (type: string, keywords: string[]) =>
+          constraints
+            ? constraints.type === type
+            : keywords.some((keyword) => selector.includes(keyword));
 
         // 邮箱字段
         if (
-          selector.includes("email") ||
+          isType("email", ["email"]) ||
           step.data?.fakerMethod?.includes("email")
         ) {
           testCases.push(
@@ -105,8 +168,7 @@ export class ErrorPatternLibrary {
 
         // 电话字段
         if (
-          selector.includes("phone") ||
-          selector.includes("tel") ||
+          isType("tel", ["phone", "tel"]) ||
           step.data?.fakerMethod?.includes("phone")
         ) {
           testCases.push(
@@ -121,7 +183,7 @@ export class ErrorPatternLibrary {
         }
 
         // URL 字段
-        if (selector.includes("url") || selector.includes("website")) {
+        if (isType("url", ["url", "website"])) {
           testCases.push(
             this.createTestCase(workflow, step.stepNumber, {
               mutationType: "invalid_input",
@@ -132,6 +194,22 @@ export class ErrorPatternLibrary {
             }),
           );
         }
+
+        // 不符合 pattern 的输入
+        const violation = constraints?.pattern
+          ? this.findPatternViolation(constraints.pattern)
+          : null;
+        if (violation !== null) {
+          testCases.push(
+            this.createTestCase(workflow, step.stepNumber, {
+              mutationType: "invalid_input",
+              description: `测试不符合格式的输入 (pattern=${constraints!.pattern})`,
+              originalValue: step.data?.value,
+              mutatedValue: violation,
+              expectedBehavior: "应显示格式错误或阻止提交",
+            }),
+          );
+        }
       }
     });
 
@@ -140,12 +218,15 @@ export class ErrorPatternLibrary {
 
   /**
    * 生成缺失必填字段测试
+   * 已知为非必填的字段不生成
    */
   static generateMissingFieldTests(workflow: SOPWorkflow): DerivedTestCase[] {
     const testCases: DerivedTestCase[] = [];
 
     // 查找所有输入步骤
-    const inputSteps = workflow.steps.filter((s) => s.action === "input");
+    const inputSteps = workflow.steps.filter(
+      (s) => s.action === "input" && (s.target?.constraints?.required ?? true),
+    );
 
     inputSteps.forEach((step) => {
       testCases.push(
@@ -237,6 +318,33 @@ export class ErrorPatternLibrary {
     ];
   }
 
+  /**
+   * 解析数字约束（日期等非数字的 min/max 返回 undefined）
+   */
+  private static toNumber(value: string | undefined): number | undefined {
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  /**
+   * 找一个不符合 HTML pattern 属性的输入值
+   */
+  private static findPatternViolation(pattern: string): string | null {
+    let regex: RegExp;
+    try {
+      // HTML 的 pattern 匹配整个值
+      regex = new RegExp(`^(?:${pattern})$`, "u");
+    } catch {
+      return null;
+    }
+    return (
+      ["!@#$%", "abc", "123", "a1", " "].find(
+        (candidate) => !regex.test(candidate),
+      ) ?? null
+    );
+  }
+
   /**
    * 创建测试用例
    */
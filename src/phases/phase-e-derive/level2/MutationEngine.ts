@@ -1,5 +1,8 @@
 import { SOPWorkflow, DerivedTestCase, SOPStep } from "../../../types/schemas";
 import * as crypto from "crypto";
+import { LogManager } from "../../../core/logging/LogManager";
+
+const logger = LogManager.getLogger("MutationEngine", { phase: "derive" });
 
 /**
  * Level 2: 变异引擎
@@ -225,9 +228,10 @@ export class MutationEngine {
 
       const originalSelector = randomStep.target?.selector ?? "";
 
-      // 修改选择器（添加后缀使其无效）
+      // 修改选择器（添加后缀使其无效），同时移除定位器候选，避免执行时回退成功
       if (randomStep.target) {
         randomStep.target.selector = originalSelector + "-invalid";
+        delete randomStep.target.locators;
       }
 
       return {
@@ -280,7 +284,7 @@ export class MutationEngine {
           testCases.push(mutationFn());
         }
       } catch (error) {
-        console.warn("Mutation generation failed:", error);
+        logger.warn(`Mutation generation failed: ${(error as Error).message}`);
       }
     }
 
@@ -41,11 +41,115 @@ export const CritiqueResultSchema = z.object({
 
 export type CritiqueResult = z.infer<typeof CritiqueResultSchema>;
 
+/**
+ * 元素定位器候选
+ */
+export const LocatorCandidateSchema = z.object({
+  strategy: z.enum([
+    "testid",
+    "role",
+    "label",
+    "placeholder",
+    "text",
+    "css",
+    "xpath",
+  ]),
+  value: z
+    .string()
+    .describe("testid 值 / ARIA 角色 / 标签文本 / 占位符 / 文本 / CSS / XPath"),
+  name: z.string().optional().describe("role 策略的可访问名称"),
+  attribute: z
+    .string()
+    .optional()
+    .describe("testid 策略使用的属性 (默认 data-testid)"),
+  unique: z.boolean().describe("扫描时是否在页面中唯一匹配"),
+});
+
+export type LocatorCandidate = z.infer<typeof LocatorCandidateSchema>;
+
+/**
+ * 元素的 ARIA 状态（只记录元素上存在的状态）
+ */
+export const ElementStatesSchema = z.object({
+  disabled: z.boolean().optional(),
+  expanded: z.boolean().optional(),
+  checked: z.union([z.boolean(), z.literal("mixed")]).optional(),
+  selected: z.boolean().optional(),
+  pressed: z.union([z.boolean(), z.literal("mixed")]).optional(),
+});
+
+export type ElementStates = z.infer<typeof ElementStatesSchema>;
+
+/**
+ * 元素提取模式
+ * selectors: 按固定的 CSS 选择器列表提取；
+ * accessibility: 按无障碍树提取所有可操作节点（自定义控件、contenteditable 等）
+ */
+export const ElementExtractionModeSchema = z.enum([
+  "selectors",
+  "accessibility",
+]);
+
+export type ElementExtractionMode = z.infer<typeof ElementExtractionModeSchema>;
+
+/**
+ * 无障碍问题严重程度（与 axe-core 的 impact 一致）
+ */
+export const A11ySeveritySchema = z.enum([
+  "critical",
+  "serious",
+  "moderate",
+  "minor",
+]);
+
+export type A11ySeverity = z.infer<typeof A11ySeveritySchema>;
+
+/**
+ * 无障碍审计发现的问题
+ */
+export const A11yViolationSchema = z.object({
+  rule: z.string().describe("规则 ID，与 axe-core 命名一致，如 image-alt"),
+  severity: A11ySeveritySchema,
+  description: z.string(),
+  elements: z.array(
+    z.object({
+      selector: z.string(),
+      snippet: z.string().optional().describe("元素 HTML 片段"),
+      detail: z.string().optional().describe("补充信息，如实际对比度"),
+    }),
+  ),
+});
+
+export type A11yViolation = z.infer<typeof A11yViolationSchema>;
+
+/**
+ * 无障碍审计参数
+ */
+export const AccessibilityAuditSchema = z.object({
+  enabled: z.boolean().optional().describe("扫描时执行无障碍审计 (默认 true)"),
+  disabledRules: z
+    .array(z.string())
+    .optional()
+    .describe("跳过的规则 ID，如 color-contrast"),
+  keyboard: z
+    .boolean()
+    .optional()
+    .describe("模拟 Tab 键检查键盘陷阱 (默认 true)"),
+});
+
+export type AccessibilityAuditOptions = z.infer<
+  typeof AccessibilityAuditSchema
+>;
+
 /**
  * 元素信息
  */
 export const ElementInfoSchema = z.object({
   selector: z.string().describe("CSS 选择器"),
+  locators: z
+    .array(LocatorCandidateSchema)
+    .optional()
+    .describe("按稳定性排序的定位器候选，唯一匹配的在前"),
   tagName: z.string(),
   text: z.string().optional(),
   attributes: z.record(z.string(), z.string()).describe("元素属性"),
@@ -61,16 +165,89 @@ export const ElementInfoSchema = z.object({
   elementType: z.enum([
     "button",
     "input",
+    "textarea",
+    "select",
+    "checkbox",
+    "radio",
     "link",
+    "tab",
+    "menu",
     "form",
     "text",
     "image",
     "other",
   ]),
+  role: z.string().optional().describe("ARIA 角色（显式或隐式）"),
+  accessibleName: z.string().optional().describe("可访问名称"),
+  states: ElementStatesSchema.optional(),
+  landmark: z
+    .object({
+      role: z.string(),
+      name: z.string().optional(),
+    })
+    .optional()
+    .describe("所在的地标区域，如 navigation、main"),
+  framePath: z
+    .array(z.string())
+    .optional()
+    .describe("所在 iframe 的选择器路径（从主页面开始），主页面中的元素省略"),
 });
 
 export type ElementInfo = z.infer<typeof ElementInfoSchema>;
 
+/**
+ * 表单字段约束（来自 HTML 属性）
+ */
+export const FieldConstraintsSchema = z.object({
+  type: z.string().describe("input 的 type，或 textarea / select"),
+  required: z.boolean(),
+  pattern: z.string().optional(),
+  min: z.string().optional().describe("min 属性（数字或日期）"),
+  max: z.string().optional().describe("max 属性（数字或日期）"),
+  minLength: z.number().int().optional(),
+  maxLength: z.number().int().optional(),
+  options: z
+    .array(z.object({ value: z.string(), label: z.string() }))
+    .optional()
+    .describe("select 选项或同名 radio 的取值"),
+});
+
+export type FieldConstraints = z.infer<typeof FieldConstraintsSchema>;
+
+/**
+ * 表单字段
+ */
+export const FormFieldSchema = FieldConstraintsSchema.extend({
+  name: z.string().describe("name 属性，没有时使用 id"),
+  selector: z.string(),
+  label: z.string().optional(),
+  placeholder: z.string().optional(),
+  fieldset: z.string().optional().describe("所在 fieldset 的 legend"),
+});
+
+export type FormField = z.infer<typeof FormFieldSchema>;
+
+/**
+ * 表单模型
+ */
+export const FormModelSchema = z.object({
+  selector: z.string(),
+  name: z.string().optional(),
+  action: z.string(),
+  method: z.string(),
+  fields: z.array(FormFieldSchema),
+  fieldsets: z.array(z.string()).describe("fieldset 的 legend 列表"),
+  submit: z
+    .object({
+      selector: z.string(),
+      text: z.string().optional(),
+    })
+    .optional(),
+  framePath: z.array(z.string()).optional(),
+});
+
+export type FormModel = z.infer<typeof FormModelSchema>;
+
 /**
  * 网络请求信息
  */
@@ -80,10 +257,126 @@ export const NetworkRequestSchema = z.object({
   status: z.number().optional(),
   resourceType: z.string(),
   timestamp: z.string(),
+  statusText: z.string().optional(),
+  requestHeaders: z.record(z.string(), z.string()).optional(),
+  responseHeaders: z.record(z.string(), z.string()).optional(),
+  mimeType: z.string().optional(),
+  requestBody: z.string().optional().describe("XHR/fetch 的请求体（已脱敏）"),
+  responseBody: z.string().optional().describe("XHR/fetch 的响应体（已脱敏）"),
+  responseBodyTruncated: z
+    .boolean()
+    .optional()
+    .describe("响应体超过 maxBodySize 被截断"),
+  timing: z
+    .object({
+      dns: z.number(),
+      connect: z.number(),
+      ssl: z.number(),
+      wait: z.number(),
+      receive: z.number(),
+      total: z.number(),
+    })
+    .optional()
+    .describe("各阶段耗时（毫秒），不可用时为 -1"),
+  sizes: z
+    .object({
+      requestHeaders: z.number(),
+      requestBody: z.number(),
+      responseHeaders: z.number(),
+      responseBody: z.number(),
+    })
+    .optional()
+    .describe("字节数"),
+  failure: z.string().optional().describe("请求失败原因"),
 });
 
 export type NetworkRequest = z.infer<typeof NetworkRequestSchema>;
 
+/**
+ * 网络捕获参数
+ */
+export const NetworkCaptureSchema = z.object({
+  captureBodies: z
+    .boolean()
+    .optional()
+    .describe("记录 XHR/fetch 的请求体和响应体 (默认 false)"),
+  maxBodySize: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("单个 body 最多记录的字节数 (默认 65536)"),
+  redactHeaders: z
+    .array(z.string())
+    .optional()
+    .describe("追加到默认列表 (authorization、cookie 等) 的脱敏头"),
+  redactFields: z
+    .array(z.string())
+    .optional()
+    .describe("追加到默认列表 (password、token 等) 的脱敏字段和查询参数"),
+  har: z
+    .boolean()
+    .optional()
+    .describe("每次扫描和执行导出 HAR 文件 (默认 true)"),
+});
+
+export type NetworkCaptureOptions = z.infer<typeof NetworkCaptureSchema>;
+
+/**
+ * 网络 fixture 模式
+ * - record: 访问真实后端，并把 XHR/fetch 请求和响应（含 body）写入 fixture
+ * - replay-strict: 只用 fixture 响应，未匹配的请求被中止，工作流判为失败
+ * - replay-passthrough: 优先用 fixture 响应，未匹配的请求访问真实后端
+ */
+export const NetworkFixtureModeSchema = z.enum([
+  "record",
+  "replay-strict",
+  "replay-passthrough",
+]);
+
+export type NetworkFixtureMode = z.infer<typeof NetworkFixtureModeSchema>;
+
+/**
+ * 工作流引用的网络 fixture
+ */
+export const NetworkFixturesSchema = z.object({
+  har: z.string().describe("HAR 文件路径（扫描或执行导出的 HAR 均可）"),
+  mode: NetworkFixtureModeSchema.optional().describe("默认 replay-passthrough"),
+});
+
+export type NetworkFixtures = z.infer<typeof NetworkFixturesSchema>;
+
+/**
+ * 后端 API 接口
+ */
+export const ApiEndpointSchema = z.object({
+  method: z.string(),
+  origin: z.string(),
+  pathTemplate: z.string().describe("路径模板，ID 等动态段替换为 :id"),
+  count: z.number().int().describe("观察到的调用次数"),
+  statuses: z.array(z.number()),
+  pages: z.array(z.string()).describe("调用该接口的页面路由"),
+  contentTypes: z.array(z.string()),
+  queryParams: z.array(z.string()),
+  requestFields: z.array(z.string()).describe("JSON 请求体的顶层字段"),
+  responseFields: z.array(z.string()).describe("JSON 响应体的顶层字段"),
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+});
+
+export type ApiEndpoint = z.infer<typeof ApiEndpointSchema>;
+
+/**
+ * 站点的 API 接口清单
+ */
+export const ApiInventorySchema = z.object({
+  site: z.string(),
+  updatedAt: z.string(),
+  endpoints: z.array(ApiEndpointSchema),
+});
+
+export type ApiInventoryData = z.infer<typeof ApiInventorySchema>;
+
 /**
  * 控制台消息
  */
@@ -95,6 +388,167 @@ export const ConsoleMessageSchema = z.object({
 
 export type ConsoleMessage = z.infer<typeof ConsoleMessageSchema>;
 
+/**
+ * 图像区域（整页截图中的像素坐标）
+ */
+export const RegionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export type Region = z.infer<typeof RegionSchema>;
+
+/**
+ * 页面性能指标（时间单位毫秒，大小单位字节）
+ * 工作流步骤中没有加载新文档时只包含该步骤期间的指标，不含 navigation
+ */
+export const PerformanceMetricsSchema = z.object({
+  navigation: z
+    .object({
+      ttfb: z.number().describe("首字节时间"),
+      domContentLoaded: z.number(),
+      load: z.number(),
+      fcp: z.number().optional().describe("首次内容绘制"),
+    })
+    .optional()
+    .describe("导航计时"),
+  lcp: z.number().optional().describe("最大内容绘制"),
+  cls: z.number().optional().describe("累积布局偏移"),
+  inp: z.number().optional().describe("交互到下一次绘制（最慢的一次交互）"),
+  tbt: z.number().optional().describe("总阻塞时间（长任务超出 50ms 的部分）"),
+  jsHeapUsed: z.number().optional().describe("JS 堆使用量（仅 Chromium）"),
+  resources: z.object({
+    count: z.number().int(),
+    transferSize: z.number(),
+    byType: z
+      .record(
+        z.string(),
+        z.object({ count: z.number().int(), transferSize: z.number() }),
+      )
+      .describe("按资源类型 (script、css、img、fetch 等) 统计"),
+  }),
+});
+
+export type PerformanceMetrics = z.infer<typeof PerformanceMetricsSchema>;
+
+/**
+ * 性能预算（超出时记录为批判问题）
+ */
+export const PerformanceBudgetSchema = z.object({
+  route: z
+    .string()
+    .optional()
+    .describe("适用的路由 glob（如 /checkout/**），省略时适用于所有页面"),
+  ttfb: z.number().optional(),
+  load: z.number().optional(),
+  fcp: z.number().optional(),
+  lcp: z.number().optional(),
+  cls: z.number().optional(),
+  inp: z.number().optional(),
+  tbt: z.number().optional(),
+  jsHeapUsed: z.number().optional(),
+  resourceCount: z.number().int().optional(),
+  transferSize: z.number().optional(),
+});
+
+export type PerformanceBudget = z.infer<typeof PerformanceBudgetSchema>;
+
+/**
+ * 性能采集参数
+ */
+export const PerformanceOptionsSchema = z.object({
+  enabled: z
+    .boolean()
+    .optional()
+    .describe("扫描和执行时采集性能指标 (默认 true)"),
+  budgets: z.array(PerformanceBudgetSchema).optional(),
+});
+
+export type PerformanceOptions = z.infer<typeof PerformanceOptionsSchema>;
+
+/**
+ * 断言插件（配置文件中按名称注册的函数，由 custom 验证的 assertion 引用）
+ * 函数签名见 StepValidator 的 AssertionPlugin
+ */
+export const AssertionPluginsSchema = z.record(
+  z.string(),
+  z.custom<(...args: any[]) => any>((value) => typeof value === "function", {
+    message: "Assertion plugin must be a function",
+  }),
+);
+
+/**
+ * 视觉对比方式
+ * - pixel: 逐像素比较 RGBA 通道差异
+ * - perceptual: 按 YIQ 色彩空间的感知差异比较，忽略肉眼难以察觉的变化
+ */
+export const VisualDiffMethodSchema = z.enum(["pixel", "perceptual"]);
+
+export type VisualDiffMethod = z.infer<typeof VisualDiffMethodSchema>;
+
+/**
+ * 视觉回归参数
+ */
+export const VisualRegressionSchema = z.object({
+  enabled: z
+    .boolean()
+    .optional()
+    .describe("将扫描和执行截图与基线对比 (默认 false)"),
+  method: VisualDiffMethodSchema.optional().describe("默认 perceptual"),
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("允许的差异像素比例 (默认 0.001)"),
+  colorThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("单个像素的颜色差异灵敏度，越小越敏感 (默认 0.1)"),
+  ignoreSelectors: z
+    .array(z.string())
+    .optional()
+    .describe("对比时忽略的元素区域（如时间、轮播图）"),
+});
+
+export type VisualRegressionOptions = z.infer<typeof VisualRegressionSchema>;
+
+/**
+ * 视觉基线的键：页面路由或工作流步骤 + 视口 + 浏览器
+ */
+export const VisualKeySchema = z.object({
+  kind: z.enum(["scan", "workflow"]),
+  name: z.string().describe("页面路由或工作流名称"),
+  step: z.number().int().optional().describe("工作流步骤号"),
+  viewport: z.string().describe("视口尺寸 (如 1920x1080) 或设备名称"),
+  browser: z.string(),
+});
+
+export type VisualKey = z.infer<typeof VisualKeySchema>;
+
+/**
+ * 截图与基线的对比结果
+ */
+export const VisualCheckResultSchema = z.object({
+  baselineId: z.string(),
+  key: VisualKeySchema,
+  status: z
+    .enum(["new", "match", "changed"])
+    .describe("new: 首次截图，已保存为基线"),
+  diffPixels: z.number().int(),
+  diffRatio: z.number(),
+  threshold: z.number(),
+  baseline: z.string().describe("基线截图路径"),
+  current: z.string().describe("本次截图路径"),
+  diff: z.string().optional().describe("差异图路径"),
+});
+
+export type VisualCheckResult = z.infer<typeof VisualCheckResultSchema>;
+
 /**
  * 阶段 A: 扫描结果
  */
@@ -105,9 +559,17 @@ export const ScanResultSchema = z.object({
   timestamp: z.string().datetime(),
   screenshot: z.string().describe("截图文件路径"),
   elements: z.array(ElementInfoSchema),
+  forms: z.array(FormModelSchema).optional().describe("页面中的表单模型"),
   networkRequests: z.array(NetworkRequestSchema),
   console: z.array(ConsoleMessageSchema),
   htmlSnapshot: z.string().describe("HTML 快照文件路径"),
+  har: z.string().optional().describe("HAR 文件路径"),
+  visual: VisualCheckResultSchema.optional().describe("截图与视觉基线的对比"),
+  accessibility: z
+    .array(A11yViolationSchema)
+    .optional()
+    .describe("无障碍审计发现的问题，未执行审计时省略"),
+  performance: PerformanceMetricsSchema.optional(),
   critique: CritiqueResultSchema,
 });
 
@@ -182,6 +644,7 @@ export const PageMetadataSchema = z.object({
 
   // 提取的结构化数据
   interactiveElements: z.array(ElementInfoSchema),
+  forms: z.array(FormModelSchema).optional(),
   dataDependencies: z.array(DataDependencySchema),
   businessFlows: z.array(BusinessFlowSchema),
 
@@ -198,6 +661,144 @@ export const PageMetadataSchema = z.object({
 
 export type PageMetadata = z.infer<typeof PageMetadataSchema>;
 
+/**
+ * 验证的比较方式
+ */
+export const ComparisonOperatorSchema = z.enum([
+  "equals",
+  "notEquals",
+  "contains",
+  "matches",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+]);
+
+export type ComparisonOperator = z.infer<typeof ComparisonOperatorSchema>;
+
+/**
+ * 步骤验证
+ * 元素类验证检查步骤的 target（未指定时为整个页面）；
+ * request/noConsoleErrors 检查步骤期间的请求和控制台错误，verify 步骤沿用上一个操作步骤的时间窗口
+ */
+export const StepValidationSchema = z.object({
+  type: z.enum([
+    "exists",
+    "visible",
+    "text",
+    "value",
+    "count",
+    "custom",
+    "url",
+    "attribute",
+    "css",
+    "enabled",
+    "checked",
+    "request",
+    "noConsoleErrors",
+    "variable",
+  ]),
+  expected: z.any(),
+  operator: ComparisonOperatorSchema.optional().describe(
+    "比较方式，text/url/request 默认 contains，其他默认 equals；matches 时 expected 为正则表达式，可写作 `/pattern/flags`",
+  ),
+  name: z
+    .string()
+    .optional()
+    .describe(
+      "attribute 验证的属性名，css 验证的 CSS 属性名，variable 验证的状态变量名（支持 `row.text` 形式的属性路径）",
+    ),
+  expression: z
+    .string()
+    .optional()
+    .describe(
+      "custom 验证在页面中执行的 JS 表达式，指定 target 时可通过 `element` 引用目标元素",
+    ),
+  assertion: z
+    .string()
+    .optional()
+    .describe("custom 验证使用的断言插件名（配置文件 assertions）"),
+  request: z
+    .object({
+      method: z.string().optional(),
+      url: z.string().optional().describe("按 operator 匹配请求 URL"),
+      status: z.number().int().optional(),
+    })
+    .optional()
+    .describe("request 验证要求发出的请求，expected 为 false 时要求未发出"),
+  timeout: z.number().optional().describe("验证失败时在超时（毫秒）前重复检查"),
+});
+
+export type StepValidation = z.infer<typeof StepValidationSchema>;
+
+/**
+ * 验证结果：期望值与实际值
+ */
+export const ValidationResultSchema = z.object({
+  type: StepValidationSchema.shape.type,
+  passed: z.boolean(),
+  operator: ComparisonOperatorSchema.optional(),
+  expected: z.any(),
+  actual: z.any(),
+  message: z.string().optional(),
+});
+
+export type ValidationResult = z.infer<typeof ValidationResultSchema>;
+
+/**
+ * 步骤范围（包含首尾的步骤编号），范围内的步骤只由所属的控制步骤执行
+ */
+export const StepRangeSchema = z.object({
+  from: z.number().int(),
+  to: z.number().int(),
+});
+
+export type StepRange = z.infer<typeof StepRangeSchema>;
+
+/**
+ * conditional 步骤的条件
+ * exists/visible/text 条件检查步骤的 target 元素
+ */
+export const StepConditionSchema = z.object({
+  type: z.enum(["exists", "visible", "text", "url", "variable"]),
+  variable: z
+    .string()
+    .optional()
+    .describe("variable 条件的状态变量名，支持 `row.text` 形式的属性路径"),
+  value: z
+    .any()
+    .optional()
+    .describe(
+      "text/url 条件要包含的文本；variable 条件的期望值，省略时判断变量是否为真",
+    ),
+  negate: z.boolean().optional().describe("条件取反"),
+  then: StepRangeSchema.describe("条件成立时执行的步骤"),
+  else: StepRangeSchema.optional().describe("条件不成立时执行的步骤"),
+});
+
+export type StepCondition = z.infer<typeof StepConditionSchema>;
+
+/**
+ * loop 步骤的循环定义
+ * count: 固定次数；list: 遍历列表状态变量；elements: 遍历 target 匹配的每个元素
+ */
+export const StepLoopSchema = z.object({
+  type: z.enum(["count", "list", "elements"]),
+  count: z.number().int().nonnegative().optional(),
+  variable: z.string().optional().describe("list 循环遍历的状态变量名"),
+  as: z
+    .string()
+    .optional()
+    .describe(
+      "循环变量名（默认 item），循环体可通过 data.source 为 state 读取，序号保存在 `{as}Index`",
+    ),
+  steps: StepRangeSchema.describe("每次迭代执行的步骤"),
+  maxIterations: z.number().int().positive().optional().describe("默认 100"),
+});
+
+export type StepLoop = z.infer<typeof StepLoopSchema>;
+
 /**
  * SOP 步骤
  */
@@ -218,9 +819,27 @@ export const SOPStepSchema = z.object({
   description: z.string(),
   target: z
     .object({
-      selector: z.string().optional(),
+      selector: z
+        .string()
+        .optional()
+        .describe("CSS 选择器，shadow root 内的元素用 `宿主 >> 内部` 表示"),
+      locators: z
+        .array(LocatorCandidateSchema)
+        .optional()
+        .describe("执行时依次尝试的定位器候选，优先于 selector"),
+      framePath: z
+        .array(z.string())
+        .optional()
+        .describe("目标所在 iframe 的选择器路径（从主页面开始）"),
+      constraints: FieldConstraintsSchema.optional().describe(
+        "目标表单字段的约束，派生阶段据此生成边界值和无效输入",
+      ),
       url: z.string().optional(),
       value: z.string().optional(),
+      within: z
+        .string()
+        .optional()
+        .describe("在 elements 循环的当前元素内查找目标，值为循环变量名"),
     })
     .optional(),
   data: z
@@ -231,13 +850,7 @@ export const SOPStepSchema = z.object({
       value: z.any().optional(),
     })
     .optional(),
-  validation: z
-    .object({
-      type: z.enum(["exists", "visible", "text", "value", "count", "custom"]),
-      expected: z.any(),
-      timeout: z.number().optional(),
-    })
-    .optional(),
+  validation: StepValidationSchema.optional(),
   errorHandling: z
     .object({
       strategy: z.enum(["retry", "skip", "abort", "fallback"]),
@@ -245,10 +858,64 @@ export const SOPStepSchema = z.object({
       fallbackStepNumber: z.number().optional(),
     })
     .optional(),
+  condition: StepConditionSchema.optional(),
+  loop: StepLoopSchema.optional(),
 });
 
 export type SOPStep = z.infer<typeof SOPStepSchema>;
 
+/**
+ * 工作流成功标准
+ * check 在所有步骤执行完后检查，request/noConsoleErrors 覆盖整个执行过程
+ */
+export const SuccessCriterionSchema = z.object({
+  description: z.string(),
+  validation: z.string().describe("判定方式的说明"),
+  check: StepValidationSchema.extend({
+    target: SOPStepSchema.shape.target,
+  })
+    .optional()
+    .describe("机器可检查的断言，未指定时该标准只作为说明"),
+});
+
+export type SuccessCriterion = z.infer<typeof SuccessCriterionSchema>;
+
+/**
+ * 工作流绑定的数据集
+ * 每行数据执行一次工作流，列按 requiredInputs 的字段名（或 mapping）填入输入
+ */
+export const DatasetBindingSchema = z.object({
+  path: z
+    .string()
+    .describe("数据集文件路径（相对当前目录），支持 CSV、JSON 数组和 JSONL"),
+  format: z
+    .enum(["csv", "json", "jsonl"])
+    .optional()
+    .describe("文件格式，默认按扩展名判断"),
+  mapping: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("输入字段 → 数据集列名，未映射的字段使用同名列"),
+  filter: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe("只执行列值相等的行，字符串可写作 /pattern/ 按正则匹配"),
+  sample: z
+    .object({
+      size: z.number().int().positive(),
+      seed: z
+        .number()
+        .int()
+        .optional()
+        .describe("随机种子，相同种子抽取相同的行"),
+    })
+    .optional()
+    .describe("随机抽取若干行（保持文件中的顺序）"),
+  limit: z.number().int().positive().optional().describe("最多执行的行数"),
+});
+
+export type DatasetBinding = z.infer<typeof DatasetBindingSchema>;
+
 /**
  * 阶段 C: SOP 工作流
  */
@@ -270,16 +937,16 @@ export const SOPWorkflowSchema = z.object({
     }),
   ),
 
-  successCriteria: z.array(
-    z.object({
-      description: z.string(),
-      validation: z.string(),
-    }),
-  ),
+  successCriteria: z.array(SuccessCriterionSchema),
 
   estimatedDuration: z.number().describe("预计执行时长（秒）"),
   complexity: z.enum(["simple", "medium", "complex"]),
   tags: z.array(z.string()),
+  fixtures:
+    NetworkFixturesSchema.optional().describe("执行时使用的网络 fixture"),
+  dataset: DatasetBindingSchema.optional().describe(
+    "数据驱动执行：数据集的每行执行一次工作流",
+  ),
 
   critique: CritiqueResultSchema,
 });
@@ -316,6 +983,26 @@ export const ExecutionStateSchema = z.object({
 
 export type ExecutionState = z.infer<typeof ExecutionStateSchema>;
 
+/**
+ * 浏览器类型
+ */
+export const BrowserTypeSchema = z.enum(["chromium", "firefox", "webkit"]);
+
+export type BrowserType = z.infer<typeof BrowserTypeSchema>;
+
+/**
+ * 执行环境（浏览器 / 设备 / 区域设置）
+ */
+export const ExecutionTargetSchema = z.object({
+  browser: BrowserTypeSchema,
+  device: z.string().optional().describe("Playwright devices 中的设备名"),
+  locale: z.string().optional(),
+  timezoneId: z.string().optional(),
+  colorScheme: z.enum(["light", "dark", "no-preference"]).optional(),
+});
+
+export type ExecutionTarget = z.infer<typeof ExecutionTargetSchema>;
+
 /**
  * 阶段 D: 执行结果
  */
@@ -336,18 +1023,92 @@ export const ExecutionResultSchema = z.object({
       output: z.any().optional(),
       error: z.string().optional(),
       screenshot: z.string().optional(),
+      performance: PerformanceMetricsSchema.optional(),
+      validation: ValidationResultSchema.optional(),
+      iteration: z
+        .array(z.number().int())
+        .optional()
+        .describe("循环体内步骤的迭代序号（从 0 开始，嵌套循环由外到内）"),
     }),
   ),
+  successCriteria: z
+    .array(
+      z.object({
+        description: z.string(),
+        status: z
+          .enum(["passed", "failed", "skipped"])
+          .describe("没有 check 的标准为 skipped"),
+        result: ValidationResultSchema.optional(),
+      }),
+    )
+    .optional()
+    .describe("工作流成功标准的检查结果"),
 
   screenshots: z.array(z.string()).describe("截图文件路径"),
   logs: z.array(z.string()).describe("日志文件路径"),
+  har: z.string().optional().describe("HAR 文件路径"),
+  fixtures: z
+    .object({
+      har: z.string(),
+      mode: NetworkFixtureModeSchema,
+      matched: z.number().int().describe("由 fixture 响应的请求数"),
+      unmatched: z
+        .array(
+          z.object({
+            method: z.string(),
+            url: z.string(),
+            resourceType: z.string(),
+          }),
+        )
+        .describe("fixture 中没有匹配的 XHR/fetch 请求"),
+    })
+    .optional()
+    .describe("网络 fixture 回放报告"),
+  visual: z
+    .array(VisualCheckResultSchema)
+    .optional()
+    .describe("步骤截图与视觉基线的对比"),
   finalState: ExecutionStateSchema,
+  target: ExecutionTargetSchema.optional().describe("执行所用的浏览器/设备"),
+  dataset: z
+    .object({
+      path: z.string(),
+      row: z.number().int().describe("数据行序号（从 1 开始，不含 CSV 表头）"),
+    })
+    .optional()
+    .describe("数据驱动执行时本次使用的数据行"),
 
   critique: CritiqueResultSchema,
 });
 
 export type ExecutionResult = z.infer<typeof ExecutionResultSchema>;
 
+/**
+ * 数据驱动执行的汇总
+ */
+export const DatasetSummarySchema = z.object({
+  workflowId: z.string().uuid(),
+  workflowName: z.string(),
+  dataset: z.string().describe("数据集文件路径"),
+  timestamp: z.string().datetime(),
+  target: ExecutionTargetSchema.optional(),
+  total: z.number().int().describe("执行的行数"),
+  passed: z.number().int(),
+  failed: z.number().int(),
+  duration: z.number().describe("所有行的执行时长之和（毫秒）"),
+  rows: z.array(
+    z.object({
+      row: z.number().int(),
+      executionId: z.string().uuid(),
+      status: ExecutionResultSchema.shape.status,
+      duration: z.number(),
+      error: z.string().optional().describe("第一个失败原因"),
+    }),
+  ),
+});
+
+export type DatasetSummary = z.infer<typeof DatasetSummarySchema>;
+
 /**
  * 阶段 E: 派生测试用例
  */
@@ -392,11 +1153,23 @@ export const DerivedTestCaseSchema = z.object({
 
 export type DerivedTestCase = z.infer<typeof DerivedTestCaseSchema>;
 
+/**
+ * 认知象限模式
+ */
+export const CognitiveModeSchema = z.enum([
+  "autonomous",
+  "supervised",
+  "collaborative",
+  "manual",
+]);
+
+export type CognitiveMode = z.infer<typeof CognitiveModeSchema>;
+
 /**
  * 认知象限配置
  */
 export const CognitiveQuadrantSchema = z.object({
-  mode: z.enum(["autonomous", "supervised", "collaborative", "manual"]),
+  mode: CognitiveModeSchema,
   thresholds: z.object({
     autoApprove: z.number().min(0).max(1).describe("自动批准阈值"),
     requireReview: z.number().min(0).max(1).describe("需要审核阈值"),
@@ -415,10 +1188,171 @@ export const CognitiveQuadrantSchema = z.object({
 
 export type CognitiveQuadrant = z.infer<typeof CognitiveQuadrantSchema>;
 
+/**
+ * 路由发现参数
+ */
+export const RouteDiscoveryOptionsSchema = z.object({
+  mode: z
+    .enum(["links", "spa"])
+    .optional()
+    .describe(
+      "links: 只跟随 a[href]；spa: 同时监听 history 路由并点击导航元素",
+    ),
+  hashRoutes: z
+    .boolean()
+    .optional()
+    .describe("将 #/path 形式的 hash 路由视为不同路由 (spa 模式默认开启)"),
+  significantQueryParams: z
+    .array(z.string())
+    .optional()
+    .describe("作为路由一部分保留的查询参数，如 tab、page"),
+  maxClicksPerPage: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("spa 模式下每个页面最多点击的导航元素数 (默认 20)"),
+});
+
+export type RouteDiscoveryOptions = z.infer<typeof RouteDiscoveryOptionsSchema>;
+
+/**
+ * 爬取策略
+ * glob 模式匹配 URL 路径，包含 :// 的模式匹配完整 URL
+ */
+export const CrawlPolicySchema = z.object({
+  include: z
+    .array(z.string())
+    .optional()
+    .describe("URL 需匹配其中之一的 glob，如 /app/**"),
+  exclude: z.array(z.string()).optional().describe("排除匹配的 URL 的 glob"),
+  denylist: z
+    .array(z.string())
+    .optional()
+    .describe("追加到默认危险 URL 列表 (logout、delete 等) 的 glob"),
+  respectRobots: z
+    .boolean()
+    .optional()
+    .describe("遵守 robots.txt 的 Disallow 规则 (默认 true)"),
+  delayMs: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("同一主机两次页面访问的最小间隔 (默认 500ms)"),
+});
+
+export type CrawlPolicyOptions = z.infer<typeof CrawlPolicySchema>;
+
+/**
+ * 测试数据生成参数
+ */
+export const TestDataOptionsSchema = z.object({
+  seed: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      "faker 随机种子，省略时每次执行随机生成并记录在状态变量 fakerSeed 中",
+    ),
+  locale: z
+    .string()
+    .optional()
+    .describe("faker 语言，如 zh_CN、en_US (默认 en_US)"),
+});
+
+export type TestDataOptions = z.infer<typeof TestDataOptionsSchema>;
+
+/**
+ * 各阶段参数
+ */
+export const PhaseOptionsSchema = z.object({
+  scan: z
+    .object({
+      maxPages: z.number().int().positive().optional(),
+      maxDepth: z.number().int().min(0).optional(),
+      timeout: z.number().positive().optional(),
+      concurrency: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("并发扫描的页面数 (默认 1)"),
+      discovery: RouteDiscoveryOptionsSchema.optional(),
+      crawl: CrawlPolicySchema.optional(),
+      extraction: ElementExtractionModeSchema.optional().describe(
+        "元素提取模式 (默认 selectors)",
+      ),
+      accessibility: AccessibilityAuditSchema.optional(),
+    })
+    .optional(),
+  interpret: z
+    .object({
+      batchSize: z.number().int().positive().optional(),
+    })
+    .optional(),
+  orchestrate: z
+    .object({
+      maxWorkflows: z.number().int().positive().optional(),
+    })
+    .optional(),
+  execute: z
+    .object({
+      retryAttempts: z.number().int().min(0).optional(),
+      fixtureMode: NetworkFixtureModeSchema.optional().describe(
+        "覆盖工作流中网络 fixture 的模式",
+      ),
+      matrix: z
+        .array(ExecutionTargetSchema)
+        .optional()
+        .describe("浏览器矩阵，每个工作流在所有目标上执行"),
+      testData: TestDataOptionsSchema.optional(),
+    })
+    .optional(),
+  derive: z
+    .object({
+      level1Count: z.number().int().min(0).optional(),
+      level2Count: z.number().int().min(0).optional(),
+      level3Count: z.number().int().min(0).optional(),
+    })
+    .optional(),
+});
+
+export type PhaseOptions = z.infer<typeof PhaseOptionsSchema>;
+
+/**
+ * 认证配置
+ * 指定登录工作流或账号密码 + 选择器，登录态 (storageState) 会被保存并复用
+ */
+export const AuthConfigSchema = z.object({
+  loginWorkflow: z
+    .string()
+    .optional()
+    .describe("登录工作流名称/ID，或 SOP 文件路径 (.md/.json)"),
+  credentials: z
+    .object({
+      loginUrl: z.string(),
+      usernameSelector: z.string(),
+      passwordSelector: z.string(),
+      submitSelector: z.string(),
+      successSelector: z.string().optional().describe("登录成功后出现的元素"),
+      username: z.string().optional().describe("默认读取 E2E_AUTH_USERNAME"),
+      password: z.string().optional().describe("默认读取 E2E_AUTH_PASSWORD"),
+    })
+    .optional(),
+  loginUrlPattern: z
+    .string()
+    .optional()
+    .describe("登录页 URL 正则，跳转到匹配的页面视为会话失效"),
+});
+
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
 /**
  * 配置类型
  */
 export const ConfigSchema = z.object({
+  startUrl: z.string().optional(),
   llm: z.object({
     provider: z.enum(["qwen", "openai", "claude"]),
     model: z.string(),
@@ -431,11 +1365,82 @@ export const ConfigSchema = z.object({
     headless: z.boolean().default(true),
     slowMo: z.number().default(0),
     timeout: z.number().default(30000),
+    browser: BrowserTypeSchema.default("chromium"),
+    device: z.string().optional(),
+    locale: z.string().optional(),
+    timezoneId: z.string().optional(),
+    colorScheme: ExecutionTargetSchema.shape.colorScheme,
   }),
   storage: z.object({
     dataDir: z.string().default("./data"),
   }),
   cognitiveQuadrant: CognitiveQuadrantSchema,
+  phases: PhaseOptionsSchema.default({}),
+  auth: AuthConfigSchema.optional(),
+  network: NetworkCaptureSchema.optional(),
+  visual: VisualRegressionSchema.optional(),
+  performance: PerformanceOptionsSchema.optional(),
+  assertions: AssertionPluginsSchema.optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+
+/**
+ * 配置层（配置文件、profile、环境变量、CLI 参数）
+ * 所有字段可选，按优先级合并后再由 ConfigSchema 校验
+ */
+export const ConfigLayerSchema = z.object({
+  startUrl: z.string().optional(),
+  llm: z
+    .object({
+      provider: z.enum(["qwen", "openai", "claude"]).optional(),
+      model: z.string().optional(),
+      apiKey: z.string().optional(),
+      baseUrl: z.string().optional(),
+      temperature: z.number().min(0).max(2).optional(),
+      maxTokens: z.number().optional(),
+    })
+    .optional(),
+  playwright: z
+    .object({
+      headless: z.boolean().optional(),
+      slowMo: z.number().optional(),
+      timeout: z.number().optional(),
+      browser: BrowserTypeSchema.optional(),
+      device: z.string().optional(),
+      locale: z.string().optional(),
+      timezoneId: z.string().optional(),
+      colorScheme: ExecutionTargetSchema.shape.colorScheme,
+    })
+    .optional(),
+  storage: z
+    .object({
+      dataDir: z.string().optional(),
+    })
+    .optional(),
+  cognitiveQuadrant: z
+    .object({
+      mode: CognitiveQuadrantSchema.shape.mode.optional(),
+      thresholds: CognitiveQuadrantSchema.shape.thresholds.partial().optional(),
+      humanInterventionPoints:
+        CognitiveQuadrantSchema.shape.humanInterventionPoints.optional(),
+    })
+    .optional(),
+  phases: PhaseOptionsSchema.optional(),
+  auth: AuthConfigSchema.optional(),
+  network: NetworkCaptureSchema.optional(),
+  visual: VisualRegressionSchema.optional(),
+  performance: PerformanceOptionsSchema.optional(),
+  assertions: AssertionPluginsSchema.optional(),
+});
+
+export type ConfigLayer = z.infer<typeof ConfigLayerSchema>;
+
+/**
+ * 项目配置文件 (e2e-agents.config.ts / e2e-agents.config.json)
+ */
+export const ConfigFileSchema = ConfigLayerSchema.extend({
+  profiles: z.record(z.string(), ConfigLayerSchema).optional(),
+});
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
@@ -0,0 +1,147 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AgentOrchestrator,
+  OrchestrationSession,
+} from "../src/core/orchestration/AgentOrchestrator";
+import { StorageManager } from "../src/core/storage/StorageManager";
+import { PlaywrightManager } from "../src/core/playwright/PlaywrightManager";
+import { LLMProviderManager } from "../src/core/llm/LLMProviderManager";
+import { PhaseId } from "../src/types/config";
+
+const config = { startUrl: "https://example.com" };
+
+describe("AgentOrchestrator 会话恢复", () => {
+  let dataDir: string;
+  let orchestrators: AgentOrchestrator[];
+
+  /**
+   * 创建协调器，阶段分发被替换为记录调用的桩，failOn 指定的阶段抛出错误
+   */
+  function create(failOn?: PhaseId) {
+    const orchestrator = new AgentOrchestrator(
+      new StorageManager(dataDir),
+      {} as LLMProviderManager,
+      new PlaywrightManager({}),
+    );
+    orchestrators.push(orchestrator);
+
+    const dispatched: PhaseId[] = [];
+    vi.spyOn(orchestrator as any, "dispatchPhase").mockImplementation(
+      async (phase: unknown) => {
+        dispatched.push(phase as PhaseId);
+        if (phase === failOn) {
+          throw new Error(`${phase} failed`);
+        }
+      },
+    );
+    return { orchestrator, dispatched };
+  }
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "e2e-agents-"));
+    orchestrators = [];
+  });
+
+  afterEach(async () => {
+    for (const orchestrator of orchestrators) {
+      await orchestrator.cleanup();
+    }
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("按顺序运行全部阶段", async () => {
+    const { orchestrator, dispatched } = create();
+    const session = await orchestrator.run(config);
+
+    expect(dispatched).toEqual([
+      "scan",
+      "interpret",
+      "orchestrate",
+      "execute",
+      "derive",
+    ]);
+    expect(session.status).toBe("completed");
+    expect(session.phasesCompleted).toEqual(dispatched);
+  });
+
+  it("恢复时跳过已完成的阶段，从失败的阶段继续", async () => {
+    const first = create("orchestrate");
+    await expect(first.orchestrator.run(config)).rejects.toThrow(
+      "orchestrate failed",
+    );
+    const failed = first.orchestrator.getSession()!;
+    expect(failed.status).toBe("failed");
+    expect(failed.phasesCompleted).toEqual(["scan", "interpret"]);
+
+    const second = create();
+    const session = await second.orchestrator.resume(failed.id);
+
+    expect(second.dispatched).toEqual(["orchestrate", "execute", "derive"]);
+    expect(session.status).toBe("completed");
+    expect(session.error).toBeUndefined();
+    expect(session.phasesCompleted).toEqual([
+      "scan",
+      "interpret",
+      "orchestrate",
+      "execute",
+      "derive",
+    ]);
+  });
+
+  it("failedPhaseOnly 只重新运行失败的阶段后暂停", async () => {
+    const first = create("interpret");
+    await expect(first.orchestrator.run(config)).rejects.toThrow();
+    const id = first.orchestrator.getSession()!.id;
+
+    const second = create();
+    const session = await second.orchestrator.resume(id, {
+      failedPhaseOnly: true,
+    });
+
+    expect(second.dispatched).toEqual(["interpret"]);
+    expect(session.status).toBe("paused");
+    expect(session.phasesCompleted).toEqual(["scan", "interpret"]);
+  });
+
+  it("已完成的会话不再运行任何阶段", async () => {
+    const first = create();
+    const { id } = await first.orchestrator.run(config);
+
+    const second = create();
+    const session = await second.orchestrator.resume(id);
+
+    expect(second.dispatched).toEqual([]);
+    expect(session.status).toBe("completed");
+  });
+
+  it("断言插件不保存到会话中，恢复时使用当前配置", async () => {
+    const plugin = async () => true;
+    const first = create("execute");
+    await expect(
+      first.orchestrator.run({ ...config, assertions: { plugin } }),
+    ).rejects.toThrow();
+    const id = first.orchestrator.getSession()!.id;
+
+    const saved = await new StorageManager(
+      dataDir,
+    ).findGlobalState<OrchestrationSession>(`session_${id}`);
+    expect(saved?.config).toEqual(config);
+
+    const second = create();
+    const session = await second.orchestrator.resume(id, {
+      assertions: { plugin },
+    });
+    expect(session.config.assertions?.plugin).toBe(plugin);
+  });
+
+  it("重新运行单个阶段不重复记录", async () => {
+    const { orchestrator } = create();
+    await orchestrator.runPhase("scan", config);
+    await orchestrator.runPhase("scan", config);
+
+    expect(orchestrator.getSession()!.phasesCompleted).toEqual(["scan"]);
+  });
+});
@@ -0,0 +1,181 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { ConfigLoader } from "../src/core/config/ConfigLoader";
+
+/**
+ * 影响配置的环境变量，每个用例开始时清空
+ */
+const ENV_NAMES = [
+  "E2E_AGENTS_PROFILE",
+  "LLM_PROVIDER",
+  "LLM_TEMPERATURE",
+  "LLM_MAX_TOKENS",
+  "QWEN_MODEL",
+  "QWEN_API_KEY",
+  "QWEN_BASE_URL",
+  "OPENAI_MODEL",
+  "OPENAI_API_KEY",
+  "PLAYWRIGHT_HEADLESS",
+  "HEADLESS",
+  "PLAYWRIGHT_SLOW_MO",
+  "PLAYWRIGHT_TIMEOUT",
+  "BROWSER_TYPE",
+  "DATA_DIR",
+  "COGNITIVE_MODE",
+  "THRESHOLD_AUTO_APPROVE",
+  "AUTO_APPROVE_THRESHOLD",
+  "THRESHOLD_REQUIRE_REVIEW",
+  "REQUIRE_REVIEW_THRESHOLD",
+  "THRESHOLD_AUTO_CORRECT",
+  "HUMAN_INTERVENTION_POINTS",
+];
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "e2e-agents-config-"));
+
+/**
+ * 写入 JSON 配置文件并返回路径
+ */
+function writeConfig(
+  content: unknown,
+  name = "e2e-agents.config.json",
+): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, JSON.stringify(content));
+  return filePath;
+}
+
+const configPath = writeConfig({
+  startUrl: "https://file.example.com",
+  llm: { model: "file-model", temperature: 0.1 },
+  playwright: { headless: false, timeout: 1000 },
+  profiles: {
+    staging: {
+      startUrl: "https://staging.example.com",
+      playwright: { timeout: 2000 },
+    },
+    ci: { playwright: { headless: true } },
+  },
+});
+
+describe("ConfigLoader", () => {
+  beforeEach(() => {
+    for (const name of ENV_NAMES) {
+      vi.stubEnv(name, undefined);
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("没有配置时使用默认值", () => {
+    const config = ConfigLoader.loadFromEnv();
+    expect(config.llm.provider).toBe("qwen");
+    expect(config.llm.model).toBe("qwen-turbo");
+    expect(config.playwright.timeout).toBe(30000);
+    expect(config.cognitiveQuadrant.mode).toBe("supervised");
+  });
+
+  it("配置文件覆盖默认值，未设置的字段保留默认值", () => {
+    const config = ConfigLoader.load({ configPath });
+    expect(config.startUrl).toBe("https://file.example.com");
+    expect(config.llm.model).toBe("file-model");
+    expect(config.llm.maxTokens).toBe(2048);
+    expect(config.playwright).toMatchObject({
+      headless: false,
+      timeout: 1000,
+      browser: "chromium",
+    });
+  });
+
+  it("profile 覆盖配置文件顶层", () => {
+    const config = ConfigLoader.load({ configPath, profile: "staging" });
+    expect(config.startUrl).toBe("https://staging.example.com");
+    expect(config.playwright.timeout).toBe(2000);
+    expect(config.playwright.headless).toBe(false);
+  });
+
+  it("未指定 profile 时读取 E2E_AGENTS_PROFILE", () => {
+    vi.stubEnv("E2E_AGENTS_PROFILE", "ci");
+    expect(ConfigLoader.load({ configPath }).playwright.headless).toBe(true);
+  });
+
+  it("profile 不存在时列出可用的 profile", () => {
+    expect(() => ConfigLoader.load({ configPath, profile: "prod" })).toThrow(
+      'Profile "prod" not found (available: staging, ci)',
+    );
+  });
+
+  it("环境变量覆盖 profile，CLI 参数覆盖环境变量", () => {
+    vi.stubEnv("PLAYWRIGHT_TIMEOUT", "3000");
+    vi.stubEnv("LLM_TEMPERATURE", "0.5");
+
+    const fromEnv = ConfigLoader.load({ configPath, profile: "staging" });
+    expect(fromEnv.playwright.timeout).toBe(3000);
+    expect(fromEnv.llm.temperature).toBe(0.5);
+
+    const fromCli = ConfigLoader.load({
+      configPath,
+      profile: "staging",
+      overrides: {
+        startUrl: "https://cli.example.com",
+        playwright: { timeout: 4000 },
+      },
+    });
+    expect(fromCli.startUrl).toBe("https://cli.example.com");
+    expect(fromCli.playwright.timeout).toBe(4000);
+    expect(fromCli.llm.temperature).toBe(0.5);
+  });
+
+  it("提供商的默认模型和环境变量随最终选择的提供商变化", () => {
+    vi.stubEnv("OPENAI_MODEL", "gpt-env");
+    const config = ConfigLoader.load({
+      configPath: writeConfig({ llm: { provider: "openai" } }, "openai.json"),
+    });
+    expect(config.llm.provider).toBe("openai");
+    expect(config.llm.model).toBe("gpt-env");
+    expect(config.llm.baseUrl).toBeUndefined();
+  });
+
+  it("COGNITIVE_MODE 必须是有效的模式", () => {
+    vi.stubEnv("COGNITIVE_MODE", "autonomous");
+    expect(ConfigLoader.loadFromEnv().cognitiveQuadrant.mode).toBe(
+      "autonomous",
+    );
+
+    vi.stubEnv("COGNITIVE_MODE", "auto");
+    expect(() => ConfigLoader.loadFromEnv()).toThrow(
+      'Invalid COGNITIVE_MODE "auto"',
+    );
+  });
+
+  it("配置文件校验失败时报告字段路径", () => {
+    const invalid = writeConfig(
+      { playwright: { browser: "safari" } },
+      "invalid.json",
+    );
+    expect(() => ConfigLoader.load({ configPath: invalid })).toThrow(
+      /Invalid config file .*invalid\.json: playwright\.browser/,
+    );
+  });
+
+  it("指定的配置文件不存在时报错", () => {
+    expect(() =>
+      ConfigLoader.load({ configPath: path.join(dir, "missing.json") }),
+    ).toThrow("Config file not found");
+  });
+});
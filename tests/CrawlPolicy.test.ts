@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { CrawlPolicy } from "../src/phases/phase-a-scan/CrawlPolicy";
+import { globToRegExp } from "../src/core/utils/glob";
+
+describe("globToRegExp", () => {
+  it("** 跨越 /，* 和 ? 不跨越", () => {
+    expect(globToRegExp("/app/**").test("/app/a/b/c")).toBe(true);
+    expect(globToRegExp("/app/*").test("/app/a")).toBe(true);
+    expect(globToRegExp("/app/*").test("/app/a/b")).toBe(false);
+    expect(globToRegExp("/item/?").test("/item/1")).toBe(true);
+    expect(globToRegExp("/item/?").test("/item/12")).toBe(false);
+  });
+
+  it("整体匹配并转义正则字符", () => {
+    expect(globToRegExp("/a.html").test("/a.html")).toBe(true);
+    expect(globToRegExp("/a.html").test("/aXhtml")).toBe(false);
+    expect(globToRegExp("/a").test("/a/b")).toBe(false);
+    expect(globToRegExp("/(x)+").test("/(x)+")).toBe(true);
+  });
+});
+
+describe("CrawlPolicy", () => {
+  it("默认跳过危险 URL", () => {
+    const policy = new CrawlPolicy();
+    expect(policy.getBlockReason("https://a.com/account/logout")).toMatch(
+      /^denylist/,
+    );
+    expect(policy.isAllowed("https://a.com/users/1/delete-confirm")).toBe(
+      false,
+    );
+    expect(policy.isAllowed("https://a.com/users")).toBe(true);
+  });
+
+  it("按路径匹配 include / exclude，包含 :// 的 glob 按完整 URL 匹配", () => {
+    const policy = new CrawlPolicy({
+      include: ["/app/**"],
+      exclude: ["/app/admin/**", "https://a.com/app/tmp*"],
+    });
+    expect(policy.isAllowed("https://a.com/app/home")).toBe(true);
+    expect(policy.getBlockReason("https://a.com/blog")).toBe("not included");
+    expect(policy.isAllowed("https://a.com/app/admin/users")).toBe(false);
+    expect(policy.isAllowed("https://a.com/app/tmp?x=1")).toBe(false);
+    expect(policy.getBlockReason("not a url")).toBe("invalid URL");
+  });
+
+  it("robots.txt 最长匹配优先，长度相同时 Allow 优先", () => {
+    const policy = new CrawlPolicy();
+    policy.setRobotsTxt(
+      "https://a.com/",
+      [
+        "User-agent: *",
+        "Disallow: /private",
+        "Allow: /private/public",
+        "Disallow: /*.pdf$",
+        "Allow: /same",
+        "Disallow: /same",
+      ].join("\n"),
+    );
+    expect(policy.isAllowed("https://a.com/private/x")).toBe(false);
+    expect(policy.isAllowed("https://a.com/private/public/x")).toBe(true);
+    expect(policy.isAllowed("https://a.com/docs/a.pdf")).toBe(false);
+    expect(policy.isAllowed("https://a.com/docs/a.pdf?download=1")).toBe(true);
+    expect(policy.isAllowed("https://a.com/same")).toBe(true);
+    expect(policy.isAllowed("https://b.com/private")).toBe(true);
+  });
+
+  it("优先使用 e2e-agents 的规则组，空 Disallow 允许所有", () => {
+    const policy = new CrawlPolicy();
+    policy.setRobotsTxt(
+      "https://a.com/",
+      [
+        "User-agent: *",
+        "Disallow: /",
+        "",
+        "User-agent: e2e-agents",
+        "Disallow:",
+      ].join("\n"),
+    );
+    expect(policy.isAllowed("https://a.com/anything")).toBe(true);
+  });
+
+  it("空行和规则之后的 User-agent 都结束当前规则组", () => {
+    const policy = new CrawlPolicy();
+    policy.setRobotsTxt(
+      "https://a.com/",
+      "User-agent: *\nDisallow:\n\nUser-agent: BadBot\nDisallow: /",
+    );
+    expect(policy.isAllowed("https://a.com/page")).toBe(true);
+
+    policy.setRobotsTxt(
+      "https://a.com/",
+      "User-agent: *\nDisallow:\nUser-agent: BadBot\nDisallow: /",
+    );
+    expect(policy.isAllowed("https://a.com/page")).toBe(true);
+
+    policy.setRobotsTxt(
+      "https://a.com/",
+      "User-agent: BadBot\nUser-agent: *\nDisallow: /private",
+    );
+    expect(policy.isAllowed("https://a.com/private")).toBe(false);
+  });
+
+  it("respectRobots 为 false 时忽略 robots.txt", () => {
+    const policy = new CrawlPolicy({ respectRobots: false });
+    policy.setRobotsTxt("https://a.com/", "User-agent: *\nDisallow: /");
+    expect(policy.isAllowed("https://a.com/page")).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { DatasetLoader } from "../src/core/testdata/DatasetLoader";
+import { SOPWorkflow } from "../src/types/schemas";
+
+describe("DatasetLoader.parseCsv", () => {
+  it("解析带引号的字段（逗号、换行、转义引号）", () => {
+    const csv = 'name,note\n"Doe, John","say ""hi""\nbye"\n';
+    expect(DatasetLoader.parseCsv(csv)).toEqual([
+      { name: "Doe, John", note: 'say "hi"\nbye' },
+    ]);
+  });
+
+  it("支持 CRLF 和 BOM，忽略空行", () => {
+    const csv = "\uFEFFuser,pass\r\nalice,1\r\n\r\nbob,2\r\n";
+    expect(DatasetLoader.parseCsv(csv)).toEqual([
+      { user: "alice", pass: "1" },
+      { user: "bob", pass: "2" },
+    ]);
+  });
+
+  it("缺少的列为空字符串，没有结尾换行也能解析最后一行", () => {
+    expect(DatasetLoader.parseCsv("a,b,c\n1,,3\n4")).toEqual([
+      { a: "1", b: "", c: "3" },
+      { a: "4", b: "", c: "" },
+    ]);
+    expect(DatasetLoader.parseCsv("")).toEqual([]);
+  });
+});
+
+describe("DatasetLoader.parse", () => {
+  it("JSON 必须是对象数组", () => {
+    expect(DatasetLoader.parse('[{"a":1}]', "json")).toEqual([
+      { row: 1, values: { a: 1 } },
+    ]);
+    expect(() => DatasetLoader.parse('{"a":1}', "json")).toThrow();
+    expect(() => DatasetLoader.parse("[1]", "json")).toThrow(/row 1/);
+  });
+
+  it("JSONL 忽略空行", () => {
+    expect(DatasetLoader.parse('{"a":1}\n\n{"a":2}\n', "jsonl")).toEqual([
+      { row: 1, values: { a: 1 } },
+      { row: 2, values: { a: 2 } },
+    ]);
+  });
+});
+
+describe("DatasetLoader.select", () => {
+  const rows = DatasetLoader.parse(
+    JSON.stringify(
+      Array.from({ length: 20 }, (_, i) => ({
+        id: i + 1,
+        role: i % 2 ? "user" : "admin",
+        email: `u${i + 1}@${i < 10 ? "a" : "b"}.com`,
+      })),
+    ),
+    "json",
+  );
+
+  it("按列值相等或正则过滤", () => {
+    expect(
+      DatasetLoader.select(rows, { path: "x", filter: { role: "admin" } })
+        .length,
+    ).toBe(10);
+    expect(
+      DatasetLoader.select(rows, {
+        path: "x",
+        filter: { role: "user", email: "/@b\\.com$/" },
+      }).map((r) => r.row),
+    ).toEqual([12, 14, 16, 18, 20]);
+  });
+
+  it("相同种子抽取相同的行并保持文件顺序", () => {
+    const binding = { path: "x", sample: { size: 5, seed: 7 } };
+    const first = DatasetLoader.select(rows, binding).map((r) => r.row);
+    expect(first).toHaveLength(5);
+    expect(first).toEqual([...first].sort((a, b) => a - b));
+    expect(DatasetLoader.select(rows, binding).map((r) => r.row)).toEqual(
+      first,
+    );
+  });
+
+  it("limit 在 filter 之后生效", () => {
+    expect(
+      DatasetLoader.select(rows, {
+        path: "x",
+        filter: { role: "user" },
+        limit: 2,
+      }).map((r) => r.row),
+    ).toEqual([2, 4]);
+  });
+});
+
+describe("DatasetLoader.toInputs", () => {
+  const workflow = {
+    requiredInputs: [
+      { field: "username", type: "string", required: true },
+      { field: "password", type: "string", required: true },
+      { field: "note", type: "string", required: false, defaultValue: "-" },
+    ],
+  } as unknown as SOPWorkflow;
+  const binding = { path: "x", mapping: { username: "email" } };
+
+  it("按 mapping 取列，保留其他列，缺少时使用默认值", () => {
+    expect(
+      DatasetLoader.toInputs(workflow, binding, {
+        row: 1,
+        values: { email: "a@a.com", password: "p", extra: "e" },
+      }),
+    ).toEqual({
+      email: "a@a.com",
+      password: "p",
+      extra: "e",
+      username: "a@a.com",
+      note: "-",
+    });
+  });
+
+  it("缺少必填输入时报告行号和列名", () => {
+    expect(() =>
+      DatasetLoader.toInputs(workflow, binding, {
+        row: 3,
+        values: { email: "a@a.com", password: "" },
+      }),
+    ).toThrow('Dataset row 3 is missing required input "password"');
+  });
+});
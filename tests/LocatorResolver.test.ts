@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  LocatorResolver,
+  LocatorRoot,
+} from "../src/core/playwright/LocatorResolver";
+import { LocatorCandidate } from "../src/types/schemas";
+
+/**
+ * 模拟的 Locator，key 描述查询方式
+ */
+interface FakeLocator {
+  key: string;
+  count(): Promise<number>;
+  or(other: FakeLocator): FakeLocator;
+  first(): { waitFor(options: { timeout: number }): Promise<void> };
+}
+
+/**
+ * 模拟的查找范围，counts 为各查询匹配的元素数
+ */
+function fakeRoot(counts: Record<string, number>) {
+  const waits: string[] = [];
+  const make = (key: string): FakeLocator => ({
+    key,
+    count: async () => {
+      if (key === "css=>>invalid") throw new Error("invalid selector");
+      return counts[key] ?? 0;
+    },
+    or: (other) => make(`${key}|${other.key}`),
+    first: () => ({
+      waitFor: async () => {
+        waits.push(key);
+        const found = key.split("|").some((k) => (counts[k] ?? 0) > 0);
+        if (!found) throw new Error("timeout");
+      },
+    }),
+  });
+
+  const root = {
+    locator: (selector: string) => make(`css=${selector}`),
+    getByTestId: (id: string) => make(`testid=${id}`),
+    getByRole: (role: string, options: { name?: string }) =>
+      make(`role=${role}:${options.name ?? ""}`),
+    getByLabel: (label: string) => make(`label=${label}`),
+    getByPlaceholder: (text: string) => make(`placeholder=${text}`),
+    getByText: (text: string) => make(`text=${text}`),
+  };
+  return { root: root as unknown as LocatorRoot, waits };
+}
+
+const keyOf = (locator: unknown) => (locator as FakeLocator).key;
+
+const testid: LocatorCandidate = {
+  strategy: "testid",
+  value: "save",
+  unique: true,
+};
+const role: LocatorCandidate = {
+  strategy: "role",
+  value: "button",
+  name: "Save",
+  unique: true,
+};
+const css: LocatorCandidate = {
+  strategy: "css",
+  value: ".btn",
+  unique: false,
+};
+
+describe("LocatorResolver.resolve", () => {
+  it("按顺序使用第一个唯一匹配的候选", async () => {
+    const { root } = fakeRoot({
+      "testid=save": 2,
+      "role=button:Save": 1,
+      "css=.btn": 1,
+    });
+    const resolved = await LocatorResolver.resolve(root, [testid, role, css]);
+
+    expect(resolved.candidate).toBe(role);
+    expect(resolved.ambiguous).toBe(false);
+    expect(keyOf(resolved.locator)).toBe("role=button:Save");
+  });
+
+  it("都不唯一时使用第一个有匹配的候选并标记 ambiguous", async () => {
+    const { root } = fakeRoot({ "role=button:Save": 3, "css=.btn": 2 });
+    const resolved = await LocatorResolver.resolve(root, [testid, role, css]);
+
+    expect(resolved.candidate).toBe(role);
+    expect(resolved.ambiguous).toBe(true);
+    // 不收窄到第一个元素
+    expect(keyOf(resolved.locator)).toBe("role=button:Save");
+  });
+
+  it("没有候选匹配时回退到 selector", async () => {
+    const { root } = fakeRoot({});
+    const resolved = await LocatorResolver.resolve(
+      root,
+      [testid, role],
+      "#save",
+      0,
+    );
+
+    expect(resolved.candidate).toBeUndefined();
+    expect(resolved.ambiguous).toBe(false);
+    expect(keyOf(resolved.locator)).toBe("css=#save");
+  });
+
+  it("没有 selector 时使用第一个候选，都没有时报错", async () => {
+    const { root } = fakeRoot({});
+    const resolved = await LocatorResolver.resolve(
+      root,
+      [testid],
+      undefined,
+      0,
+    );
+    expect(resolved.candidate).toBe(testid);
+
+    await expect(
+      LocatorResolver.resolve(root, [], undefined, 0),
+    ).rejects.toThrow("No selector or locator candidates specified");
+  });
+
+  it("无效的选择器视为没有匹配", async () => {
+    const { root } = fakeRoot({ "text=Save": 1 });
+    const invalid: LocatorCandidate = {
+      strategy: "css",
+      value: ">>invalid",
+      unique: true,
+    };
+    const text: LocatorCandidate = {
+      strategy: "text",
+      value: "Save",
+      unique: true,
+    };
+    const resolved = await LocatorResolver.resolve(root, [invalid, text]);
+    expect(resolved.candidate).toBe(text);
+  });
+
+  it("解析前等待任一候选出现，timeout 为 0 时不等待", async () => {
+    const first = fakeRoot({ "css=.btn": 1 });
+    await LocatorResolver.resolve(first.root, [testid, css]);
+    expect(first.waits).toEqual(["testid=save|css=.btn"]);
+
+    const second = fakeRoot({ "css=.btn": 1 });
+    await LocatorResolver.resolve(second.root, [testid, css], undefined, 0);
+    expect(second.waits).toEqual([]);
+  });
+});
+
+describe("LocatorResolver.checkUniqueness", () => {
+  it("按当前页面的匹配数标记 unique", async () => {
+    const { root } = fakeRoot({ "testid=save": 1, "css=.btn": 4 });
+    const checked = await LocatorResolver.checkUniqueness(root, [
+      { strategy: "testid", value: "save" },
+      { strategy: "css", value: ".btn" },
+      { strategy: "label", value: "Missing" },
+    ]);
+    expect(checked.map((c) => c.unique)).toEqual([true, false, false]);
+  });
+});
+
+describe("LocatorResolver.toLocator", () => {
+  it("自定义 testid 属性使用 CSS 属性选择器", () => {
+    const { root } = fakeRoot({});
+    const locator = LocatorResolver.toLocator(root, {
+      strategy: "testid",
+      attribute: "data-qa",
+      value: "save",
+      unique: true,
+    });
+    expect(keyOf(locator)).toBe('css=[data-qa="save"]');
+  });
+});
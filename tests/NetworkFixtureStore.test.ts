@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import { NetworkFixtureStore } from "../src/core/network/NetworkFixtureStore";
+import {
+  Har,
+  HarEntry,
+  NetworkRecorder,
+} from "../src/core/network/NetworkRecorder";
+
+/**
+ * 构建 HAR 条目（只填充 fixture 用到的字段）
+ */
+function entry(
+  method: string,
+  url: string,
+  body: string,
+  overrides: {
+    status?: number;
+    resourceType?: string;
+    headers?: Array<{ name: string; value: string }>;
+    truncated?: boolean;
+  } = {},
+): HarEntry {
+  return {
+    request: { method, url },
+    response: {
+      status: overrides.status ?? 200,
+      headers: overrides.headers ?? [],
+      content: {
+        size: body.length,
+        mimeType: "application/json",
+        text: body,
+        ...(overrides.truncated && { _truncated: true }),
+      },
+    },
+    _resourceType: overrides.resourceType ?? "fetch",
+  } as HarEntry;
+}
+
+function store(
+  entries: HarEntry[],
+  mode: "replay-strict" | "replay-passthrough" = "replay-strict",
+) {
+  const har = { log: { entries } } as unknown as Har;
+  return new NetworkFixtureStore("fixtures/test.har", har, mode);
+}
+
+function request(method: string, url: string, resourceType = "fetch") {
+  return {
+    method: () => method,
+    url: () => url,
+    resourceType: () => resourceType,
+  } as any;
+}
+
+const bodyOf = (decision: ReturnType<NetworkFixtureStore["handle"]>) =>
+  decision.action === "fulfill" ? decision.body : decision.action;
+
+describe("NetworkFixtureStore 请求匹配", () => {
+  it("按方法、路径和查询参数匹配，忽略参数顺序", () => {
+    const fixtures = store([
+      entry("GET", "https://a.com/api/items?page=1&sort=asc", "page1"),
+      entry("GET", "https://a.com/api/items?page=2&sort=asc", "page2"),
+      entry("POST", "https://a.com/api/items", "created"),
+    ]);
+
+    expect(
+      bodyOf(
+        fixtures.handle(
+          request("GET", "https://a.com/api/items?sort=asc&page=2"),
+        ),
+      ),
+    ).toBe("page2");
+    expect(
+      bodyOf(fixtures.handle(request("POST", "https://a.com/api/items"))),
+    ).toBe("created");
+    expect(
+      bodyOf(fixtures.handle(request("GET", "https://a.com/api/items?page=3"))),
+    ).toBe("abort");
+    expect(
+      bodyOf(
+        fixtures.handle(
+          request("GET", "https://a.com/api/items?page=1&sort=asc&extra=1"),
+        ),
+      ),
+    ).toBe("abort");
+  });
+
+  it("录制时脱敏的查询参数匹配任意值", () => {
+    const fixtures = store([
+      entry("GET", "https://a.com/api/me?token=[REDACTED]", "me"),
+    ]);
+    expect(
+      bodyOf(fixtures.handle(request("GET", "https://a.com/api/me?token=xyz"))),
+    ).toBe("me");
+    expect(
+      bodyOf(fixtures.handle(request("GET", "https://a.com/api/me"))),
+    ).toBe("abort");
+  });
+
+  it("同一请求按录制顺序依次返回，用完后重复最后一个", () => {
+    const fixtures = store([
+      entry("GET", "https://a.com/api/status", "pending"),
+      entry("GET", "https://a.com/api/status", "running"),
+      entry("GET", "https://a.com/api/status", "done"),
+    ]);
+    const replay = () =>
+      bodyOf(fixtures.handle(request("GET", "https://a.com/api/status")));
+
+    expect([replay(), replay(), replay(), replay()]).toEqual([
+      "pending",
+      "running",
+      "done",
+      "done",
+    ]);
+  });
+});
+
+describe("NetworkFixtureStore 回放模式", () => {
+  it("strict 中止未匹配的请求，passthrough 访问真实服务，都记录在报告中", () => {
+    const recorded = [entry("GET", "https://a.com/api/a", "a")];
+    const strict = store(recorded, "replay-strict");
+    const passthrough = store(recorded, "replay-passthrough");
+    const missing = request("GET", "https://a.com/api/b");
+
+    expect(strict.handle(missing).action).toBe("abort");
+    expect(passthrough.handle(missing).action).toBe("continue");
+
+    passthrough.handle(request("GET", "https://a.com/api/a"));
+    expect(passthrough.getReport()).toEqual({
+      har: "fixtures/test.har",
+      mode: "replay-passthrough",
+      matched: 1,
+      unmatched: [
+        { method: "GET", url: "https://a.com/api/b", resourceType: "fetch" },
+      ],
+    });
+  });
+
+  it("只回放 XHR/fetch，其他请求始终访问真实服务", () => {
+    const fixtures = store([
+      entry("GET", "https://a.com/app.js", "js", { resourceType: "script" }),
+    ]);
+    expect(
+      fixtures.handle(request("GET", "https://a.com/app.js", "script")).action,
+    ).toBe("continue");
+    expect(fixtures.getReport().unmatched).toEqual([]);
+  });
+
+  it("跳过失败和响应体被截断的条目", () => {
+    const fixtures = store([
+      entry("GET", "https://a.com/api/failed", "", { status: 0 }),
+      entry("GET", "https://a.com/api/large", '{"items":[', {
+        truncated: true,
+      }),
+    ]);
+    expect(
+      fixtures.handle(request("GET", "https://a.com/api/failed")).action,
+    ).toBe("abort");
+    expect(
+      fixtures.handle(request("GET", "https://a.com/api/large")).action,
+    ).toBe("abort");
+  });
+
+  it("回放的响应头跳过脱敏的值和长度、编码相关的头", () => {
+    const fixtures = store([
+      entry("GET", "https://a.com/api/a", "a", {
+        status: 201,
+        headers: [
+          { name: "Content-Type", value: "application/json" },
+          { name: "Content-Length", value: "1" },
+          { name: "Content-Encoding", value: "gzip" },
+          { name: "Set-Cookie", value: "[REDACTED]" },
+        ],
+      }),
+    ]);
+    expect(fixtures.handle(request("GET", "https://a.com/api/a"))).toEqual({
+      action: "fulfill",
+      status: 201,
+      headers: { "content-type": "application/json" },
+      body: "a",
+    });
+  });
+});
+
+describe("录制 fixture", () => {
+  it("fixture 使用未脱敏、未截断的响应体，导出的 HAR 仍然脱敏", async () => {
+    const body = JSON.stringify({ token: "t1", items: "x".repeat(100) });
+    const headers = { "content-type": "application/json" };
+    const recorded = {
+      url: () => "https://a.com/api/login",
+      method: () => "POST",
+      resourceType: () => "fetch",
+      allHeaders: async () => headers,
+      sizes: async () => ({
+        requestHeadersSize: 0,
+        requestBodySize: 0,
+        responseHeadersSize: 0,
+        responseBodySize: body.length,
+      }),
+      timing: () => ({}) as any,
+      postData: () => null,
+      response: async () => ({
+        status: () => 200,
+        statusText: () => "OK",
+        allHeaders: async () => headers,
+        body: async () => Buffer.from(body),
+      }),
+    };
+
+    const recorder = new NetworkRecorder({
+      captureBodies: true,
+      maxBodySize: 32,
+      keepRawBodies: true,
+    });
+    const handlers: Record<string, (request: unknown) => void> = {};
+    recorder.attach({
+      on: (event: string, handler: (request: unknown) => void) => {
+        handlers[event] = handler;
+      },
+      off: () => {},
+    } as any);
+    handlers.request!(recorded);
+    handlers.requestfinished!(recorded);
+    await recorder.flush();
+
+    const exported = recorder.toHar("t").log.entries[0]!.response.content;
+    expect(exported._truncated).toBe(true);
+    expect(exported.text).toContain("[REDACTED]");
+
+    const fixtures = new NetworkFixtureStore(
+      "fixtures/login.har",
+      recorder.toFixtureHar("t"),
+      "replay-strict",
+    );
+    expect(
+      bodyOf(fixtures.handle(request("POST", "https://a.com/api/login"))),
+    ).toBe(body);
+  });
+});
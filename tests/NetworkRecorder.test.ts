@@ -0,0 +1,229 @@
+import { describe, expect, it } from "vitest";
+import { NetworkRecorder } from "../src/core/network/NetworkRecorder";
+
+interface FakeRequestInit {
+  url: string;
+  method?: string;
+  resourceType?: string;
+  requestHeaders?: Record<string, string>;
+  postData?: string;
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * 模拟的 Playwright Request
+ */
+function fakeRequest(init: FakeRequestInit) {
+  return {
+    url: () => init.url,
+    method: () => init.method ?? "GET",
+    resourceType: () => init.resourceType ?? "fetch",
+    allHeaders: async () => init.requestHeaders ?? {},
+    sizes: async () => ({
+      requestHeadersSize: 10,
+      requestBodySize: init.postData?.length ?? 0,
+      responseHeadersSize: 20,
+      responseBodySize: init.body?.length ?? 0,
+    }),
+    timing: () => ({
+      startTime: 0,
+      domainLookupStart: -1,
+      domainLookupEnd: -1,
+      connectStart: 1,
+      secureConnectionStart: -1,
+      connectEnd: 3,
+      requestStart: 4,
+      responseStart: 10,
+      responseEnd: 12,
+    }),
+    postData: () => init.postData ?? null,
+    failure: () => null,
+    response: async () => ({
+      status: () => init.status ?? 200,
+      statusText: () => "OK",
+      allHeaders: async () => init.responseHeaders ?? {},
+      body: async () => Buffer.from(init.body ?? ""),
+    }),
+  };
+}
+
+/**
+ * 让记录器记录一组请求，返回记录的条目
+ */
+async function record(recorder: NetworkRecorder, requests: FakeRequestInit[]) {
+  const handlers: Record<string, (request: unknown) => void> = {};
+  const page = {
+    on: (event: string, handler: (request: unknown) => void) => {
+      handlers[event] = handler;
+    },
+    off: () => {},
+  };
+  recorder.attach(page as any);
+  for (const init of requests) {
+    const request = fakeRequest(init);
+    handlers.request!(request);
+    handlers.requestfinished!(request);
+  }
+  await recorder.flush();
+  return recorder.getEntries();
+}
+
+const json = { "content-type": "application/json" };
+
+describe("NetworkRecorder 脱敏", () => {
+  it("脱敏默认和追加的请求头/响应头", async () => {
+    const [entry] = await record(
+      new NetworkRecorder({ redactHeaders: ["X-Tenant"] }),
+      [
+        {
+          url: "https://a.com/api",
+          requestHeaders: {
+            Authorization: "Bearer abc",
+            "x-tenant": "t1",
+            accept: "*/*",
+          },
+          responseHeaders: {
+            "set-cookie": "sid=1",
+            "content-type": "text/plain",
+          },
+        },
+      ],
+    );
+
+    expect(entry!.requestHeaders).toEqual({
+      Authorization: "[REDACTED]",
+      "x-tenant": "[REDACTED]",
+      accept: "*/*",
+    });
+    expect(entry!.responseHeaders).toEqual({
+      "set-cookie": "[REDACTED]",
+      "content-type": "text/plain",
+    });
+  });
+
+  it("脱敏 URL 中的敏感查询参数", async () => {
+    const [entry, plain] = await record(new NetworkRecorder(), [
+      { url: "https://a.com/cb?access_token=abc&state=1" },
+      { url: "https://a.com/list?page=2" },
+    ]);
+    expect(entry!.url).toBe(
+      "https://a.com/cb?access_token=%5BREDACTED%5D&state=1",
+    );
+    expect(plain!.url).toBe("https://a.com/list?page=2");
+  });
+
+  it("递归脱敏 JSON 请求体和响应体中的敏感字段", async () => {
+    const [entry] = await record(
+      new NetworkRecorder({ captureBodies: true, redactFields: ["phone"] }),
+      [
+        {
+          url: "https://a.com/api/login",
+          method: "POST",
+          requestHeaders: json,
+          postData: JSON.stringify({ user: "u", password: "p" }),
+          responseHeaders: json,
+          body: JSON.stringify({
+            accessToken: "t",
+            profile: { name: "n", phoneNumber: "1" },
+            cards: [{ card_number: "4111", brand: "visa" }],
+          }),
+        },
+      ],
+    );
+
+    expect(JSON.parse(entry!.requestBody!)).toEqual({
+      user: "u",
+      password: "[REDACTED]",
+    });
+    expect(JSON.parse(entry!.responseBody!)).toEqual({
+      accessToken: "[REDACTED]",
+      profile: { name: "n", phoneNumber: "[REDACTED]" },
+      cards: [{ card_number: "[REDACTED]", brand: "visa" }],
+    });
+  });
+
+  it("脱敏表单编码的请求体，非 JSON 的内容原样保留", async () => {
+    const [form, text] = await record(
+      new NetworkRecorder({ captureBodies: true }),
+      [
+        {
+          url: "https://a.com/login",
+          method: "POST",
+          requestHeaders: {
+            "content-type": "application/x-www-form-urlencoded",
+          },
+          postData: "user=u&passwd=p",
+        },
+        {
+          url: "https://a.com/raw",
+          method: "POST",
+          requestHeaders: json,
+          postData: "{not json password",
+        },
+      ],
+    );
+    expect(form!.requestBody).toBe("user=u&passwd=%5BREDACTED%5D");
+    expect(text!.requestBody).toBe("{not json password");
+  });
+
+  it("只在开启 captureBodies 时记录 XHR/fetch 的 body", async () => {
+    const request = { url: "https://a.com/api", body: "ok" };
+    const [off] = await record(new NetworkRecorder(), [request]);
+    expect(off!.responseBody).toBeUndefined();
+
+    const [fetched, document] = await record(
+      new NetworkRecorder({ captureBodies: true }),
+      [request, { ...request, resourceType: "document" }],
+    );
+    expect(fetched!.responseBody).toBe("ok");
+    expect(document!.responseBody).toBeUndefined();
+  });
+
+  it("超过 maxBodySize 的 body 被截断并在 HAR 中标记", async () => {
+    const recorder = new NetworkRecorder({
+      captureBodies: true,
+      maxBodySize: 8,
+    });
+    const [entry] = await record(recorder, [
+      { url: "https://a.com/api", body: "0123456789" },
+    ]);
+    expect(entry!.responseBody).toBe("01234567");
+    expect(entry!.responseBodyTruncated).toBe(true);
+
+    const content = recorder.toHar("t").log.entries[0]!.response.content;
+    expect(content).toMatchObject({ text: "01234567", _truncated: true });
+  });
+});
+
+describe("NetworkRecorder.toHar", () => {
+  it("转换为 HAR 条目，包含查询参数、耗时和大小", async () => {
+    const recorder = new NetworkRecorder({ captureBodies: true });
+    await record(recorder, [
+      {
+        url: "https://a.com/api?q=1",
+        method: "POST",
+        requestHeaders: json,
+        postData: "{}",
+        status: 201,
+        responseHeaders: { ...json, location: "/api/1" },
+        body: "{}",
+      },
+    ]);
+    const har = recorder.toHar("title");
+    const entry = har.log.entries[0]!;
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.pages[0]!.title).toBe("title");
+    expect(entry.request.queryString).toEqual([{ name: "q", value: "1" }]);
+    expect(entry.request.postData).toEqual({
+      mimeType: "application/json",
+      text: "{}",
+    });
+    expect(entry.response.status).toBe(201);
+    expect(entry.response.redirectURL).toBe("/api/1");
+    expect(entry.timings).toMatchObject({ connect: 2, wait: 6, receive: 2 });
+    expect(entry.time).toBe(12);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { PerformanceBudgets } from "../src/core/performance/PerformanceBudgets";
+import { PerformanceMetrics } from "../src/types/schemas";
+
+const metrics: PerformanceMetrics = {
+  navigation: { ttfb: 300, domContentLoaded: 900, load: 1800, fcp: 1200 },
+  lcp: 3200,
+  cls: 0.05,
+  resources: { count: 40, transferSize: 900_000, byType: {} },
+};
+
+describe("PerformanceBudgets.check", () => {
+  it("报告超出预算的指标，等于预算不算超出", () => {
+    const budgets = new PerformanceBudgets([
+      { lcp: 2500, cls: 0.1, load: 1800, resourceCount: 30 },
+    ]);
+    expect(budgets.check("/", metrics)).toEqual([
+      { metric: "lcp", value: 3200, budget: 2500 },
+      { metric: "resourceCount", value: 40, budget: 30 },
+    ]);
+  });
+
+  it("没有采集到的指标不检查", () => {
+    const budgets = new PerformanceBudgets([{ inp: 200, tbt: 100 }]);
+    expect(budgets.check("/", metrics)).toEqual([]);
+  });
+
+  it("按路径匹配路由 glob，忽略查询参数和 hash", () => {
+    const budgets = new PerformanceBudgets([
+      { route: "/admin/**", ttfb: 100 },
+      { route: "/users/*", transferSize: 500_000 },
+    ]);
+
+    expect(budgets.check("/admin/reports/daily?range=7d", metrics)).toEqual([
+      { metric: "ttfb", value: 300, budget: 100 },
+    ]);
+    expect(budgets.check("/users/1#profile", metrics)).toEqual([
+      { metric: "transferSize", value: 900_000, budget: 500_000 },
+    ]);
+    expect(budgets.check("/users/1/edit", metrics)).toEqual([]);
+    expect(budgets.check("/", metrics)).toEqual([]);
+  });
+
+  it("同一指标以最后一个匹配的预算为准", () => {
+    const budgets = new PerformanceBudgets([
+      { lcp: 2500, fcp: 1000 },
+      { route: "/reports/**", lcp: 4000 },
+    ]);
+
+    expect(budgets.check("/reports/q1", metrics)).toEqual([
+      { metric: "fcp", value: 1200, budget: 1000 },
+    ]);
+    expect(budgets.check("/home", metrics).map((v) => v.metric)).toEqual([
+      "fcp",
+      "lcp",
+    ]);
+  });
+});
+
+describe("PerformanceBudgets.format", () => {
+  it("格式化超出的指标", () => {
+    expect(
+      PerformanceBudgets.format([
+        { metric: "lcp", value: 3200, budget: 2500 },
+        { metric: "cls", value: 0.3, budget: 0.1 },
+      ]),
+    ).toBe("lcp 3200 > 2500, cls 0.3 > 0.1");
+  });
+});
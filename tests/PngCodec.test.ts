@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { PngCodec, RgbaImage } from "../src/core/visual/PngCodec";
+import { ImageDiff } from "../src/core/visual/ImageDiff";
+
+/**
+ * 生成渐变测试图像
+ */
+function gradient(width: number, height: number): RgbaImage {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = (x * 37) & 0xff;
+      data[i + 1] = (y * 53) & 0xff;
+      data[i + 2] = (x * y) & 0xff;
+      data[i + 3] = 255 - ((x + y) & 0x7f);
+    }
+  }
+  return { width, height, data };
+}
+
+describe("PngCodec", () => {
+  it("编码后解码得到相同的像素", () => {
+    const image = gradient(17, 9);
+    const decoded = PngCodec.decode(PngCodec.encode(image));
+    expect(decoded.width).toBe(17);
+    expect(decoded.height).toBe(9);
+    expect(decoded.data.equals(image.data)).toBe(true);
+  });
+
+  it("输出以 PNG 签名开头", () => {
+    const png = PngCodec.encode(gradient(2, 2));
+    expect(png.subarray(0, 8).toString("hex")).toBe("89504e470d0a1a0a");
+  });
+
+  it("拒绝非 PNG 数据", () => {
+    expect(() => PngCodec.decode(Buffer.from("not a png"))).toThrow();
+  });
+});
+
+describe("ImageDiff", () => {
+  const options = { method: "pixel" as const, colorThreshold: 0.1 };
+
+  it("相同的图像没有差异", () => {
+    const image = gradient(8, 8);
+    const result = ImageDiff.compare(image, gradient(8, 8), options);
+    expect(result.diffPixels).toBe(0);
+    expect(result.diffRatio).toBe(0);
+  });
+
+  it("统计变化的像素，忽略区域内的变化不计入", () => {
+    const baseline = gradient(10, 10);
+    const current = gradient(10, 10);
+    for (const [x, y] of [
+      [1, 1],
+      [8, 8],
+    ] as const) {
+      const i = (y * 10 + x) * 4;
+      current.data[i] = 255 - current.data[i]!;
+      current.data[i + 1] = 255 - current.data[i + 1]!;
+    }
+
+    expect(ImageDiff.compare(baseline, current, options).diffPixels).toBe(2);
+    expect(
+      ImageDiff.compare(baseline, current, {
+        ...options,
+        ignoreRegions: [{ x: 7, y: 7, width: 3, height: 3 }],
+      }).diffPixels,
+    ).toBe(1);
+  });
+
+  it("尺寸不同时超出部分计为差异", () => {
+    const result = ImageDiff.compare(gradient(4, 4), gradient(4, 5), options);
+    expect(result.diffImage.height).toBe(5);
+    expect(result.diffPixels).toBe(4);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { RouteDiscovery } from "../src/phases/phase-a-scan/RouteDiscovery";
+import { CrawlPolicy } from "../src/phases/phase-a-scan/CrawlPolicy";
+import { ElementInfo, RouteDiscoveryOptions } from "../src/types/schemas";
+
+const base = "https://a.com/";
+
+function normalize(url: string, options: RouteDiscoveryOptions = {}): string {
+  return new RouteDiscovery(base, options)["normalizeUrl"](url);
+}
+
+describe("RouteDiscovery.normalizeUrl", () => {
+  it("默认移除查询参数和锚点", () => {
+    expect(normalize("https://a.com/list?page=2&sort=asc#top")).toBe(
+      "https://a.com/list",
+    );
+  });
+
+  it("只保留 significantQueryParams，并按名称排序", () => {
+    const options = { significantQueryParams: ["tab", "page"] };
+    expect(
+      normalize("https://a.com/list?utm=x&tab=b&page=2&page=3", options),
+    ).toBe("https://a.com/list?page=2&page=3&tab=b");
+    expect(normalize("https://a.com/list?tab=b&page=2", options)).toBe(
+      normalize("https://a.com/list?page=2&tab=b&utm=y", options),
+    );
+  });
+
+  it("hashRoutes 开启时保留 #/ 和 #!/ 路由，普通锚点仍然移除", () => {
+    const options = { hashRoutes: true };
+    expect(normalize("https://a.com/#/users/1", options)).toBe(
+      "https://a.com/#/users/1",
+    );
+    expect(normalize("https://a.com/#!/users", options)).toBe(
+      "https://a.com/#!/users",
+    );
+    expect(normalize("https://a.com/page#section", options)).toBe(
+      "https://a.com/page",
+    );
+    expect(normalize("https://a.com/#/users/1")).toBe("https://a.com/");
+  });
+
+  it("spa 模式默认开启 hashRoutes", () => {
+    expect(normalize("https://a.com/#/settings", { mode: "spa" })).toBe(
+      "https://a.com/#/settings",
+    );
+  });
+});
+
+describe("RouteDiscovery 导航元素过滤", () => {
+  function element(overrides: Partial<ElementInfo>): ElementInfo {
+    return {
+      selector: "#el",
+      tagName: "a",
+      attributes: {},
+      isInteractive: true,
+      elementType: "link",
+      ...overrides,
+    } as ElementInfo;
+  }
+
+  function isSafe(el: ElementInfo, policy?: CrawlPolicy): boolean {
+    return new RouteDiscovery(base, { mode: "spa" }, null, policy)[
+      "isSafeNavigationElement"
+    ](el, base);
+  }
+
+  it("点击无 href 的链接、标签页、菜单项和路由链接", () => {
+    expect(isSafe(element({ text: "Users" }))).toBe(true);
+    expect(
+      isSafe(element({ tagName: "div", elementType: "tab", text: "Tab" })),
+    ).toBe(true);
+    expect(
+      isSafe(
+        element({
+          tagName: "li",
+          elementType: "text",
+          attributes: { role: "menuitem" },
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      isSafe(
+        element({
+          tagName: "span",
+          elementType: "text",
+          attributes: { to: "/settings" },
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("带真实 href 的链接交给链接提取，普通元素不点击", () => {
+    expect(isSafe(element({ attributes: { href: "/users" } }))).toBe(false);
+    expect(isSafe(element({ attributes: { href: "#" } }))).toBe(true);
+    expect(isSafe(element({ tagName: "div", elementType: "text" }))).toBe(
+      false,
+    );
+  });
+
+  it("按钮只在声明 type=button 时点击", () => {
+    const button = {
+      tagName: "button",
+      elementType: "button" as const,
+      attributes: { role: "tab" },
+    };
+    expect(isSafe(element(button))).toBe(false);
+    expect(
+      isSafe(
+        element({ ...button, attributes: { role: "tab", type: "button" } }),
+      ),
+    ).toBe(true);
+  });
+
+  it("跳过有副作用的文本、禁用元素和 iframe 中的元素", () => {
+    expect(isSafe(element({ text: "删除用户" }))).toBe(false);
+    expect(isSafe(element({ attributes: { "aria-label": "Save" } }))).toBe(
+      false,
+    );
+    expect(isSafe(element({ attributes: { disabled: "" } }))).toBe(false);
+    expect(isSafe(element({ framePath: ["iframe"] } as any))).toBe(false);
+  });
+
+  it("目标地址被爬取策略拒绝时跳过", () => {
+    const policy = new CrawlPolicy({ exclude: ["/admin/**"] });
+    expect(
+      isSafe(element({ attributes: { routerlink: "/admin/users" } }), policy),
+    ).toBe(false);
+    expect(
+      isSafe(element({ attributes: { href: "#/admin/users" } }), policy),
+    ).toBe(false);
+    expect(
+      isSafe(element({ attributes: { routerlink: "/users" } }), policy),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import { ScanDiffer } from "../src/phases/phase-a-scan/ScanDiffer";
+import { StorageManager } from "../src/core/storage/StorageManager";
+import {
+  ElementInfo,
+  NetworkRequest,
+  ScanResult,
+  SOPWorkflow,
+} from "../src/types/schemas";
+
+function element(selector: string, overrides: Partial<ElementInfo> = {}) {
+  return {
+    selector,
+    tagName: "button",
+    attributes: {},
+    isInteractive: true,
+    elementType: "button",
+    ...overrides,
+  } as ElementInfo;
+}
+
+function scan(
+  route: string,
+  timestamp: string,
+  overrides: {
+    elements?: ElementInfo[];
+    errors?: string[];
+    requests?: Partial<NetworkRequest>[];
+  } = {},
+): ScanResult {
+  return {
+    route,
+    timestamp,
+    elements: overrides.elements ?? [],
+    console: (overrides.errors ?? []).map((text) => ({
+      type: "error",
+      text,
+      timestamp,
+    })),
+    networkRequests: (overrides.requests ?? []) as NetworkRequest[],
+  } as ScanResult;
+}
+
+/**
+ * 模拟的存储，scans 按时间戳目录保存扫描结果
+ */
+function fakeStorage(
+  scans: Record<string, ScanResult[]>,
+  workflows: SOPWorkflow[] = [],
+) {
+  return {
+    listTimestamps: async () => Object.keys(scans).sort().reverse(),
+    loadPhaseDataByTimestamp: async (_phase: string, timestamp: string) =>
+      scans[timestamp] ?? [],
+    loadLatestPhaseData: async () => workflows,
+  } as unknown as StorageManager;
+}
+
+const T1 = "2026-01-01_10-00-00";
+const T2 = "2026-01-01_10-00-05";
+const T3 = "2026-01-02_10-00-00";
+const T4 = "2026-01-02_10-00-05";
+
+describe("ScanDiffer.diff", () => {
+  it("对比路由的增减，快照包含区间内的所有时间戳目录", async () => {
+    const differ = new ScanDiffer(
+      fakeStorage({
+        [T1]: [scan("/", "2026-01-01T10:00:00Z")],
+        [T2]: [scan("/old", "2026-01-01T10:00:05Z")],
+        [T3]: [scan("/", "2026-01-02T10:00:00Z")],
+        [T4]: [scan("/new", "2026-01-02T10:00:05Z")],
+      }),
+    );
+    const report = await differ.diff(T1, T3);
+
+    expect(report).toMatchObject({
+      fromPages: 2,
+      toPages: 2,
+      addedRoutes: ["/new"],
+      removedRoutes: ["/old"],
+      pages: [],
+      atRiskWorkflows: [],
+    });
+  });
+
+  it("同一路由出现多次时使用最新的结果", async () => {
+    const differ = new ScanDiffer(
+      fakeStorage({
+        [T1]: [
+          scan("/", "2026-01-01T10:00:00Z", { elements: [element("#a")] }),
+        ],
+        [T2]: [
+          scan("/", "2026-01-01T10:00:05Z", { elements: [element("#b")] }),
+        ],
+        [T3]: [
+          scan("/", "2026-01-02T10:00:00Z", { elements: [element("#b")] }),
+        ],
+      }),
+    );
+    expect((await differ.diff(T1, T3)).pages).toEqual([]);
+  });
+
+  it("按 iframe 路径和选择器比较可交互元素，忽略位置和非交互元素", async () => {
+    const differ = new ScanDiffer(
+      fakeStorage({
+        [T1]: [
+          scan("/", "2026-01-01T10:00:00Z", {
+            elements: [
+              element("#save", { text: "Save" }),
+              element("#delete"),
+              element("#pay", { framePath: ["#checkout"] }),
+              element("#logo", {
+                boundingBox: { x: 0, y: 0, width: 10, height: 10 },
+              }),
+              element("p", { isInteractive: false, text: "old" }),
+            ],
+          }),
+        ],
+        [T3]: [
+          scan("/", "2026-01-02T10:00:00Z", {
+            elements: [
+              element("#save", { text: "Save all" }),
+              element("#pay"),
+              element("#logo", {
+                boundingBox: { x: 5, y: 5, width: 10, height: 10 },
+              }),
+              element("p", { isInteractive: false, text: "new" }),
+            ],
+          }),
+        ],
+      }),
+    );
+    const [page] = (await differ.diff(T1, T3)).pages;
+
+    expect(page!.route).toBe("/");
+    expect(page!.addedElements).toEqual([
+      { selector: "#pay", elementType: "button" },
+    ]);
+    expect(page!.removedElements).toEqual([
+      { selector: "#delete", elementType: "button" },
+      { selector: "#pay", framePath: ["#checkout"], elementType: "button" },
+    ]);
+    expect(page!.changedElements).toEqual([
+      {
+        element: { selector: "#save", elementType: "button", text: "Save all" },
+        changes: [
+          { path: "text", kind: "edited", before: "Save", after: "Save all" },
+        ],
+      },
+    ]);
+  });
+
+  it("报告新出现的控制台错误和按路径模板归并的失败请求", async () => {
+    const differ = new ScanDiffer(
+      fakeStorage({
+        [T1]: [
+          scan("/", "2026-01-01T10:00:00Z", {
+            errors: ["known"],
+            requests: [
+              { method: "get", url: "https://a.com/api/users/1", status: 500 },
+            ],
+          }),
+        ],
+        [T3]: [
+          scan("/", "2026-01-02T10:00:00Z", {
+            errors: ["known", "boom", "boom"],
+            requests: [
+              { method: "GET", url: "https://a.com/api/users/2", status: 500 },
+              { method: "GET", url: "https://a.com/api/users/3", status: 404 },
+              { method: "POST", url: "https://a.com/api/log", failure: "net" },
+              { method: "GET", url: "https://a.com/api/ok", status: 200 },
+            ],
+          }),
+        ],
+      }),
+    );
+    const [page] = (await differ.diff(T1, T3)).pages;
+
+    expect(page!.newConsoleErrors).toEqual(["boom"]);
+    expect(page!.newFailingRequests).toEqual([
+      { method: "GET", path: "https://a.com/api/users/:id", status: 404 },
+      { method: "POST", path: "https://a.com/api/log", failure: "net" },
+    ]);
+  });
+
+  it("标记导航到被移除路由或操作被移除、变化元素的工作流", async () => {
+    const workflow = (id: string, steps: unknown[]) =>
+      ({ id, name: id, steps }) as SOPWorkflow;
+    const differ = new ScanDiffer(
+      fakeStorage(
+        {
+          [T1]: [
+            scan("/", "2026-01-01T10:00:00Z", {
+              elements: [element("#save", { text: "Save" }), element("#del")],
+            }),
+            scan("/old", "2026-01-01T10:00:00Z"),
+          ],
+          [T3]: [
+            scan("/", "2026-01-02T10:00:00Z", {
+              elements: [element("#save", { text: "Submit" })],
+            }),
+          ],
+        },
+        [
+          workflow("w1", [
+            {
+              stepNumber: 1,
+              action: "navigate",
+              target: { url: "https://a.com/old" },
+            },
+            { stepNumber: 2, action: "click", target: { selector: "#del" } },
+            { stepNumber: 3, action: "click", target: { selector: "#save" } },
+          ]),
+          workflow("w2", [
+            { stepNumber: 1, action: "navigate", target: { url: "/" } },
+          ]),
+        ],
+      ),
+    );
+    const report = await differ.diff(T1, T3);
+
+    expect(report.atRiskWorkflows).toEqual([
+      {
+        id: "w1",
+        name: "w1",
+        reasons: [
+          "步骤 1: 路由 /old 已不存在",
+          "步骤 2: 元素 #del 已移除",
+          "步骤 3: 元素 #save 已变化 (text)",
+        ],
+      },
+    ]);
+  });
+
+  it("时间戳顺序错误或不存在时报错", async () => {
+    const differ = new ScanDiffer(fakeStorage({ [T1]: [], [T3]: [] }));
+    await expect(differ.diff(T3, T1)).rejects.toThrow(
+      `Scan timestamp ${T3} must be earlier than ${T1}`,
+    );
+    await expect(differ.diff(T1, T2)).rejects.toThrow(
+      `Scan timestamp not found: ${T2}`,
+    );
+  });
+});
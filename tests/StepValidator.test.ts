@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { StepValidator } from "../src/phases/phase-d-execute/StepValidator";
+
+describe("StepValidator.compare", () => {
+  it("equals 对基本类型按字符串比较，对象按 JSON 比较", () => {
+    expect(StepValidator.compare(3, "3", "equals")).toBe(true);
+    expect(StepValidator.compare(true, "true", "equals")).toBe(true);
+    expect(StepValidator.compare(null, "null", "equals")).toBe(true);
+    expect(StepValidator.compare({ a: 1 }, { a: 1 }, "equals")).toBe(true);
+    expect(StepValidator.compare([1, 2], [2, 1], "equals")).toBe(false);
+    expect(StepValidator.compare("a", "b", "notEquals")).toBe(true);
+    expect(StepValidator.compare(1, "1", "notEquals")).toBe(false);
+  });
+
+  it("contains 把空值视为空字符串", () => {
+    expect(StepValidator.compare("Hello world", "world", "contains")).toBe(
+      true,
+    );
+    expect(StepValidator.compare(null, "x", "contains")).toBe(false);
+    expect(StepValidator.compare("abc", undefined, "contains")).toBe(true);
+  });
+
+  it("matches 支持普通正则和 /pattern/flags 写法", () => {
+    expect(StepValidator.compare("/orders/42", "/orders/\\d+", "matches")).toBe(
+      true,
+    );
+    expect(StepValidator.compare("HELLO", "/^hello$/i", "matches")).toBe(true);
+    expect(StepValidator.compare("HELLO", "^hello$", "matches")).toBe(false);
+  });
+
+  it("数值比较把字符串转换为数字", () => {
+    expect(StepValidator.compare("10", 9, "gt")).toBe(true);
+    expect(StepValidator.compare(9, "9", "gte")).toBe(true);
+    expect(StepValidator.compare(2, "10", "lt")).toBe(true);
+    expect(StepValidator.compare("10", 10, "lte")).toBe(true);
+    expect(StepValidator.compare("abc", 1, "gt")).toBe(false);
+  });
+});
+
+describe("StepValidator.defaultOperator", () => {
+  it("text / url / request 默认 contains，其他默认 equals", () => {
+    expect(StepValidator.defaultOperator("text")).toBe("contains");
+    expect(StepValidator.defaultOperator("url")).toBe("contains");
+    expect(StepValidator.defaultOperator("request")).toBe("contains");
+    expect(StepValidator.defaultOperator("count")).toBe("equals");
+  });
+});
+
+describe("StepValidator.readVariable", () => {
+  it("优先读取完整名称，否则按属性路径读取", () => {
+    const variables = { "a.b": 1, row: { text: "x", nested: null } };
+    expect(StepValidator.readVariable(variables, "a.b")).toBe(1);
+    expect(StepValidator.readVariable(variables, "row.text")).toBe("x");
+    expect(StepValidator.readVariable(variables, "row.nested.deep")).toBe(null);
+    expect(StepValidator.readVariable(variables, "missing.x")).toBe(undefined);
+  });
+});
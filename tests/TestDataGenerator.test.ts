@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { TestDataGenerator } from "../src/core/testdata/TestDataGenerator";
+import { FieldConstraints } from "../src/types/schemas";
+
+/**
+ * 按顺序生成一组值
+ */
+function sequence(generator: TestDataGenerator): string[] {
+  return [
+    generator.generate("person.firstName"),
+    generator.generate("internet.email"),
+    generator.generate(undefined, { type: "number", required: true }),
+    generator.generate(),
+  ];
+}
+
+const field = (overrides: Partial<FieldConstraints>): FieldConstraints => ({
+  type: "text",
+  required: false,
+  ...overrides,
+});
+
+describe("TestDataGenerator 种子", () => {
+  it("相同种子和调用顺序生成相同的数据", () => {
+    const first = new TestDataGenerator({ seed: 42 });
+    const second = new TestDataGenerator({ seed: 42 });
+
+    expect(first.seed).toBe(42);
+    expect(sequence(first)).toEqual(sequence(second));
+  });
+
+  it("不同种子生成不同的数据", () => {
+    expect(sequence(new TestDataGenerator({ seed: 1 }))).not.toEqual(
+      sequence(new TestDataGenerator({ seed: 2 })),
+    );
+  });
+
+  it("未指定种子时随机选择并记录，可用于重现", () => {
+    const random = new TestDataGenerator();
+    const replay = new TestDataGenerator({ seed: random.seed });
+
+    expect(Number.isInteger(random.seed)).toBe(true);
+    expect(sequence(replay)).toEqual(sequence(random));
+  });
+
+  it("实例之间互不影响", () => {
+    const expected = sequence(new TestDataGenerator({ seed: 7 }));
+
+    const interleaved = new TestDataGenerator({ seed: 7 });
+    const other = new TestDataGenerator({ seed: 7 });
+    other.generate("lorem.paragraph");
+    expect(sequence(interleaved)).toEqual(expected);
+  });
+});
+
+describe("TestDataGenerator.generate", () => {
+  it("按路径调用 faker 方法，支持 faker. 前缀和旧的简写", () => {
+    const generator = new TestDataGenerator({ seed: 1 });
+
+    expect(generator.generate("faker.internet.email")).toMatch(/@/);
+    expect(generator.generate("email")).toMatch(/@/);
+    expect(generator.generate("date.past")).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(() => generator.generate("person.nope")).toThrow(
+      "Unknown faker method: person.nope",
+    );
+  });
+
+  it("使用指定的语言，未知语言报错", () => {
+    const generator = new TestDataGenerator({ locale: "zh_CN", seed: 1 });
+    expect(generator.locale).toBe("zh_CN");
+    expect(generator.generate("person.fullName")).toMatch(/[一-鿿]/);
+
+    expect(() => new TestDataGenerator({ locale: "xx_XX" })).toThrow(
+      "Unknown faker locale: xx_XX",
+    );
+  });
+
+  it("按约束生成：选项、正则、数字范围和日期", () => {
+    const generator = new TestDataGenerator({ seed: 3 });
+    const options = [
+      { value: "a", label: "A" },
+      { value: "b", label: "B" },
+    ];
+
+    expect(["a", "b"]).toContain(
+      generator.generate(undefined, field({ type: "select", options })),
+    );
+    expect(
+      generator.generate(undefined, field({ pattern: "^\\d{3}-[A-Z]{2}$" })),
+    ).toMatch(/^\d{3}-[A-Z]{2}$/);
+
+    const number = Number(
+      generator.generate(
+        undefined,
+        field({ type: "number", min: "10", max: "12" }),
+      ),
+    );
+    expect(number).toBeGreaterThanOrEqual(10);
+    expect(number).toBeLessThanOrEqual(12);
+
+    const date = generator.generate(
+      undefined,
+      field({ type: "date", min: "2024-01-01", max: "2024-01-31" }),
+    );
+    expect(date).toMatch(/^2024-01-\d{2}$/);
+    expect(generator.generate(undefined, field({ type: "email" }))).toMatch(
+      /@/,
+    );
+  });
+
+  it("截断或补齐到 minLength / maxLength", () => {
+    const generator = new TestDataGenerator({ seed: 4 });
+
+    expect(
+      generator.generate("lorem.paragraph", field({ maxLength: 5 })),
+    ).toHaveLength(5);
+    expect(
+      generator.generate(undefined, field({ pattern: "x", minLength: 4 })),
+    ).toMatch(/^x[a-zA-Z]{3}$/);
+  });
+});
+
+describe("TestDataGenerator.constraintsFromDependency", () => {
+  it("解析可识别的校验规则，忽略自然语言描述", () => {
+    expect(
+      TestDataGenerator.constraintsFromDependency({
+        fieldName: "code",
+        dependsOn: [],
+        dataType: "string",
+        validationRules: [
+          "required",
+          "pattern: ^[A-Z]{2}:\\d+$",
+          "maxLength: 20",
+          "minLength: abc",
+          "options: a, b,",
+          "必须与确认密码一致",
+        ],
+      }),
+    ).toEqual({
+      type: "text",
+      required: true,
+      pattern: "^[A-Z]{2}:\\d+$",
+      maxLength: 20,
+      options: [
+        { value: "a", label: "a" },
+        { value: "b", label: "b" },
+      ],
+    });
+  });
+
+  it("数据类型映射为 input type", () => {
+    expect(
+      TestDataGenerator.constraintsFromDependency({
+        fieldName: "age",
+        dependsOn: [],
+        dataType: "number",
+        validationRules: ["min: 18", "max: 99"],
+      }),
+    ).toEqual({ type: "number", required: false, min: "18", max: "99" });
+  });
+});